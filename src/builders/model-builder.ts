@@ -0,0 +1,426 @@
+import {
+    Configuration, DATATYPE, Element, Entity, EnumEntityAtribute, EnumX, Event, ManyToMany, Model, Module,
+    ModuleImport, Parameter, Relation, UseCase, UseCasesModel, isEnumX, isModule, isModuleImport, isUseCasesModel
+} from "../models/model.js";
+import { FunctionEntity, ImportedEntity, LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute, AttributeEnum } from "../models/atribute.js";
+import { Actor, isActor } from "../models/actor.js";
+
+export type Target<T> = string | T;
+
+export interface ConfigurationOptions extends Omit<Partial<Configuration>, '$type' | '$container' | 'entity'> {
+    entity?: Target<Entity>;
+}
+
+export interface AttributeOptions {
+    blank?: boolean;
+    comment?: string;
+    fullName?: string;
+    max?: number;
+    min?: number;
+    unique?: boolean;
+}
+
+export interface RelationOptions {
+    comment?: string;
+    fullName?: string;
+}
+
+export interface ManyToManyOptions extends RelationOptions {
+    by?: Target<LocalEntity>;
+}
+
+export interface EntityOptions {
+    comment?: string;
+    is_abstract?: boolean;
+    superType?: Target<Entity>;
+}
+
+export interface UseCaseOptions {
+    actors?: Array<Target<Actor>>;
+    comment?: string;
+    description?: string;
+    superType?: Target<UseCase>;
+}
+
+export interface EventOptions {
+    action?: string;
+    depends?: Array<Target<Event>>;
+    description?: string;
+    name_fragment?: string;
+}
+
+type Deferred = () => void;
+
+abstract class NodeBuilder<T, P> {
+    constructor(protected readonly root: ModelBuilder, protected readonly parent: P, readonly node: T) {}
+
+    /** Returns to the builder that created this one. */
+    end(): P {
+        return this.parent;
+    }
+
+    /** Resolves every pending reference and returns the finished model. */
+    build(): Model {
+        return this.root.build();
+    }
+
+    protected defer(task: Deferred): void {
+        this.root.defer(task);
+    }
+}
+
+export class ModelBuilder {
+    readonly node: Model = { $type: 'Model', abstractElements: [] };
+    private deferred: Array<Deferred> = [];
+
+    config(options: ConfigurationOptions): this {
+        const { entity, ...rest } = options;
+        const configuration: Configuration = { ...rest, $type: 'Configuration', $container: this.node };
+        this.node.configuration = configuration;
+        if (entity !== undefined) {
+            this.defer(() => { configuration.entity = { ref: resolveEntity(this.node, entity) }; });
+        }
+        return this;
+    }
+
+    module(name: string, comment?: string): ModuleBuilder<ModelBuilder> {
+        const node: Module = { $type: 'Module', $container: this.node, name, elements: [], comment };
+        this.node.abstractElements.push(node);
+        return new ModuleBuilder(this, this, node);
+    }
+
+    enum(name: string, values: Array<string>, comment?: string): this {
+        this.node.abstractElements.push(createEnum(this.node, name, values, comment));
+        return this;
+    }
+
+    moduleImport(name: string, library: string, package_path: string, entities: Array<string>): this {
+        const node: ModuleImport = { $type: 'ModuleImport', $container: this.node, name, library, package_path, entities: [] };
+        node.entities = entities.map((entity): ImportedEntity => ({ $type: 'ImportedEntity', $container: node, name: entity }));
+        this.node.abstractElements.push(node);
+        return this;
+    }
+
+    useCases(id: string, comment?: string): UseCasesModelBuilder {
+        const node: UseCasesModel = { $type: 'UseCasesModel', $container: this.node, id, elements: [], comment };
+        this.node.abstractElements.push(node);
+        return new UseCasesModelBuilder(this, this, node);
+    }
+
+    defer(task: Deferred): void {
+        this.deferred.push(task);
+    }
+
+    build(): Model {
+        const pending = this.deferred;
+        this.deferred = [];
+        pending.forEach(task => task());
+        return this.node;
+    }
+}
+
+export class ModuleBuilder<P> extends NodeBuilder<Module, P> {
+    module(name: string, comment?: string): ModuleBuilder<ModuleBuilder<P>> {
+        const node: Module = { $type: 'Module', $container: this.node, name, elements: [], comment };
+        this.node.elements.push(node);
+        return new ModuleBuilder(this.root, this, node);
+    }
+
+    entity(name: string, options: EntityOptions = {}): EntityBuilder<P> {
+        const node: LocalEntity = {
+            $type: 'LocalEntity',
+            $container: this.node,
+            name,
+            comment: options.comment,
+            is_abstract: options.is_abstract ?? false,
+            attributes: [],
+            enumentityatributes: [],
+            functions: [],
+            relations: []
+        };
+        this.node.elements.push(node);
+        const builder = new EntityBuilder(this.root, this, node);
+        if (options.superType !== undefined) {
+            builder.extends(options.superType);
+        }
+        return builder;
+    }
+
+    enum(name: string, values: Array<string>, comment?: string): this {
+        this.node.elements.push(createEnum(this.node, name, values, comment));
+        return this;
+    }
+}
+
+export class EntityBuilder<P> extends NodeBuilder<LocalEntity, ModuleBuilder<P>> {
+    attr(name: string, type: DATATYPE, options: AttributeOptions = {}): this {
+        const attribute: Attribute = {
+            $type: 'Attribute',
+            $container: this.node,
+            name,
+            type,
+            blank: options.blank ?? false,
+            unique: options.unique ?? false,
+            comment: options.comment,
+            fullName: options.fullName,
+            min: options.min,
+            max: options.max
+        };
+        this.node.attributes.push(attribute);
+        return this;
+    }
+
+    /** The attribute is added on `build()`, once its enum is resolved. */
+    enumAttr(name: string, type: Target<EnumX>, comment?: string): this {
+        this.defer(() => {
+            const attribute: EnumEntityAtribute = {
+                $type: 'EnumEntityAtribute',
+                $container: this.node,
+                name,
+                comment,
+                type: { ref: resolveEnum(this.root.node, type) }
+            };
+            this.node.enumentityatributes.push(attribute);
+        });
+        return this;
+    }
+
+    function(name: string, response: DATATYPE, params: Record<string, DATATYPE> = {}, comment?: string): this {
+        const fn: FunctionEntity = { $type: 'FunctionEntity', $container: this.node, name, response, comment, paramters: [] };
+        const names = Object.keys(params);
+        if (names.length > 0) {
+            const parameter: Parameter = { $type: 'Parameter', $container: fn, element: [] };
+            parameter.element = names.map((param): Element => ({ $type: 'Element', $container: parameter, name: param, type: params[param] }));
+            fn.paramters.push(parameter);
+        }
+        this.node.functions.push(fn);
+        return this;
+    }
+
+    oneToOne(name: string, type: Target<Entity>, options: RelationOptions = {}): this {
+        return this.relation('OneToOne', name, type, options);
+    }
+
+    oneToMany(name: string, type: Target<Entity>, options: RelationOptions = {}): this {
+        return this.relation('OneToMany', name, type, options);
+    }
+
+    manyToOne(name: string, type: Target<Entity>, options: RelationOptions = {}): this {
+        return this.relation('ManyToOne', name, type, options);
+    }
+
+    manyToMany(name: string, type: Target<Entity>, options: ManyToManyOptions = {}): this {
+        const { by, ...rest } = options;
+        this.defer(() => {
+            const relation: ManyToMany = this.createRelation('ManyToMany', name, type, rest);
+            if (by !== undefined) {
+                relation.by = { ref: resolveLocalEntity(this.root.node, by, this.node.$container) };
+            }
+            this.node.relations.push(relation);
+        });
+        return this;
+    }
+
+    extends(superType: Target<Entity>): this {
+        this.defer(() => { this.node.superType = { ref: resolveEntity(this.root.node, superType, this.node.$container) }; });
+        return this;
+    }
+
+    abstract(isAbstract = true): this {
+        this.node.is_abstract = isAbstract;
+        return this;
+    }
+
+    /** Starts a sibling entity in the same module. */
+    entity(name: string, options: EntityOptions = {}): EntityBuilder<P> {
+        return this.parent.entity(name, options);
+    }
+
+    /** The relation is added on `build()`, once its target is resolved. */
+    private relation(kind: Exclude<Relation['$type'], 'ManyToMany'>, name: string, type: Target<Entity>, options: RelationOptions): this {
+        this.defer(() => { this.node.relations.push(this.createRelation(kind, name, type, options)); });
+        return this;
+    }
+
+    private createRelation<K extends Relation['$type']>(kind: K, name: string, type: Target<Entity>, options: RelationOptions) {
+        return {
+            $type: kind,
+            $container: this.node,
+            name,
+            comment: options.comment,
+            fullName: options.fullName,
+            type: { ref: resolveEntity(this.root.node, type, this.node.$container) }
+        };
+    }
+}
+
+export class UseCasesModelBuilder extends NodeBuilder<UseCasesModel, ModelBuilder> {
+    actor(id: string, superType?: Target<Actor>, fullName?: string): this {
+        const actor: Actor = { $type: 'Actor', $container: this.node, id, fullName };
+        (this.node.elements as Array<UseCase | Actor>).push(actor);
+        if (superType !== undefined) {
+            this.defer(() => { actor.superType = { ref: resolveActor(this.root.node, superType) }; });
+        }
+        return this;
+    }
+
+    useCase(id: string, name_fragment: string, options: UseCaseOptions = {}): UseCaseBuilder {
+        const node: UseCase = {
+            $type: 'UseCase',
+            $container: this.node,
+            id,
+            name_fragment,
+            comment: options.comment,
+            description: options.description,
+            actors: [],
+            events: []
+        };
+        this.node.elements.push(node);
+        const actors = options.actors ?? [];
+        this.defer(() => { node.actors = actors.map(actor => ({ ref: resolveActor(this.root.node, actor) })); });
+        if (options.superType !== undefined) {
+            const superType = options.superType;
+            this.defer(() => { node.superType = { ref: resolveUseCase(this.root.node, superType) }; });
+        }
+        return new UseCaseBuilder(this.root, this, node);
+    }
+}
+
+export class UseCaseBuilder extends NodeBuilder<UseCase, UseCasesModelBuilder> {
+    event(id: string, options: EventOptions = {}): this {
+        const event: Event = {
+            $type: 'Event',
+            $container: this.node,
+            id,
+            action: options.action,
+            description: options.description,
+            name_fragment: options.name_fragment,
+            depends: []
+        };
+        this.node.events.push(event);
+        const depends = options.depends ?? [];
+        this.defer(() => { event.depends = depends.map(dependency => ({ ref: resolveEvent(this.root.node, dependency, this.node) })); });
+        return this;
+    }
+
+    /** Starts a sibling use case in the same use cases model. */
+    useCase(id: string, name_fragment: string, options: UseCaseOptions = {}): UseCaseBuilder {
+        return this.parent.useCase(id, name_fragment, options);
+    }
+}
+
+/** Starts a new fluent model definition. */
+export function model(): ModelBuilder {
+    return new ModelBuilder();
+}
+
+function createEnum(container: Model | Module, name: string, values: Array<string>, comment?: string): EnumX {
+    const node: EnumX = { $type: 'EnumX', $container: container, name, comment, attributes: [] };
+    node.attributes = values.map((value): AttributeEnum => ({ $type: 'AttributeEnum', $container: node, name: value }));
+    return node;
+}
+
+interface Named<T> {
+    name: string;
+    node: T;
+    module?: Module;
+}
+
+function collectModuleElements(elements: Array<unknown>, prefix: string, module: Module | undefined, into: Array<Named<Entity | EnumX>>): void {
+    for (const element of elements) {
+        if (isModule(element)) {
+            const name = prefix ? `${prefix}.${element.name}` : element.name;
+            collectModuleElements(element.elements, name, element, into);
+        } else if (isLocalEntity(element) || isEnumX(element)) {
+            into.push({ name: prefix ? `${prefix}.${element.name}` : element.name, node: element, module });
+        } else if (isModuleImport(element)) {
+            element.entities.forEach(entity => into.push({ name: `${element.name}.${entity.name}`, node: entity }));
+        }
+    }
+}
+
+function pick<T>(candidates: Array<Named<T>>, name: string, kind: string, scope?: Module): T {
+    const exact = candidates.filter(candidate => candidate.name === name);
+    if (exact.length === 1) {
+        return exact[0].node;
+    }
+    const simple = candidates.filter(candidate => candidate.name.endsWith(`.${name}`) || candidate.name === name);
+    const local = simple.filter(candidate => scope !== undefined && candidate.module === scope);
+    if (local.length === 1) {
+        return local[0].node;
+    }
+    if (simple.length === 1) {
+        return simple[0].node;
+    }
+    if (simple.length === 0) {
+        throw new Error(`Unresolved ${kind} '${name}'`);
+    }
+    throw new Error(`Ambiguous ${kind} '${name}': ${simple.map(candidate => candidate.name).join(', ')}`);
+}
+
+function named<T>(model: Model): Array<Named<T>> {
+    const all: Array<Named<Entity | EnumX>> = [];
+    collectModuleElements(model.abstractElements, '', undefined, all);
+    return all as Array<Named<T>>;
+}
+
+function resolveEntity(model: Model, target: Target<Entity>, scope?: Module): Entity {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    return pick(named<Entity>(model).filter(candidate => !isEnumX(candidate.node)), target, 'entity', scope);
+}
+
+function resolveLocalEntity(model: Model, target: Target<LocalEntity>, scope?: Module): LocalEntity {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    return pick(named<LocalEntity>(model).filter(candidate => isLocalEntity(candidate.node)), target, 'entity', scope);
+}
+
+function resolveEnum(model: Model, target: Target<EnumX>): EnumX {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    return pick(named<EnumX>(model).filter(candidate => isEnumX(candidate.node)), target, 'enum');
+}
+
+function useCaseElements(model: Model): Array<UseCase | Actor> {
+    return model.abstractElements
+        .filter(isUseCasesModel)
+        .flatMap(useCases => useCases.elements as Array<UseCase | Actor>);
+}
+
+function resolveActor(model: Model, target: Target<Actor>): Actor {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    const actors = useCaseElements(model).filter(isActor).map(actor => ({ name: actor.id, node: actor }));
+    return pick(actors, target, 'actor');
+}
+
+function resolveUseCase(model: Model, target: Target<UseCase>): UseCase {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    const useCases = useCaseElements(model)
+        .filter((element): element is UseCase => element.$type === 'UseCase')
+        .map(useCase => ({ name: useCase.id, node: useCase }));
+    return pick(useCases, target, 'use case');
+}
+
+function resolveEvent(model: Model, target: Target<Event>, scope: UseCase): Event {
+    if (typeof target !== 'string') {
+        return target;
+    }
+    const local = scope.events.filter(event => event.id === target);
+    if (local.length === 1) {
+        return local[0];
+    }
+    const events = useCaseElements(model)
+        .filter((element): element is UseCase => element.$type === 'UseCase')
+        .flatMap(useCase => useCase.events)
+        .map(event => ({ name: event.id, node: event }));
+    return pick(events, target, 'event');
+}
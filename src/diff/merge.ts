@@ -0,0 +1,408 @@
+import { Configuration, Model, QualifiedName, Reference, getRef, isModuleImport } from "../models/model.js";
+import { ModelNode, containmentProperties, getProperty, isModelNode, referenceProperties, setProperty } from "../models/reflection.js";
+import { getQualifiedName, getSimpleName } from "../references/qualified-name.js";
+import { streamAst } from "../traversal/ast-utils.js";
+import { ChangeValue, ChangedProperty, DiffNode, DiffOptions, ModelChange, PropertyChange, diffModels, matchModels } from "./model-diff.js";
+
+export type MergeConflictKind = 'both-modified' | 'both-added' | 'both-renamed' | 'modified-and-deleted' | 'dangling-reference';
+
+export interface MergeConflict {
+    kind: MergeConflictKind;
+    /** Qualified name of the node, as written in the base model when it existed there. */
+    path: QualifiedName;
+    property?: ChangedProperty | ConfigurationField;
+    ours?: ChangeValue;
+    theirs?: ChangeValue;
+    /** Side that deleted the node, for `modified-and-deleted`. */
+    deletedBy?: 'ours' | 'theirs';
+    message: string;
+}
+
+export interface MergeResult {
+    model: Model;
+    /** Each conflict is resolved in favour of `ours`; the list says where to look. */
+    conflicts: Array<MergeConflict>;
+}
+
+/** Model field behind each property reported by `diffModels`. */
+const propertyFields: Record<ChangedProperty, string> = {
+    type: 'type', unique: 'unique', blank: 'blank', min: 'min', max: 'max',
+    cardinality: '$type', target: 'type', by: 'by', enum: 'type',
+    superType: 'superType', is_abstract: 'is_abstract',
+    response: 'response', parameters: 'paramters',
+    name_fragment: 'name_fragment', description: 'description', actors: 'actors', action: 'action', depends: 'depends'
+};
+
+type ConfigurationField = Exclude<keyof Configuration, '$container' | '$type' | 'entity'>;
+
+const configurationFields: Array<ConfigurationField> = ['name', 'description', 'language', 'package_path', 'database_name', 'feature'];
+
+interface PendingReference {
+    node: ModelNode;
+    property: string;
+    value: unknown;
+    resolve: (target: ModelNode) => ModelNode | undefined;
+}
+
+function nameOf(node: ModelNode): string | undefined {
+    return getSimpleName(node);
+}
+
+function setName(node: ModelNode, name: string): void {
+    if ('name' in node) {
+        (node as { name: string }).name = name;
+    } else {
+        (node as { id: string }).id = name;
+    }
+}
+
+function qualifiedName(node: ModelNode): QualifiedName {
+    return getQualifiedName(node) ?? node.$type;
+}
+
+/** Containment array that holds a node in its container. */
+function owningArray(node: ModelNode): Array<ModelNode> | undefined {
+    const container = (node as { $container?: ModelNode }).$container;
+    if (!container) {
+        return undefined;
+    }
+    for (const property of containmentProperties[container.$type]) {
+        const value = getProperty(container, property);
+        if (Array.isArray(value) && value.includes(node)) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function owningProperty(node: ModelNode): string | undefined {
+    const container = (node as { $container?: ModelNode }).$container;
+    return container
+        ? containmentProperties[container.$type].find(property => {
+            const value = getProperty(container, property);
+            return value === node || (Array.isArray(value) && value.includes(node));
+        })
+        : undefined;
+}
+
+/** Structure of a subtree with references written as qualified names, to compare nodes added on both sides. */
+function fingerprint(node: ModelNode): string {
+    return JSON.stringify(node, function (this: unknown, key: string, value: unknown) {
+        if (key === '$container') {
+            return undefined;
+        }
+        if (isModelNode(this) && referenceProperties[this.$type].includes(key)) {
+            const names = (Array.isArray(value) ? value : [value]).map(reference => {
+                const target = reference === undefined ? undefined : getRef(reference as Reference<ModelNode>);
+                return target ? getQualifiedName(target) : (reference as { $refText?: string })?.$refText;
+            });
+            return Array.isArray(value) ? names : names[0];
+        }
+        return value;
+    });
+}
+
+/** Base nodes whose subtree a side changed; removals inside a node do not count. */
+function touchedNodes(changes: Array<ModelChange>, baseOf: Map<ModelNode, ModelNode>): Set<ModelNode> {
+    const touched = new Set<ModelNode>();
+    for (const change of changes) {
+        let node: ModelNode | undefined = change.kind === 'added'
+            ? baseOf.get((change.newNode as { $container: ModelNode }).$container)
+            : change.kind === 'removed' ? undefined : change.oldNode;
+        while (node) {
+            touched.add(node);
+            node = (node as { $container?: ModelNode }).$container;
+        }
+    }
+    return touched;
+}
+
+function invert(matches: Map<ModelNode, ModelNode>): Map<ModelNode, ModelNode> {
+    return new Map([...matches].map(([baseNode, node]) => [node, baseNode]));
+}
+
+class ModelMerger {
+    readonly conflicts: Array<MergeConflict> = [];
+    private readonly pending: Array<PendingReference> = [];
+    /** Nodes of `ours` and of `theirs` to their counterpart in the merged model. */
+    private readonly merged = new Map<ModelNode, ModelNode>();
+    private readonly oursMatches: Map<ModelNode, ModelNode>;
+    private readonly theirsBase: Map<ModelNode, ModelNode>;
+    private mergedIndex?: Map<QualifiedName, ModelNode>;
+
+    constructor(private readonly base: Model, private readonly ours: Model, private readonly theirs: Model, private readonly options: DiffOptions) {
+        this.oursMatches = matchModels(base, ours, options);
+        this.theirsBase = invert(matchModels(base, theirs, options));
+    }
+
+    merge(): Model {
+        const model = this.copy(this.ours, undefined, node => this.merged.get(node) ?? node) as Model;
+        const oursChanges = diffModels(this.base, this.ours, this.options);
+        const theirsChanges = diffModels(this.base, this.theirs, this.options);
+        const oursTouched = touchedNodes(oursChanges, invert(this.oursMatches));
+        const theirsTouched = touchedNodes(theirsChanges, this.theirsBase);
+        const oursProperties = new Map<ModelNode, Map<ChangedProperty, PropertyChange>>();
+        for (const change of oursChanges) {
+            if (change.kind === 'changed') {
+                oursProperties.set(change.oldNode, (oursProperties.get(change.oldNode) ?? new Map()).set(change.property, change));
+            } else if (change.kind === 'removed' && theirsTouched.has(change.oldNode)) {
+                this.conflict('modified-and-deleted', change.oldNode, {
+                    deletedBy: 'ours',
+                    message: `'${qualifiedName(change.oldNode)}' was deleted in ours and modified in theirs`
+                });
+            }
+        }
+
+        for (const change of theirsChanges) {
+            switch (change.kind) {
+                case 'added':
+                    this.add(change.newNode);
+                    break;
+                case 'removed':
+                    this.remove(change.oldNode, oursTouched);
+                    break;
+                case 'renamed':
+                    this.rename(change.oldNode, change.newNode);
+                    break;
+                case 'changed':
+                    this.change(change, oursProperties.get(change.oldNode)?.get(change.property));
+                    break;
+            }
+        }
+        this.mergeConfiguration(model);
+        this.mergeImports(model);
+        this.link();
+        return model;
+    }
+
+    private add(node: DiffNode): void {
+        const container = this.toMerged((node as { $container: ModelNode }).$container);
+        const property = owningProperty(node);
+        if (!container || !property) {
+            // The container was deleted in ours; reported as modified-and-deleted.
+            return;
+        }
+        const siblings = getProperty(container, property) as Array<ModelNode>;
+        const existing = siblings.find(sibling => sibling.$type === node.$type && nameOf(sibling) === nameOf(node));
+        if (existing) {
+            if (fingerprint(existing) === fingerprint(node)) {
+                this.merged.set(node, existing);
+            } else {
+                this.conflict('both-added', existing, { message: `'${qualifiedName(existing)}' was added differently in ours and theirs` });
+            }
+            return;
+        }
+        const theirsSiblings = owningArray(node) ?? [];
+        const previous = theirsSiblings.slice(0, theirsSiblings.indexOf(node)).reverse()
+            .map(sibling => this.toMerged(sibling))
+            .find(sibling => sibling !== undefined && siblings.includes(sibling));
+        const copy = this.copy(node, container, target => this.toMerged(target));
+        siblings.splice(previous ? siblings.indexOf(previous) + 1 : siblings.length, 0, copy);
+    }
+
+    private remove(baseNode: DiffNode, oursTouched: Set<ModelNode>): void {
+        const node = this.oursMatches.get(baseNode);
+        const copy = node ? this.merged.get(node) : undefined;
+        if (!copy) {
+            return;
+        }
+        if (oursTouched.has(baseNode)) {
+            this.conflict('modified-and-deleted', baseNode, {
+                deletedBy: 'theirs',
+                message: `'${qualifiedName(baseNode)}' was modified in ours and deleted in theirs`
+            });
+            return;
+        }
+        const siblings = owningArray(copy);
+        siblings?.splice(siblings.indexOf(copy), 1);
+    }
+
+    private rename(baseNode: DiffNode, theirsNode: DiffNode): void {
+        const node = this.oursMatches.get(baseNode);
+        const copy = node ? this.merged.get(node) : undefined;
+        if (!node || !copy) {
+            return;
+        }
+        const oursName = nameOf(node);
+        const theirsName = nameOf(theirsNode)!;
+        if (oursName !== nameOf(baseNode) && oursName !== theirsName) {
+            this.conflict('both-renamed', baseNode, {
+                ours: oursName,
+                theirs: theirsName,
+                message: `'${qualifiedName(baseNode)}' was renamed to '${oursName}' in ours and to '${theirsName}' in theirs`
+            });
+            return;
+        }
+        setName(copy, theirsName);
+    }
+
+    private change(change: PropertyChange, ours: PropertyChange | undefined): void {
+        const node = this.oursMatches.get(change.oldNode);
+        const copy = node ? this.merged.get(node) : undefined;
+        if (!copy) {
+            return;
+        }
+        if (ours && JSON.stringify(ours.newValue) !== JSON.stringify(change.newValue)) {
+            this.conflict('both-modified', change.oldNode, {
+                property: change.property,
+                ours: ours.newValue,
+                theirs: change.newValue,
+                message: `'${change.property}' of '${qualifiedName(change.oldNode)}' was changed to ${JSON.stringify(ours.newValue)} in ours and to ${JSON.stringify(change.newValue)} in theirs`
+            });
+            return;
+        }
+        if (ours) {
+            return;
+        }
+        const field = propertyFields[change.property];
+        const value = getProperty(change.newNode, field);
+        if (referenceProperties[change.newNode.$type].includes(field)) {
+            this.pending.push({ node: copy, property: field, value, resolve: node => this.toMerged(node) });
+        } else if (containmentProperties[change.newNode.$type].includes(field)) {
+            setProperty(copy, field, (value as Array<ModelNode>).map(child => this.copy(child, copy, node => this.toMerged(node))));
+        } else {
+            setProperty(copy, field, value);
+            if (field === '$type' && value !== 'ManyToMany') {
+                setProperty(copy, 'by', undefined);
+            }
+        }
+    }
+
+    /** Configuration fields merge one by one; differing changes keep ours. */
+    private mergeConfiguration(model: Model): void {
+        const base = this.base.configuration ?? {} as Partial<Configuration>;
+        const ours = this.ours.configuration ?? {} as Partial<Configuration>;
+        const theirs = this.theirs.configuration;
+        if (!theirs) {
+            return;
+        }
+        for (const field of configurationFields) {
+            if (theirs[field] === base[field] || theirs[field] === ours[field]) {
+                continue;
+            }
+            if (ours[field] !== base[field]) {
+                this.conflicts.push({
+                    kind: 'both-modified',
+                    path: 'Configuration',
+                    property: field,
+                    ours: ours[field],
+                    theirs: theirs[field],
+                    message: `'${field}' of the configuration was changed to ${JSON.stringify(ours[field])} in ours and to ${JSON.stringify(theirs[field])} in theirs`
+                });
+                continue;
+            }
+            model.configuration ??= { $type: 'Configuration', $container: model };
+            setProperty(model.configuration, field, theirs[field]);
+        }
+    }
+
+    /** Imports added in theirs are kept; imports are not otherwise merged. */
+    private mergeImports(model: Model): void {
+        const names = new Set([...this.base.abstractElements, ...model.abstractElements].filter(isModuleImport).map(element => element.name));
+        for (const moduleImport of this.theirs.abstractElements.filter(isModuleImport)) {
+            if (!names.has(moduleImport.name)) {
+                model.abstractElements.push(this.copy(moduleImport, model, node => this.toMerged(node)) as typeof moduleImport);
+            }
+        }
+    }
+
+    /** Copies a subtree; references are set once every copy exists. */
+    private copy(source: ModelNode, container: ModelNode | undefined, resolve: (target: ModelNode) => ModelNode | undefined): ModelNode {
+        const target: Record<string, unknown> = {};
+        const node = target as unknown as ModelNode;
+        this.merged.set(source, node);
+        for (const [key, value] of Object.entries(source)) {
+            if (key === '$container') {
+                target.$container = container;
+            } else if (referenceProperties[source.$type].includes(key)) {
+                this.pending.push({ node, property: key, value, resolve });
+            } else if (containmentProperties[source.$type].includes(key)) {
+                target[key] = Array.isArray(value)
+                    ? value.map(child => this.copy(child, node, resolve))
+                    : value === undefined ? undefined : this.copy(value as ModelNode, node, resolve);
+            } else {
+                target[key] = Array.isArray(value) ? [...value] : value;
+            }
+        }
+        return node;
+    }
+
+    /** Counterpart of an `ours` or `theirs` node in the merged model, falling back to its qualified name. */
+    private toMerged(node: ModelNode): ModelNode | undefined {
+        const copy = this.merged.get(node);
+        if (copy) {
+            return copy;
+        }
+        const baseNode = this.theirsBase.get(node);
+        const oursNode = baseNode ? this.oursMatches.get(baseNode) : undefined;
+        if (oursNode) {
+            return this.merged.get(oursNode);
+        }
+        if (baseNode) {
+            return undefined;
+        }
+        return this.mergedIndex?.get(qualifiedName(node));
+    }
+
+    private link(): void {
+        const model = this.merged.get(this.ours) as Model;
+        this.mergedIndex = new Map();
+        for (const node of streamAst(model)) {
+            const name = getQualifiedName(node);
+            if (name !== undefined && !this.mergedIndex.has(name)) {
+                this.mergedIndex.set(name, node);
+            }
+        }
+        for (const { node, property, value, resolve } of this.pending) {
+            const reference = (item: unknown) => {
+                const target = item === undefined ? undefined : getRef(item as Reference<ModelNode>);
+                if (!target) {
+                    return item;
+                }
+                const resolved = resolve(target);
+                if (resolved && this.isInModel(resolved, model)) {
+                    return { ref: resolved };
+                }
+                this.conflict('dangling-reference', node, {
+                    property: property as ChangedProperty,
+                    message: `'${qualifiedName(node)}' refers to '${qualifiedName(target)}', which is not in the merged model`
+                });
+                return { ref: undefined, $refText: qualifiedName(target) };
+            };
+            setProperty(node, property, value === undefined ? undefined : Array.isArray(value) ? value.map(reference) : reference(value));
+        }
+    }
+
+    private isInModel(node: ModelNode, model: Model): boolean {
+        let current: ModelNode | undefined = node;
+        while (current && current !== model) {
+            const container: ModelNode | undefined = (current as { $container?: ModelNode }).$container;
+            if (container && !containmentProperties[container.$type].some(property => {
+                const value = getProperty(container, property);
+                return value === current || (Array.isArray(value) && value.includes(current));
+            })) {
+                return false;
+            }
+            current = container;
+        }
+        return current === model;
+    }
+
+    private conflict(kind: MergeConflictKind, node: ModelNode, details: Omit<MergeConflict, 'kind' | 'path'>): void {
+        this.conflicts.push({ kind, path: qualifiedName(node), ...details });
+    }
+}
+
+/**
+ * Three-way merge of model documents. `ours` is the starting point; every
+ * change `theirs` made to `base` (as listed by `diffModels`) is replayed on
+ * it. When both sides changed the same thing differently, or one side deleted
+ * a node the other changed, the merged model keeps `ours` and a conflict is
+ * reported. References are re-pointed at the merged nodes, so they survive
+ * renames on either side.
+ */
+export function mergeModels(base: Model, ours: Model, theirs: Model, options: DiffOptions = {}): MergeResult {
+    const merger = new ModelMerger(base, ours, theirs, options);
+    const model = merger.merge();
+    return { model, conflicts: merger.conflicts };
+}
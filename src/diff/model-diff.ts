@@ -0,0 +1,323 @@
+import { EnumEntityAtribute, EnumX, Event, Model, Module, QualifiedName, Reference, Relation, UseCase, UseCasesModel, getRef, isRelation } from "../models/model.js";
+import { FunctionEntity, LocalEntity, getFunctionParameters } from "../models/entity.js";
+import { Attribute, AttributeEnum } from "../models/atribute.js";
+import { Actor } from "../models/actor.js";
+import { ModelNode } from "../models/reflection.js";
+import { getQualifiedName, getSimpleName } from "../references/qualified-name.js";
+
+/** Nodes compared by `diffModels`. */
+export type DiffNode = Module | LocalEntity | Attribute | EnumEntityAtribute | Relation | FunctionEntity | EnumX | AttributeEnum | UseCasesModel | UseCase | Actor | Event;
+
+/** Node kind of a change; the four relation types are reported as `Relation`. */
+export type DiffNodeType = Exclude<DiffNode['$type'], Relation['$type']> | 'Relation';
+
+export type ChangedProperty =
+    | 'type' | 'unique' | 'blank' | 'min' | 'max'
+    | 'cardinality' | 'target' | 'by' | 'enum'
+    | 'superType' | 'is_abstract'
+    | 'response' | 'parameters'
+    | 'name_fragment' | 'description' | 'actors' | 'action' | 'depends';
+
+/** References are reported by qualified name, lists of references as arrays of names. */
+export type ChangeValue = string | number | boolean | Array<string> | undefined;
+
+interface ChangeBase {
+    nodeType: DiffNodeType;
+    /** Qualified name in the new model; in the old model for removals. */
+    path: QualifiedName;
+}
+
+export interface AddedChange extends ChangeBase {
+    kind: 'added';
+    newNode: DiffNode;
+}
+
+export interface RemovedChange extends ChangeBase {
+    kind: 'removed';
+    oldNode: DiffNode;
+}
+
+export interface RenamedChange extends ChangeBase {
+    kind: 'renamed';
+    oldPath: QualifiedName;
+    oldNode: DiffNode;
+    newNode: DiffNode;
+}
+
+export interface PropertyChange extends ChangeBase {
+    kind: 'changed';
+    property: ChangedProperty;
+    oldValue: ChangeValue;
+    newValue: ChangeValue;
+    oldNode: DiffNode;
+    newNode: DiffNode;
+}
+
+export type ModelChange = AddedChange | RemovedChange | RenamedChange | PropertyChange;
+
+export interface DiffOptions {
+    /** Pair removed and added nodes that look alike as renames; defaults to true. */
+    detectRenames?: boolean;
+    /** Minimum similarity (0 to 1) for a rename; defaults to 0.5. */
+    renameThreshold?: number;
+}
+
+interface Entry {
+    oldNode?: DiffNode;
+    newNode?: DiffNode;
+}
+
+function nodeType(node: DiffNode): DiffNodeType {
+    return isRelation(node) ? 'Relation' : node.$type as DiffNodeType;
+}
+
+function children(node: Model | DiffNode): Array<DiffNode> {
+    switch (node.$type) {
+        case 'Model':
+            return node.abstractElements.filter(element => element.$type !== 'ModuleImport') as Array<DiffNode>;
+        case 'Module':
+            return node.elements;
+        case 'LocalEntity':
+            return [...node.attributes, ...node.enumentityatributes, ...node.relations, ...node.functions];
+        case 'EnumX':
+            return node.attributes;
+        case 'UseCasesModel':
+            return node.elements as Array<UseCase | Actor>;
+        case 'UseCase':
+            return node.events;
+        default:
+            return [];
+    }
+}
+
+function nameOf(node: ModelNode): string {
+    return getSimpleName(node) ?? '';
+}
+
+function referenceName(value: Reference<ModelNode> | undefined): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const target = getRef(value);
+    return target ? getQualifiedName(target) : (value as { $refText?: string }).$refText;
+}
+
+function defined(features: Record<string, unknown>): Set<string> {
+    return new Set(Object.entries(features)
+        .filter(([, value]) => value !== undefined && value !== false)
+        .map(([key, value]) => `${key}=${value}`));
+}
+
+/** What a node looks like without its name; the basis of the rename heuristic. */
+function features(node: DiffNode): Set<string> {
+    switch (node.$type) {
+        case 'Attribute':
+            return defined({ type: node.type, unique: node.unique, blank: node.blank, min: node.min, max: node.max, fullName: node.fullName, comment: node.comment });
+        case 'EnumEntityAtribute':
+            return defined({ enum: referenceName(node.type), comment: node.comment });
+        case 'FunctionEntity':
+            return defined({ response: node.response, parameters: parameterList(node).join(','), comment: node.comment });
+        case 'AttributeEnum':
+            return defined({ index: node.$container.attributes.indexOf(node), fullName: node.fullName, comment: node.comment });
+        case 'Actor':
+            return defined({ superType: referenceName(node.superType), fullName: node.fullName, comment: node.comment });
+        case 'Event':
+            return defined({ name: node.name_fragment, action: node.action, description: node.description });
+        case 'UseCase':
+            return new Set([`name=${node.name_fragment}`, ...node.events.map(event => `event=${event.id}`)]);
+        default:
+            if (isRelation(node)) {
+                return defined({ cardinality: node.$type, target: referenceName(node.type), fullName: node.fullName, comment: node.comment });
+            }
+            return new Set(children(node).map(child => `${nodeType(child)}=${nameOf(child)}`));
+    }
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) {
+        return 1;
+    }
+    const shared = [...a].filter(feature => b.has(feature)).length;
+    return shared / (a.size + b.size - shared);
+}
+
+function parameterList(fn: FunctionEntity): Array<string> {
+    return getFunctionParameters(fn).map(param => `${param.name}: ${param.type}`);
+}
+
+function sameValue(a: ChangeValue, b: ChangeValue): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((value, index) => value === b[index]);
+    }
+    return a === b;
+}
+
+class ModelDiffer {
+    /** Old node to its counterpart in the new model. */
+    private readonly matches = new Map<ModelNode, ModelNode>();
+    private readonly entries = new Map<ModelNode, Array<Entry>>();
+    private readonly changes: Array<ModelChange> = [];
+
+    constructor(private readonly options: DiffOptions) {}
+
+    diff(oldModel: Model, newModel: Model): Array<ModelChange> {
+        this.matchModels(oldModel, newModel);
+        this.report(oldModel);
+        return this.changes;
+    }
+
+    matchModels(oldModel: Model, newModel: Model): Map<ModelNode, ModelNode> {
+        this.matches.set(oldModel, newModel);
+        this.match(oldModel, newModel);
+        return this.matches;
+    }
+
+    /** Pairs the children of two matched nodes, by name first and then by similarity. */
+    private match(oldParent: Model | DiffNode, newParent: Model | DiffNode): void {
+        const oldChildren = children(oldParent);
+        const newChildren = children(newParent);
+        const pairs = new Map<DiffNode, DiffNode>();
+        for (const newChild of newChildren) {
+            const oldChild = oldChildren.find(candidate =>
+                !pairs.has(candidate) && nodeType(candidate) === nodeType(newChild) && nameOf(candidate) === nameOf(newChild)
+            );
+            if (oldChild) {
+                pairs.set(oldChild, newChild);
+            }
+        }
+        if (this.options.detectRenames ?? true) {
+            const paired = new Set(pairs.values());
+            this.matchRenames(oldChildren.filter(child => !pairs.has(child)), newChildren.filter(child => !paired.has(child)), pairs);
+        }
+        const oldFor = new Map([...pairs].map(([oldChild, newChild]) => [newChild, oldChild]));
+        this.entries.set(oldParent, [
+            ...newChildren.map(newNode => ({ oldNode: oldFor.get(newNode), newNode })),
+            ...oldChildren.filter(oldNode => !pairs.has(oldNode)).map(oldNode => ({ oldNode }))
+        ]);
+        for (const [oldChild, newChild] of pairs) {
+            this.matches.set(oldChild, newChild);
+            this.match(oldChild, newChild);
+        }
+    }
+
+    private matchRenames(removed: Array<DiffNode>, added: Array<DiffNode>, pairs: Map<DiffNode, DiffNode>): void {
+        const threshold = this.options.renameThreshold ?? 0.5;
+        const candidates = removed.flatMap(oldNode => added
+            .filter(newNode => nodeType(newNode) === nodeType(oldNode))
+            .map(newNode => ({ oldNode, newNode, score: similarity(features(oldNode), features(newNode)) })))
+            .filter(candidate => candidate.score >= threshold)
+            .sort((a, b) => b.score - a.score);
+        const used = new Set<DiffNode>();
+        for (const { oldNode, newNode } of candidates) {
+            if (!used.has(oldNode) && !used.has(newNode)) {
+                used.add(oldNode);
+                used.add(newNode);
+                pairs.set(oldNode, newNode);
+            }
+        }
+    }
+
+    private report(oldParent: Model | DiffNode): void {
+        for (const { oldNode, newNode } of this.entries.get(oldParent) ?? []) {
+            if (!oldNode) {
+                this.changes.push({ kind: 'added', nodeType: nodeType(newNode!), path: getQualifiedName(newNode!) ?? '', newNode: newNode! });
+            } else if (!newNode) {
+                this.changes.push({ kind: 'removed', nodeType: nodeType(oldNode), path: getQualifiedName(oldNode) ?? '', oldNode });
+            } else {
+                if (nameOf(oldNode) !== nameOf(newNode)) {
+                    this.changes.push({
+                        kind: 'renamed',
+                        nodeType: nodeType(newNode),
+                        path: getQualifiedName(newNode) ?? '',
+                        oldPath: getQualifiedName(oldNode) ?? '',
+                        oldNode,
+                        newNode
+                    });
+                }
+                this.compare(oldNode, newNode);
+                this.report(oldNode);
+            }
+        }
+    }
+
+    private compare(oldNode: DiffNode, newNode: DiffNode): void {
+        const property = (name: ChangedProperty, oldValue: ChangeValue, newValue: ChangeValue) => {
+            if (!sameValue(oldValue, newValue)) {
+                this.changes.push({ kind: 'changed', nodeType: nodeType(newNode), path: getQualifiedName(newNode) ?? '', property: name, oldValue, newValue, oldNode, newNode });
+            }
+        };
+        const reference = (name: ChangedProperty, oldValue: Reference<ModelNode> | undefined, newValue: Reference<ModelNode> | undefined) => {
+            if (!this.sameTarget(oldValue, newValue)) {
+                property(name, referenceName(oldValue), referenceName(newValue));
+            }
+        };
+        const references = (name: ChangedProperty, oldValues: Array<Reference<ModelNode>>, newValues: Array<Reference<ModelNode>>) => {
+            const same = oldValues.length === newValues.length && oldValues.every((value, index) => this.sameTarget(value, newValues[index]));
+            if (!same) {
+                property(name, oldValues.map(value => referenceName(value) ?? ''), newValues.map(value => referenceName(value) ?? ''));
+            }
+        };
+
+        if (oldNode.$type === 'LocalEntity' && newNode.$type === 'LocalEntity') {
+            property('is_abstract', oldNode.is_abstract, newNode.is_abstract);
+            reference('superType', oldNode.superType, newNode.superType);
+        } else if (oldNode.$type === 'Attribute' && newNode.$type === 'Attribute') {
+            property('type', oldNode.type, newNode.type);
+            property('unique', oldNode.unique, newNode.unique);
+            property('blank', oldNode.blank, newNode.blank);
+            property('min', oldNode.min, newNode.min);
+            property('max', oldNode.max, newNode.max);
+        } else if (oldNode.$type === 'EnumEntityAtribute' && newNode.$type === 'EnumEntityAtribute') {
+            reference('enum', oldNode.type, newNode.type);
+        } else if (isRelation(oldNode) && isRelation(newNode)) {
+            property('cardinality', oldNode.$type, newNode.$type);
+            reference('target', oldNode.type, newNode.type);
+            reference('by', oldNode.$type === 'ManyToMany' ? oldNode.by : undefined, newNode.$type === 'ManyToMany' ? newNode.by : undefined);
+        } else if (oldNode.$type === 'FunctionEntity' && newNode.$type === 'FunctionEntity') {
+            property('response', oldNode.response, newNode.response);
+            property('parameters', parameterList(oldNode), parameterList(newNode));
+        } else if (oldNode.$type === 'Actor' && newNode.$type === 'Actor') {
+            reference('superType', oldNode.superType, newNode.superType);
+        } else if (oldNode.$type === 'UseCase' && newNode.$type === 'UseCase') {
+            property('name_fragment', oldNode.name_fragment, newNode.name_fragment);
+            property('description', oldNode.description, newNode.description);
+            reference('superType', oldNode.superType, newNode.superType);
+            references('actors', oldNode.actors, newNode.actors);
+        } else if (oldNode.$type === 'Event' && newNode.$type === 'Event') {
+            property('name_fragment', oldNode.name_fragment, newNode.name_fragment);
+            property('action', oldNode.action, newNode.action);
+            property('description', oldNode.description, newNode.description);
+            references('depends', oldNode.depends, newNode.depends);
+        }
+    }
+
+    /** Matched targets count as the same even when renamed; others are compared by name. */
+    private sameTarget(oldValue: Reference<ModelNode> | undefined, newValue: Reference<ModelNode> | undefined): boolean {
+        const oldTarget = oldValue === undefined ? undefined : getRef(oldValue);
+        const newTarget = newValue === undefined ? undefined : getRef(newValue);
+        if (oldTarget && this.matches.has(oldTarget)) {
+            return this.matches.get(oldTarget) === newTarget;
+        }
+        return referenceName(oldValue) === referenceName(newValue);
+    }
+}
+
+/**
+ * Compares two versions of a model. Nodes are matched by qualified name; among
+ * the nodes left over in the same container, a removed and an added node of
+ * the same kind that look alike (same type and constraints, same members) are
+ * reported as a rename. Changes are listed in document order, a container
+ * before its contents; the contents of added and removed nodes are not listed
+ * separately.
+ */
+export function diffModels(oldModel: Model, newModel: Model, options: DiffOptions = {}): Array<ModelChange> {
+    return new ModelDiffer(options).diff(oldModel, newModel);
+}
+
+/**
+ * Pairs the nodes of two model versions the way `diffModels` does, renames
+ * included. Maps each old node to its counterpart; removed nodes are absent.
+ */
+export function matchModels(oldModel: Model, newModel: Model, options: DiffOptions = {}): Map<ModelNode, ModelNode> {
+    return new ModelDiffer(options).matchModels(oldModel, newModel);
+}
@@ -0,0 +1,129 @@
+import { SourcePosition } from "../models/source-location.js";
+
+export type TokenKind = 'id' | 'string' | 'number' | 'punctuation' | 'eof';
+
+export interface Token {
+    kind: TokenKind;
+    /** Decoded value: the text of strings without quotes and escapes. */
+    value: string;
+    start: SourcePosition;
+    end: SourcePosition;
+    /** Comments written right before the token, without their delimiters. */
+    comments: Array<Comment>;
+}
+
+export interface Comment {
+    text: string;
+    block: boolean;
+}
+
+export interface LexerError {
+    message: string;
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+const punctuation = '{}():,.*';
+
+function isIdStart(char: string): boolean {
+    return /[A-Za-z_]/.test(char);
+}
+
+function isIdPart(char: string): boolean {
+    return /[A-Za-z0-9_-]/.test(char);
+}
+
+function isDigit(char: string): boolean {
+    return char >= '0' && char <= '9';
+}
+
+/**
+ * Splits DSL text into tokens. Identifiers may contain `-` (as in
+ * `csharp-minimal-api`), strings use JSON escapes, and `//` and `/* *\/`
+ * comments are attached to the token that follows them.
+ */
+export function tokenize(text: string): { tokens: Array<Token>; errors: Array<LexerError> } {
+    const tokens: Array<Token> = [];
+    const errors: Array<LexerError> = [];
+    let offset = 0;
+    let line = 0;
+    let character = 0;
+    let comments: Array<Comment> = [];
+
+    const position = (): SourcePosition => ({ line, character });
+    const advance = (count = 1) => {
+        for (let i = 0; i < count; i++) {
+            if (text[offset] === '\n') {
+                line++;
+                character = 0;
+            } else {
+                character++;
+            }
+            offset++;
+        }
+    };
+    const push = (kind: TokenKind, value: string, start: SourcePosition) => {
+        tokens.push({ kind, value, start, end: position(), comments });
+        comments = [];
+    };
+
+    while (offset < text.length) {
+        const char = text[offset];
+        const start = position();
+        if (/\s/.test(char)) {
+            advance();
+        } else if (text.startsWith('//', offset)) {
+            const lineEnd = text.indexOf('\n', offset);
+            const raw = text.substring(offset + 2, lineEnd === -1 ? text.length : lineEnd).replace(/\r$/, '');
+            comments.push({ text: raw.startsWith(' ') ? raw.substring(1) : raw, block: false });
+            advance(raw.length + 2);
+        } else if (text.startsWith('/*', offset)) {
+            const close = text.indexOf('*/', offset + 2);
+            if (close === -1) {
+                advance(text.length - offset);
+                errors.push({ message: 'Unterminated comment', start, end: position() });
+                break;
+            }
+            const raw = text.substring(offset + 2, close);
+            comments.push({ text: raw.replace(/^ /, '').replace(/ $/, ''), block: true });
+            advance(close + 2 - offset);
+        } else if (char === '"') {
+            const match = /^"(?:[^"\\\n]|\\.)*"/.exec(text.substring(offset));
+            if (!match) {
+                const lineEnd = text.indexOf('\n', offset);
+                advance((lineEnd === -1 ? text.length : lineEnd) - offset);
+                errors.push({ message: 'Unterminated string', start, end: position() });
+                continue;
+            }
+            let value: string;
+            try {
+                value = JSON.parse(match[0]);
+            } catch {
+                value = match[0].substring(1, match[0].length - 1);
+                errors.push({ message: 'Invalid escape sequence in string', start, end: { line, character: character + match[0].length } });
+            }
+            advance(match[0].length);
+            push('string', value, start);
+        } else if (isDigit(char) || (char === '-' && isDigit(text[offset + 1] ?? ''))) {
+            const match = /^-?\d+(?:\.\d+)?/.exec(text.substring(offset))!;
+            advance(match[0].length);
+            push('number', match[0], start);
+        } else if (isIdStart(char)) {
+            let end = offset + 1;
+            while (end < text.length && isIdPart(text[end])) {
+                end++;
+            }
+            const value = text.substring(offset, end);
+            advance(end - offset);
+            push('id', value, start);
+        } else if (punctuation.includes(char)) {
+            advance();
+            push('punctuation', char, start);
+        } else {
+            advance();
+            errors.push({ message: `Unexpected character '${char}'`, start, end: position() });
+        }
+    }
+    push('eof', '', position());
+    return { tokens, errors };
+}
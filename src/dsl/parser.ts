@@ -0,0 +1,581 @@
+import { Configuration, DATATYPE, Element, EnumEntityAtribute, EnumX, Event, FEATURE_TYPE, LANGUAGETYPE, Model, Module, ModuleImport, Parameter, Relation, UnresolvedReference, UseCase, UseCasesModel, isEnumX, isEvent, isUseCase } from "../models/model.js";
+import { FunctionEntity, ImportedEntity, LocalEntity, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute, AttributeEnum } from "../models/atribute.js";
+import { Actor, isActor } from "../models/actor.js";
+import { ModelNode, setProperty } from "../models/reflection.js";
+import { SourcePosition, SourceRange, setSourceLocation } from "../models/source-location.js";
+import { ModelScope } from "../references/scope.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { Comment, Token, tokenize } from "./lexer.js";
+
+export interface ParseOptions {
+    /** Document URI recorded in the source location of every node. */
+    uri?: string;
+}
+
+export interface ParseError {
+    message: string;
+    /** One-based line, as shown by editors. */
+    line: number;
+    /** One-based column, as shown by editors. */
+    column: number;
+    /** Zero-based range, as in `SourceLocation`. */
+    range: SourceRange;
+}
+
+export interface ParseResult {
+    model: Model;
+    /** Syntax errors; the model holds everything that could be parsed around them. */
+    errors: Array<ParseError>;
+}
+
+const dataTypes: Array<DATATYPE> = ['boolean', 'cnpj', 'cpf', 'currency', 'date', 'datetime', 'decimal', 'email', 'file', 'integer', 'mobilePhoneNumber', 'phoneNumber', 'string', 'uuid', 'void', 'zipcode'];
+const languages: Array<LANGUAGETYPE> = ['csharp-clean-architecture', 'csharp-minimal-api', 'java', 'node-prisma', 'python'];
+const features: Array<FEATURE_TYPE> = ['authentication'];
+const relationTypes: Array<Relation['$type']> = ['OneToOne', 'OneToMany', 'ManyToOne', 'ManyToMany'];
+
+function isEntity(node: unknown): node is LocalEntity | ImportedEntity {
+    return isLocalEntity(node) || isImportedEntity(node);
+}
+
+interface PendingReference {
+    node: ModelNode;
+    property: string;
+    name: string;
+    filter: (node: unknown) => boolean;
+    /** Reference list such as `UseCase.actors` the reference is written into, at `index`. */
+    list?: Array<unknown>;
+    index?: number;
+}
+
+/** Thrown to abandon the current member; the error is already recorded. */
+class RecoverableError extends Error {}
+
+function describe(token: Token): string {
+    if (token.kind === 'eof') {
+        return 'end of input';
+    }
+    return token.kind === 'string' ? JSON.stringify(token.value) : `'${token.value}'`;
+}
+
+function joinComments(comments: Array<Comment>): string | undefined {
+    return comments.length === 0 ? undefined : comments.map(comment => comment.text).join('\n');
+}
+
+class DslParser {
+    private readonly tokens: Array<Token>;
+    private position = 0;
+    readonly errors: Array<ParseError> = [];
+    readonly references: Array<PendingReference> = [];
+
+    constructor(text: string, private readonly options: ParseOptions) {
+        const { tokens, errors } = tokenize(text);
+        this.tokens = tokens;
+        errors.forEach(error => this.error(error.message, { start: error.start, end: error.end }));
+    }
+
+    parseModel(): Model {
+        const model: Model = { $type: 'Model', abstractElements: [] };
+        const start = this.peek().start;
+        while (!this.at('eof')) {
+            this.member(() => {
+                const token = this.peek();
+                if (this.atKeyword('Configuration')) {
+                    if (model.configuration) {
+                        this.error('Duplicate Configuration', this.rangeOf(token));
+                    }
+                    model.configuration = this.configuration(model);
+                } else if (this.atKeyword('module')) {
+                    model.abstractElements.push(this.module(model));
+                } else if (this.atKeyword('enum')) {
+                    model.abstractElements.push(this.enumeration(model));
+                } else if (this.atKeyword('import')) {
+                    model.abstractElements.push(this.moduleImport(model));
+                } else if (this.atKeyword('usecases')) {
+                    model.abstractElements.push(this.useCases(model));
+                } else {
+                    this.advance();
+                    this.fail(`Expected 'Configuration', 'module', 'enum', 'import' or 'usecases' but found ${describe(token)}`, token);
+                }
+            });
+        }
+        this.locate(model, start);
+        return model;
+    }
+
+    private configuration(model: Model): Configuration {
+        const start = this.expectKeyword('Configuration').start;
+        const configuration: Configuration = { $type: 'Configuration', $container: model };
+        this.block(() => {
+            const key = this.expect('id', 'a configuration property');
+            this.expectPunctuation(':');
+            switch (key.value) {
+                case 'name':
+                case 'description':
+                case 'database_name':
+                    configuration[key.value] = this.expect('string', 'a string').value;
+                    break;
+                case 'package_path':
+                    configuration.package_path = this.expect('string', 'a string').value as LANGUAGETYPE;
+                    break;
+                case 'language':
+                    configuration.language = this.oneOf(languages, 'a language');
+                    break;
+                case 'feature':
+                    configuration.feature = this.oneOf(features, 'a feature');
+                    break;
+                case 'entity':
+                    this.reference(configuration, 'entity', isEntity);
+                    break;
+                default:
+                    this.fail(`Unknown configuration property '${key.value}'`, key);
+            }
+        });
+        return this.locate(configuration, start);
+    }
+
+    private module(container: Model | Module): Module {
+        const keyword = this.expectKeyword('module');
+        const module: Module = { $type: 'Module', $container: container, name: this.qualifiedName(), elements: [] };
+        this.comment(module, keyword);
+        this.block(() => {
+            if (this.atKeyword('module')) {
+                module.elements.push(this.module(module));
+            } else if (this.atKeyword('enum')) {
+                module.elements.push(this.enumeration(module));
+            } else if (this.atKeyword('entity') || this.atKeyword('abstract')) {
+                module.elements.push(this.entity(module));
+            } else {
+                const token = this.advance();
+                this.fail(`Expected 'module', 'enum' or 'entity' but found ${describe(token)}`, token);
+            }
+        });
+        return this.locate(module, keyword.start);
+    }
+
+    private enumeration(container: Model | Module): EnumX {
+        const keyword = this.expectKeyword('enum');
+        const enumeration: EnumX = { $type: 'EnumX', $container: container, name: this.expect('id', 'a name').value, attributes: [] };
+        this.comment(enumeration, keyword);
+        this.block(() => {
+            const name = this.expect('id', 'an enum value');
+            const value: AttributeEnum = { $type: 'AttributeEnum', $container: enumeration, name: name.value };
+            this.comment(value, name);
+            if (this.acceptKeyword('fullName')) {
+                value.fullName = this.expect('string', 'a string').value;
+            }
+            enumeration.attributes.push(this.locate(value, name.start));
+        });
+        return this.locate(enumeration, keyword.start);
+    }
+
+    private moduleImport(model: Model): ModuleImport {
+        const start = this.expectKeyword('import').start;
+        const name = this.qualifiedName();
+        this.expectKeyword('from');
+        const library = this.expect('string', 'a library name').value;
+        this.expectKeyword('package');
+        const package_path = this.expect('string', 'a package path').value;
+        const moduleImport: ModuleImport = { $type: 'ModuleImport', $container: model, name, library, package_path, entities: [] };
+        this.block(() => {
+            const token = this.expect('id', 'an entity name');
+            const entity: ImportedEntity = { $type: 'ImportedEntity', $container: moduleImport, name: token.value };
+            moduleImport.entities.push(this.locate(entity, token.start));
+        });
+        return this.locate(moduleImport, start);
+    }
+
+    private entity(module: Module): LocalEntity {
+        const first = this.peek();
+        const is_abstract = this.acceptKeyword('abstract');
+        this.expectKeyword('entity');
+        const entity: LocalEntity = {
+            $type: 'LocalEntity',
+            $container: module,
+            name: this.expect('id', 'a name').value,
+            is_abstract,
+            attributes: [],
+            enumentityatributes: [],
+            relations: [],
+            functions: []
+        };
+        this.comment(entity, first);
+        if (this.acceptKeyword('extends')) {
+            this.reference(entity, 'superType', isEntity);
+        }
+        this.block(() => {
+            if (this.atKeyword('function') && this.peek(1).kind === 'id') {
+                entity.functions.push(this.function(entity));
+            } else {
+                this.entityMember(entity);
+            }
+        });
+        return this.locate(entity, first.start);
+    }
+
+    private entityMember(entity: LocalEntity): void {
+        const name = this.expect('id', 'a member name');
+        this.expectPunctuation(':');
+        const type = this.expect('id', 'a type');
+        const kind = relationTypes.find(relationType => relationType === type.value);
+        if (type.value === 'enum') {
+            const target = this.qualifiedName();
+            const attribute: EnumEntityAtribute = { $type: 'EnumEntityAtribute', $container: entity, name: name.value, type: pending(target) };
+            this.comment(attribute, name);
+            this.reference(attribute, 'type', isEnumX, target);
+            entity.enumentityatributes.push(this.locate(attribute, name.start));
+        } else if (kind !== undefined) {
+            const target = this.qualifiedName();
+            const relation: Relation = { $type: kind, $container: entity, name: name.value, type: pending(target) };
+            this.comment(relation, name);
+            this.reference(relation, 'type', isEntity, target);
+            if (relation.$type === 'ManyToMany' && this.acceptKeyword('by')) {
+                this.reference(relation, 'by', isLocalEntity);
+            }
+            if (this.acceptKeyword('fullName')) {
+                relation.fullName = this.expect('string', 'a string').value;
+            }
+            entity.relations.push(this.locate(relation, name.start));
+        } else if ((dataTypes as Array<string>).includes(type.value)) {
+            entity.attributes.push(this.attribute(entity, name, type.value as DATATYPE));
+        } else {
+            this.fail(`Expected a data type, 'enum' or a relation type but found ${describe(type)}`, type);
+        }
+    }
+
+    private attribute(entity: LocalEntity, name: Token, type: DATATYPE): Attribute {
+        const attribute: Attribute = { $type: 'Attribute', $container: entity, name: name.value, type, blank: false, unique: false };
+        this.comment(attribute, name);
+        for (;;) {
+            if (this.acceptKeyword('unique')) {
+                attribute.unique = true;
+            } else if (this.acceptKeyword('blank')) {
+                attribute.blank = true;
+            } else if (this.acceptKeyword('min')) {
+                attribute.min = Number(this.expect('number', 'a number').value);
+            } else if (this.acceptKeyword('max')) {
+                attribute.max = Number(this.expect('number', 'a number').value);
+            } else if (this.acceptKeyword('fullName')) {
+                attribute.fullName = this.expect('string', 'a string').value;
+            } else {
+                break;
+            }
+        }
+        return this.locate(attribute, name.start);
+    }
+
+    private function(entity: LocalEntity): FunctionEntity {
+        const keyword = this.expectKeyword('function');
+        const fn: FunctionEntity = { $type: 'FunctionEntity', $container: entity, name: this.expect('id', 'a name').value, paramters: [], response: 'void' };
+        this.comment(fn, keyword);
+        this.expectPunctuation('(');
+        if (!this.atPunctuation(')')) {
+            const start = this.peek().start;
+            const parameter: Parameter = { $type: 'Parameter', $container: fn, element: [] };
+            const elements: Array<Element> = [];
+            do {
+                const name = this.expect('id', 'a parameter name');
+                this.expectPunctuation(':');
+                const element: Element = { $type: 'Element', $container: parameter, name: name.value, type: this.oneOf(dataTypes, 'a data type') };
+                const comments = [...name.comments];
+                if (elements.length === 0 && comments.length > 1) {
+                    parameter.comment = comments.shift()!.text;
+                }
+                if (comments.length > 0) {
+                    element.comment = joinComments(comments);
+                }
+                elements.push(this.locate(element, name.start));
+            } while (this.acceptPunctuation(','));
+            parameter.element = elements;
+            fn.paramters.push(this.locate(parameter, start));
+        }
+        this.expectPunctuation(')');
+        this.expectPunctuation(':');
+        fn.response = this.oneOf(dataTypes, 'a data type');
+        return this.locate(fn, keyword.start);
+    }
+
+    private useCases(model: Model): UseCasesModel {
+        const keyword = this.expectKeyword('usecases');
+        const useCases: UseCasesModel = { $type: 'UseCasesModel', $container: model, id: this.qualifiedName(), elements: [] };
+        this.comment(useCases, keyword);
+        const elements = useCases.elements as Array<UseCase | Actor>;
+        this.block(() => {
+            if (this.atKeyword('actor')) {
+                elements.push(this.actor(useCases));
+            } else if (this.atKeyword('usecase')) {
+                elements.push(this.useCase(useCases));
+            } else {
+                const token = this.advance();
+                this.fail(`Expected 'actor' or 'usecase' but found ${describe(token)}`, token);
+            }
+        });
+        return this.locate(useCases, keyword.start);
+    }
+
+    private actor(useCases: UseCasesModel): Actor {
+        const keyword = this.expectKeyword('actor');
+        const actor: Actor = { $type: 'Actor', $container: useCases, id: this.qualifiedName() };
+        this.comment(actor, keyword);
+        if (this.acceptKeyword('extends')) {
+            this.reference(actor, 'superType', isActor);
+        }
+        if (this.acceptKeyword('fullName')) {
+            actor.fullName = this.expect('string', 'a string').value;
+        }
+        return this.locate(actor, keyword.start);
+    }
+
+    private useCase(useCases: UseCasesModel): UseCase {
+        const keyword = this.expectKeyword('usecase');
+        const id = this.qualifiedName();
+        const useCase: UseCase = {
+            $type: 'UseCase',
+            $container: useCases,
+            id,
+            name_fragment: this.expect('string', 'a use case name').value,
+            actors: [],
+            events: []
+        };
+        this.comment(useCase, keyword);
+        if (this.acceptKeyword('extends')) {
+            this.reference(useCase, 'superType', isUseCase);
+        }
+        this.block(() => {
+            if (this.atKeyword('event')) {
+                useCase.events.push(this.event(useCase));
+                return;
+            }
+            const key = this.expect('id', "'actors', 'description' or 'event'");
+            this.expectPunctuation(':');
+            if (key.value === 'actors') {
+                this.referenceList(useCase, 'actors', useCase.actors, isActor);
+            } else if (key.value === 'description') {
+                useCase.description = this.expect('string', 'a string').value;
+            } else {
+                this.fail(`Unknown use case property '${key.value}'`, key);
+            }
+        });
+        return this.locate(useCase, keyword.start);
+    }
+
+    private event(useCase: UseCase): Event {
+        const keyword = this.expectKeyword('event');
+        const event: Event = { $type: 'Event', $container: useCase, id: this.qualifiedName(), depends: [] };
+        this.block(() => {
+            const key = this.expect('id', 'an event property');
+            this.expectPunctuation(':');
+            switch (key.value) {
+                case 'name':
+                    event.name_fragment = this.expect('string', 'a string').value;
+                    break;
+                case 'action':
+                case 'description':
+                    event[key.value] = this.expect('string', 'a string').value;
+                    break;
+                case 'depends':
+                    this.referenceList(event, 'depends', event.depends, isEvent);
+                    break;
+                default:
+                    this.fail(`Unknown event property '${key.value}'`, key);
+            }
+        });
+        return this.locate(event, keyword.start);
+    }
+
+    /** Parses `{ member* }`, recovering from errors member by member. */
+    private block(member: () => void): void {
+        this.expectPunctuation('{');
+        while (!this.atPunctuation('}') && !this.at('eof')) {
+            this.member(member);
+        }
+        this.expectPunctuation('}');
+    }
+
+    private member(parse: () => void): void {
+        const start = this.position;
+        try {
+            parse();
+        } catch (error) {
+            if (!(error instanceof RecoverableError)) {
+                throw error;
+            }
+            this.synchronize(this.tokens[start].start.line);
+            if (this.position === start && !this.atPunctuation('}') && !this.at('eof')) {
+                this.advance();
+            }
+        }
+    }
+
+    /** Skips to the first token on a later line that is not inside a skipped block. */
+    private synchronize(line: number): void {
+        let depth = 0;
+        while (!this.at('eof')) {
+            const token = this.peek();
+            if (depth === 0 && (this.atPunctuation('}') || token.start.line > line)) {
+                return;
+            }
+            if (this.atPunctuation('{')) {
+                depth++;
+            } else if (this.atPunctuation('}')) {
+                depth--;
+            }
+            this.advance();
+        }
+    }
+
+    private qualifiedName(): string {
+        let name = this.expect('id', 'a name').value;
+        while (this.atPunctuation('.') && this.peek(1).kind === 'id') {
+            this.advance();
+            name += `.${this.advance().value}`;
+        }
+        return name;
+    }
+
+    private reference(node: ModelNode, property: string, filter: (node: unknown) => boolean, name = this.qualifiedName()): void {
+        this.references.push({ node, property, name, filter });
+    }
+
+    private referenceList(node: ModelNode, property: string, list: Array<unknown>, filter: (node: unknown) => boolean): void {
+        do {
+            this.references.push({ node, property, name: this.qualifiedName(), filter, list, index: list.length });
+            list.push(undefined);
+        } while (this.acceptPunctuation(','));
+    }
+
+    private oneOf<T extends string>(values: Array<T>, expected: string): T {
+        const token = this.expect('id', expected);
+        if (!(values as Array<string>).includes(token.value)) {
+            this.fail(`Expected ${expected} but found ${describe(token)}`, token);
+        }
+        return token.value as T;
+    }
+
+    private comment(node: ModelNode, first: Token): void {
+        const comment = joinComments(first.comments);
+        if (comment !== undefined) {
+            (node as { comment?: string }).comment = comment;
+        }
+    }
+
+    private locate<T extends ModelNode>(node: T, start: SourcePosition, end = this.peek(-1).end): T {
+        setSourceLocation(node, { uri: this.options.uri, range: { start, end } });
+        return node;
+    }
+
+    private peek(offset = 0): Token {
+        const index = Math.min(Math.max(this.position + offset, 0), this.tokens.length - 1);
+        return this.tokens[index];
+    }
+
+    private advance(): Token {
+        const token = this.peek();
+        if (token.kind !== 'eof') {
+            this.position++;
+        }
+        return token;
+    }
+
+    private at(kind: Token['kind']): boolean {
+        return this.peek().kind === kind;
+    }
+
+    private atKeyword(keyword: string): boolean {
+        return this.at('id') && this.peek().value === keyword;
+    }
+
+    private atPunctuation(value: string): boolean {
+        return this.at('punctuation') && this.peek().value === value;
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        return this.atKeyword(keyword) ? (this.advance(), true) : false;
+    }
+
+    private acceptPunctuation(value: string): boolean {
+        return this.atPunctuation(value) ? (this.advance(), true) : false;
+    }
+
+    private expect(kind: Token['kind'], expected: string): Token {
+        if (!this.at(kind)) {
+            this.fail(`Expected ${expected} but found ${describe(this.peek())}`, this.peek());
+        }
+        return this.advance();
+    }
+
+    private expectKeyword(keyword: string): Token {
+        if (!this.atKeyword(keyword)) {
+            this.fail(`Expected '${keyword}' but found ${describe(this.peek())}`, this.peek());
+        }
+        return this.advance();
+    }
+
+    private expectPunctuation(value: string): Token {
+        if (!this.atPunctuation(value)) {
+            this.fail(`Expected '${value}' but found ${describe(this.peek())}`, this.peek());
+        }
+        return this.advance();
+    }
+
+    private rangeOf(token: Token): SourceRange {
+        return { start: token.start, end: token.end };
+    }
+
+    private error(message: string, range: SourceRange): void {
+        const last = this.errors[this.errors.length - 1];
+        if (last && last.range.start.line === range.start.line && last.range.start.character === range.start.character) {
+            // Blocks left open at the end of input all fail at the same token.
+            return;
+        }
+        this.errors.push({ message, line: range.start.line + 1, column: range.start.character + 1, range });
+    }
+
+    private fail(message: string, token: Token): never {
+        this.error(message, this.rangeOf(token));
+        throw new RecoverableError(message);
+    }
+}
+
+/** Placeholder for a reference until `link` resolves it. */
+function pending(name: string): UnresolvedReference {
+    return { ref: undefined, $refText: name };
+}
+
+/** Resolves the names collected while parsing, the same way `ModelScope` does. */
+function link(model: Model, references: Array<PendingReference>): void {
+    const scope = new ModelScope(model);
+    for (const { node, property, name, filter, list, index } of references) {
+        const resolution = scope.resolve(name, { context: node, filter: (candidate): candidate is ModelNode => filter(candidate) });
+        let value: { ref: ModelNode } | UnresolvedReference;
+        if (resolution.status === 'resolved') {
+            value = { ref: resolution.node };
+        } else if (resolution.status === 'ambiguous') {
+            const names = resolution.candidates.map(candidate => getQualifiedName(candidate)).join(', ');
+            value = { ref: undefined, $refText: name, error: `Ambiguous name '${name}': ${names}` };
+        } else {
+            value = { ref: undefined, $refText: name, error: `Unresolved name '${name}'` };
+        }
+        if (list && index !== undefined) {
+            list[index] = value;
+        } else {
+            setProperty(node, property, value);
+        }
+    }
+}
+
+/**
+ * Parses DSL source (the syntax written by `printModel`) into a `Model` with
+ * containers set and references resolved. Parsing never throws: syntax errors
+ * are returned with their position and the parser resumes at the next line.
+ * Names that do not resolve become `{ ref: undefined, $refText }`, which
+ * `validateModel` reports as `unresolved-reference`. Every node gets a source
+ * location; read it with `getSourceLocation`.
+ */
+export function parseModel(text: string, options: ParseOptions = {}): ParseResult {
+    const parser = new DslParser(text, options);
+    const model = parser.parseModel();
+    link(model, parser.references);
+    const errors = [...parser.errors].sort((a, b) => a.line - b.line || a.column - b.column);
+    return { model, errors };
+}
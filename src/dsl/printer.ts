@@ -0,0 +1,234 @@
+import { Configuration, EnumEntityAtribute, EnumX, Event, Model, Module, ModuleImport, Reference, Relation, UseCase, UseCasesModel, getRef, isEnumX, isManyToMany, isModule, isModuleImport, isUseCase } from "../models/model.js";
+import { FunctionEntity, LocalEntity, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute, AttributeEnum } from "../models/atribute.js";
+import { Actor, isActor } from "../models/actor.js";
+import { ModelNode } from "../models/reflection.js";
+import { ModelScope } from "../references/scope.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+
+export interface PrintOptions {
+    /** Indentation of one nesting level; defaults to four spaces. */
+    indent?: string;
+}
+
+type Line = string;
+
+/** Quotes a string the way the DSL expects (double quotes, JSON escapes). */
+function quoteString(value: string): string {
+    return JSON.stringify(value);
+}
+
+function commentLines(comment: string | undefined): Array<Line> {
+    return comment === undefined ? [] : comment.split(/\r?\n/).map(line => line ? `// ${line}` : '//');
+}
+
+function inlineComment(comment: string | undefined): string {
+    return comment === undefined ? '' : `/* ${comment.replace(/\*\//g, '* /')} */ `;
+}
+
+function fullName(value: string | undefined): string {
+    return value === undefined ? '' : ` fullName ${quoteString(value)}`;
+}
+
+function indented(lines: Array<Line>, indent: string): Array<Line> {
+    return lines.map(line => line ? `${indent}${line}` : line);
+}
+
+function block(header: string, body: Array<Line>, indent: string): Array<Line> {
+    return body.length === 0 ? [`${header} {}`] : [`${header} {`, ...indented(body, indent), '}'];
+}
+
+/** Joins sibling blocks with a blank line; consecutive one-line actors stay together. */
+function separated(items: Array<{ node: ModelNode; lines: Array<Line> }>): Array<Line> {
+    const lines: Array<Line> = [];
+    items.forEach((item, position) => {
+        const previous = items[position - 1];
+        if (previous && !(isActor(previous.node) && isActor(item.node))) {
+            lines.push('');
+        }
+        lines.push(...item.lines);
+    });
+    return lines;
+}
+
+class ModelPrinter {
+    private readonly scope: ModelScope;
+
+    constructor(model: Model, private readonly indent: string) {
+        this.scope = new ModelScope(model);
+    }
+
+    printModel(model: Model): string {
+        const items: Array<{ node: ModelNode; lines: Array<Line> }> = [];
+        if (model.configuration) {
+            items.push({ node: model.configuration, lines: this.configuration(model.configuration) });
+        }
+        for (const element of model.abstractElements) {
+            items.push({ node: element, lines: this.element(element) });
+        }
+        const lines = separated(items);
+        return lines.length === 0 ? '' : lines.join('\n') + '\n';
+    }
+
+    /**
+     * Writes the shortest name that resolves back to the target from where the
+     * reference is written. Unresolved references keep their original text.
+     */
+    private reference(value: Reference<ModelNode> | undefined, context: ModelNode): string {
+        const target = value === undefined ? undefined : getRef(value);
+        if (!target) {
+            return (value as { $refText?: string } | undefined)?.$refText ?? '';
+        }
+        const qualifiedName = getQualifiedName(target) ?? '';
+        const parts = qualifiedName.split('.');
+        const sameKind = (node: ModelNode) => isLocalEntity(target) || isImportedEntity(target)
+            ? isLocalEntity(node) || isImportedEntity(node)
+            : node.$type === target.$type;
+        for (let start = parts.length - 1; start >= 0; start--) {
+            const name = parts.slice(start).join('.');
+            const resolution = this.scope.resolve(name, { context, filter: (node): node is ModelNode => sameKind(node) });
+            if (resolution.status === 'resolved' && resolution.node === target) {
+                return name;
+            }
+        }
+        return qualifiedName;
+    }
+
+    private configuration(configuration: Configuration): Array<Line> {
+        const body: Array<Line> = [];
+        if (configuration.name !== undefined) body.push(`name: ${quoteString(configuration.name)}`);
+        if (configuration.description !== undefined) body.push(`description: ${quoteString(configuration.description)}`);
+        if (configuration.language !== undefined) body.push(`language: ${configuration.language}`);
+        if (configuration.package_path !== undefined) body.push(`package_path: ${quoteString(configuration.package_path)}`);
+        if (configuration.database_name !== undefined) body.push(`database_name: ${quoteString(configuration.database_name)}`);
+        if (configuration.feature !== undefined) body.push(`feature: ${configuration.feature}`);
+        if (configuration.entity !== undefined) body.push(`entity: ${this.reference(configuration.entity, configuration)}`);
+        return block('Configuration', body, this.indent);
+    }
+
+    private element(element: Model['abstractElements'][number] | LocalEntity): Array<Line> {
+        if (isModule(element)) {
+            return this.module(element);
+        }
+        if (isEnumX(element)) {
+            return this.enumeration(element);
+        }
+        if (isModuleImport(element)) {
+            return this.moduleImport(element);
+        }
+        if (isLocalEntity(element)) {
+            return this.entity(element);
+        }
+        return this.useCases(element);
+    }
+
+    private module(module: Module): Array<Line> {
+        const body = separated(module.elements.map(element => ({ node: element, lines: this.element(element) })));
+        return [...commentLines(module.comment), ...block(`module ${module.name}`, body, this.indent)];
+    }
+
+    private enumeration(enumeration: EnumX): Array<Line> {
+        const body = enumeration.attributes.flatMap((value: AttributeEnum) => [
+            ...commentLines(value.comment),
+            `${value.name}${fullName(value.fullName)}`
+        ]);
+        return [...commentLines(enumeration.comment), ...block(`enum ${enumeration.name}`, body, this.indent)];
+    }
+
+    private moduleImport(moduleImport: ModuleImport): Array<Line> {
+        const header = `import ${moduleImport.name} from ${quoteString(moduleImport.library)} package ${quoteString(moduleImport.package_path)}`;
+        return block(header, moduleImport.entities.map(entity => entity.name), this.indent);
+    }
+
+    private entity(entity: LocalEntity): Array<Line> {
+        const superType = entity.superType ? ` extends ${this.reference(entity.superType, entity)}` : '';
+        const header = `${entity.is_abstract ? 'abstract ' : ''}entity ${entity.name}${superType}`;
+        const body = [
+            ...entity.attributes.flatMap(attribute => this.attribute(attribute)),
+            ...entity.enumentityatributes.flatMap(attribute => this.enumAttribute(attribute)),
+            ...entity.relations.flatMap(relation => this.relation(relation)),
+            ...entity.functions.flatMap(fn => this.function(fn))
+        ];
+        return [...commentLines(entity.comment), ...block(header, body, this.indent)];
+    }
+
+    private attribute(attribute: Attribute): Array<Line> {
+        const modifiers = [
+            attribute.unique ? ' unique' : '',
+            attribute.blank ? ' blank' : '',
+            attribute.min !== undefined ? ` min ${attribute.min}` : '',
+            attribute.max !== undefined ? ` max ${attribute.max}` : '',
+            fullName(attribute.fullName)
+        ].join('');
+        return [...commentLines(attribute.comment), `${attribute.name}: ${attribute.type}${modifiers}`];
+    }
+
+    private enumAttribute(attribute: EnumEntityAtribute): Array<Line> {
+        return [...commentLines(attribute.comment), `${attribute.name}: enum ${this.reference(attribute.type, attribute)}`];
+    }
+
+    private relation(relation: Relation): Array<Line> {
+        const by = isManyToMany(relation) && relation.by ? ` by ${this.reference(relation.by, relation)}` : '';
+        const line = `${relation.name}: ${relation.$type} ${this.reference(relation.type, relation)}${by}${fullName(relation.fullName)}`;
+        return [...commentLines(relation.comment), line];
+    }
+
+    private function(fn: FunctionEntity): Array<Line> {
+        const params = fn.paramters.flatMap(parameter => {
+            const elements = Array.isArray(parameter.element) ? parameter.element : [parameter.element];
+            return elements.map((element, position) =>
+                `${position === 0 ? inlineComment(parameter.comment) : ''}${inlineComment(element.comment)}${element.name}: ${element.type}`
+            );
+        });
+        return [...commentLines(fn.comment), `function ${fn.name}(${params.join(', ')}): ${fn.response}`];
+    }
+
+    private useCases(useCases: UseCasesModel): Array<Line> {
+        const elements = useCases.elements as Array<UseCase | Actor>;
+        const body = separated(elements.map(element => ({
+            node: element,
+            lines: isUseCase(element) ? this.useCase(element) : this.actor(element)
+        })));
+        return [...commentLines(useCases.comment), ...block(`usecases ${useCases.id}`, body, this.indent)];
+    }
+
+    private actor(actor: Actor): Array<Line> {
+        const superType = actor.superType ? ` extends ${this.reference(actor.superType, actor)}` : '';
+        return [...commentLines(actor.comment), `actor ${actor.id}${superType}${fullName(actor.fullName)}`];
+    }
+
+    private useCase(useCase: UseCase): Array<Line> {
+        const superType = useCase.superType ? ` extends ${this.reference(useCase.superType, useCase)}` : '';
+        const body: Array<Line> = [];
+        if (useCase.actors.length > 0) {
+            body.push(`actors: ${useCase.actors.map(actor => this.reference(actor, useCase)).join(', ')}`);
+        }
+        if (useCase.description !== undefined) {
+            body.push(`description: ${quoteString(useCase.description)}`);
+        }
+        body.push(...useCase.events.flatMap(event => this.event(event)));
+        const header = `usecase ${useCase.id} ${quoteString(useCase.name_fragment)}${superType}`;
+        return [...commentLines(useCase.comment), ...block(header, body, this.indent)];
+    }
+
+    private event(event: Event): Array<Line> {
+        const body: Array<Line> = [];
+        if (event.name_fragment !== undefined) body.push(`name: ${quoteString(event.name_fragment)}`);
+        if (event.action !== undefined) body.push(`action: ${quoteString(event.action)}`);
+        if (event.description !== undefined) body.push(`description: ${quoteString(event.description)}`);
+        if (event.depends.length > 0) {
+            body.push(`depends: ${event.depends.map(dependency => this.reference(dependency, event)).join(', ')}`);
+        }
+        return block(`event ${event.id}`, body, this.indent);
+    }
+}
+
+/**
+ * Prints a model as DSL source. Elements keep their model order, comments are
+ * written as `//` lines above the node they belong to (`/* *\/` inside
+ * parameter lists) and references use the shortest name that resolves back
+ * to the same node, so the output is stable and reads like hand-written code.
+ */
+export function printModel(model: Model, options: PrintOptions = {}): string {
+    return new ModelPrinter(model, options.indent ?? '    ').printModel(model);
+}
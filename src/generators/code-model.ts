@@ -0,0 +1,156 @@
+import { Entity, EnumX, LANGUAGETYPE, Model, Module, Relation, getRef, isModule } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getEffectiveAttributes } from "../inheritance/effective-members.js";
+import { RelationIndex, targetCardinality } from "../relations/relation-index.js";
+import { SqlDialect, SqlTable, createSqlSchema, resolveSqlDialect } from "./sql.js";
+import { GeneratedFile } from "./files.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { toPascalCase, toSnakeCase } from "./naming.js";
+
+/** State shared by the emitters of one `generateCode` run. */
+export interface CodeContext {
+    model: Model;
+    language: LANGUAGETYPE;
+    /** `Configuration.package_path` split on dots, or the snake-cased configuration name. */
+    packageSegments: Array<string>;
+    dialect: SqlDialect;
+    /** Table layout the mappings follow, as `generateSql` creates it. */
+    tables: Array<SqlTable>;
+    relations: RelationIndex;
+}
+
+/**
+ * Emitters of one target language. Each returns the files for one model
+ * element; `support` adds files that depend on the whole output, such as a
+ * database context or package markers.
+ */
+export interface LanguageGenerator {
+    enumeration(enumeration: EnumX, context: CodeContext): Array<GeneratedFile>;
+    entity(entity: LocalEntity, context: CodeContext): Array<GeneratedFile>;
+    dto(entity: LocalEntity, context: CodeContext): Array<GeneratedFile>;
+    repository(entity: LocalEntity, context: CodeContext): Array<GeneratedFile>;
+    support?(context: CodeContext, files: Array<GeneratedFile>): Array<GeneratedFile>;
+}
+
+/** How a declared relation is stored, read from the table layout. */
+export interface RelationMapping {
+    relation: Relation;
+    target?: Entity;
+    many: boolean;
+    /** Foreign key column on the entity's own table (`ManyToOne` and owning `OneToOne`). */
+    joinColumn?: string;
+    /** Foreign key column on the target table, for a `OneToMany` whose inverse is not declared. */
+    targetColumn?: string;
+    /** Join table of an owning `ManyToMany`; the `by` entity's table when one is given. */
+    joinTable?: { name: string; sourceColumn: string; targetColumn: string };
+    /** Declared inverse that owns the mapping. */
+    mappedBy?: Relation;
+}
+
+export interface EntityKey {
+    name: string;
+    /** The declared `id` attribute; `undefined` when the key is generated. */
+    attribute?: Attribute;
+}
+
+/** `Configuration.package_path` split on dots, or the snake-cased configuration name. */
+export function getPackageSegments(model: Model): Array<string> {
+    const packagePath = model.configuration?.package_path as string | undefined;
+    return packagePath
+        ? packagePath.split('.').filter(segment => segment.length > 0)
+        : [toSnakeCase(model.configuration?.name ?? 'app')];
+}
+
+export function createCodeContext(model: Model, language: LANGUAGETYPE): CodeContext {
+    const dialect = resolveSqlDialect(model);
+    return {
+        model,
+        language,
+        packageSegments: getPackageSegments(model),
+        dialect,
+        tables: createSqlSchema(model, dialect),
+        relations: new RelationIndex(model)
+    };
+}
+
+/** Names of the modules enclosing a node, outermost first; dotted module names are split. */
+export function getModuleSegments(node: LocalEntity | EnumX): Array<string> {
+    const segments: Array<string> = [];
+    let container: Model | Module = node.$container;
+    while (isModule(container)) {
+        segments.unshift(...container.name.split('.'));
+        container = container.$container;
+    }
+    return segments;
+}
+
+export function getEntityKey(entity: LocalEntity): EntityKey {
+    const attribute = getEffectiveAttributes(entity).find(candidate => toSnakeCase(candidate.name) === 'id');
+    return attribute ? { name: attribute.name, attribute } : { name: 'id' };
+}
+
+/** Nearest supertype that is a `LocalEntity`. */
+export function getLocalSuperType(entity: LocalEntity): LocalEntity | undefined {
+    const superType = entity.superType ? getRef(entity.superType) : undefined;
+    return isLocalEntity(superType) ? superType : undefined;
+}
+
+/**
+ * Name an ORM registers an entity under: its own, or its qualified name in
+ * PascalCase (`SalesCustomer`) when another concrete entity has the same name.
+ */
+export function getEntityName(entity: LocalEntity, context: CodeContext): string {
+    const clashes = context.tables.some(table => table.entity && table.entity !== entity && table.entity.name === entity.name);
+    return clashes ? toPascalCase(getQualifiedName(entity) ?? entity.name) : entity.name;
+}
+
+export function getTable(entity: LocalEntity, context: CodeContext): SqlTable | undefined {
+    return context.tables.find(table => table.entity === entity);
+}
+
+function columnOf(relation: Relation, context: CodeContext): { table: SqlTable; columns: Array<string> } | undefined {
+    for (const table of context.tables) {
+        const columns = table.columns.filter(column => column.member === relation).map(column => column.name);
+        if (columns.length > 0) {
+            return { table, columns };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Maps the relations declared on an entity to the columns and join tables of
+ * `createSqlSchema`, so generated code and generated DDL agree.
+ */
+export function getRelationMappings(entity: LocalEntity, context: CodeContext): Array<RelationMapping> {
+    return entity.relations.map(relation => {
+        const mapping: RelationMapping = {
+            relation,
+            target: getRef(relation.type),
+            many: targetCardinality[relation.$type] === 'many'
+        };
+        const inverse = context.relations.getInverse(relation);
+        const declaredInverse = inverse && !context.relations.isImplicit(inverse) ? inverse : undefined;
+        const own = columnOf(relation, context);
+        if (relation.$type === 'ManyToMany') {
+            if (own) {
+                const [sourceColumn, targetColumn] = own.columns;
+                mapping.joinTable = { name: own.table.name, sourceColumn, targetColumn: targetColumn ?? sourceColumn };
+            } else {
+                mapping.mappedBy = declaredInverse;
+            }
+        } else if (relation.$type === 'OneToMany') {
+            if (declaredInverse) {
+                mapping.mappedBy = declaredInverse;
+            } else {
+                mapping.targetColumn = inverse ? columnOf(inverse, context)?.columns[0] : undefined;
+            }
+        } else if (own) {
+            mapping.joinColumn = own.columns[0];
+        } else {
+            mapping.mappedBy = declaredInverse;
+        }
+        return mapping;
+    });
+}
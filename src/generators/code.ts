@@ -0,0 +1,54 @@
+import { LANGUAGETYPE, Model, isEnumX } from "../models/model.js";
+import { isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { LanguageGenerator, createCodeContext } from "./code-model.js";
+import { javaGenerator } from "./java.js";
+import { pythonGenerator } from "./python.js";
+import { csharpCleanArchitectureGenerator, csharpMinimalApiGenerator } from "./csharp.js";
+import { prismaGenerator } from "./prisma.js";
+import { GeneratedFile } from "./files.js";
+
+/** Built-in emitters of every `LANGUAGETYPE`. */
+export const languageGenerators: Record<LANGUAGETYPE, LanguageGenerator> = {
+    java: javaGenerator,
+    python: pythonGenerator,
+    'csharp-minimal-api': csharpMinimalApiGenerator,
+    'csharp-clean-architecture': csharpCleanArchitectureGenerator,
+    'node-prisma': prismaGenerator
+};
+
+export interface CodeOptions {
+    /** Target language; defaults to `Configuration.language`. */
+    language?: LANGUAGETYPE;
+    /** Replaces the built-in emitters of some languages. */
+    generators?: Partial<Record<LANGUAGETYPE, LanguageGenerator>>;
+}
+
+/**
+ * Generates entity, DTO and repository sources for the language chosen by
+ * the `Configuration`: JPA for Java, SQLAlchemy and Pydantic for Python, EF
+ * Core records for C# and a Prisma schema for Node. `package_path` sets the
+ * package or namespace, and the persistence mappings follow the tables
+ * `generateSql` creates.
+ */
+export function generateCode(model: Model, options: CodeOptions = {}): Array<GeneratedFile> {
+    const language = options.language ?? model.configuration?.language;
+    if (!language) {
+        throw new Error("No target language: set 'language' in the Configuration or in the options");
+    }
+    const generator = options.generators?.[language] ?? languageGenerators[language];
+    if (!generator) {
+        throw new Error(`No code generator for language '${language}'`);
+    }
+    const context = createCodeContext(model, language);
+    const files: Array<GeneratedFile> = [];
+    for (const enumeration of getAllContentsOfType(model, isEnumX)) {
+        files.push(...generator.enumeration(enumeration, context));
+    }
+    for (const entity of getAllContentsOfType(model, isLocalEntity)) {
+        files.push(...generator.entity(entity, context));
+        files.push(...generator.dto(entity, context));
+        files.push(...generator.repository(entity, context));
+    }
+    return [...files, ...(generator.support?.(context, files) ?? [])];
+}
@@ -0,0 +1,361 @@
+import { DATATYPE, Entity, EnumX, getRef, isManyToMany } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes, getEffectiveRelations } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { CodeContext, LanguageGenerator, RelationMapping, getEntityKey, getLocalSuperType, getModuleSegments, getRelationMappings, getTable } from "./code-model.js";
+import { GeneratedFile } from "./files.js";
+import { toPascalCase, toPlural, toSnakeCase } from "./naming.js";
+
+export type CSharpLanguage = 'csharp-minimal-api' | 'csharp-clean-architecture';
+
+/** C# type of each data type. */
+export const csharpTypes: Record<DATATYPE, string> = {
+    boolean: 'bool', cnpj: 'string', cpf: 'string', currency: 'decimal', date: 'DateOnly', datetime: 'DateTime',
+    decimal: 'decimal', email: 'string', file: 'byte[]', integer: 'int', mobilePhoneNumber: 'string',
+    phoneNumber: 'string', string: 'string', uuid: 'Guid', void: 'void', zipcode: 'string'
+};
+
+type Layer = 'entities' | 'dtos' | 'repositoryInterfaces' | 'repositories' | 'data';
+
+interface Location {
+    directory: string;
+    namespace: string;
+}
+
+/** Where each layer lives: one project for the minimal API, Domain/Application/Infrastructure for clean architecture. */
+const layouts: Record<CSharpLanguage, Record<Layer, (root: string) => Location>> = {
+    'csharp-minimal-api': {
+        entities: root => ({ directory: 'Models', namespace: `${root}.Models` }),
+        dtos: root => ({ directory: 'Dtos', namespace: `${root}.Dtos` }),
+        repositoryInterfaces: root => ({ directory: 'Repositories', namespace: `${root}.Repositories` }),
+        repositories: root => ({ directory: 'Repositories', namespace: `${root}.Repositories` }),
+        data: root => ({ directory: 'Data', namespace: `${root}.Data` })
+    },
+    'csharp-clean-architecture': {
+        entities: root => ({ directory: `src/${root}.Domain/Entities`, namespace: `${root}.Domain.Entities` }),
+        dtos: root => ({ directory: `src/${root}.Application/Dtos`, namespace: `${root}.Application.Dtos` }),
+        repositoryInterfaces: root => ({ directory: `src/${root}.Application/Repositories`, namespace: `${root}.Application.Repositories` }),
+        repositories: root => ({ directory: `src/${root}.Infrastructure/Repositories`, namespace: `${root}.Infrastructure.Repositories` }),
+        data: root => ({ directory: `src/${root}.Infrastructure/Persistence`, namespace: `${root}.Infrastructure.Persistence` })
+    }
+};
+
+const textTypes: Array<DATATYPE> = ['email', 'mobilePhoneNumber', 'phoneNumber', 'string'];
+const referenceTypes = ['string', 'byte[]'];
+
+function rootNamespace(context: CodeContext): string {
+    return context.packageSegments.map(toPascalCase).join('.');
+}
+
+function locate(layer: Layer, context: CodeContext, node?: LocalEntity | EnumX): Location {
+    const language = context.language as CSharpLanguage;
+    const base = (layouts[language] ?? layouts['csharp-minimal-api'])[layer](rootNamespace(context));
+    const modules = node ? getModuleSegments(node).map(toPascalCase) : [];
+    return {
+        directory: [base.directory, ...modules].join('/'),
+        namespace: [base.namespace, ...modules].join('.')
+    };
+}
+
+function summary(text: string | undefined, indent = ''): Array<string> {
+    if (text === undefined) {
+        return [];
+    }
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, ' ');
+    return [`${indent}/// <summary>${escaped}</summary>`];
+}
+
+function nullable(type: string): string {
+    return `${type}?`;
+}
+
+function keyType(entity: Entity | undefined): string {
+    const key = isLocalEntity(entity) ? getEntityKey(entity).attribute : undefined;
+    return key ? csharpTypes[key.type] : 'long';
+}
+
+/** Navigation properties are generated for concrete local targets; other relations keep only their key. */
+function hasNavigation(mapping: RelationMapping): boolean {
+    return isLocalEntity(mapping.target) && !mapping.target.is_abstract;
+}
+
+class CSharpFile {
+    private readonly usings = new Set<string>();
+
+    constructor(readonly location: Location, private readonly context: CodeContext) {}
+
+    using(namespace: string): void {
+        if (namespace !== this.location.namespace) {
+            this.usings.add(namespace);
+        }
+    }
+
+    /** Name of an entity or enum, adding the `using` of its namespace. */
+    use(node: LocalEntity | EnumX): string {
+        this.using(locate('entities', this.context, node).namespace);
+        return node.name;
+    }
+
+    render(name: string, body: Array<string>): GeneratedFile {
+        const usings = [...this.usings].sort().map(namespace => `using ${namespace};`);
+        return {
+            path: `${this.location.directory}/${name}.cs`,
+            content: [...usings, ...(usings.length > 0 ? [''] : []), `namespace ${this.location.namespace};`, '', ...body].join('\n') + '\n'
+        };
+    }
+}
+
+function property(type: string, name: string, attributes: Array<string>, initializer = ''): Array<string> {
+    const required = referenceTypes.includes(type) ? 'required ' : '';
+    return [...attributes.map(attribute => `    [${attribute}]`), `    public ${required}${type} ${name} { get; set; }${initializer}`];
+}
+
+function blocks(parts: Array<Array<string>>): Array<string> {
+    return parts.flatMap((part, position) => position > 0 ? ['', ...part] : part);
+}
+
+function relationProperties(file: CSharpFile, mapping: RelationMapping): Array<Array<string>> {
+    const name = toPascalCase(mapping.relation.name);
+    const parts: Array<Array<string>> = [];
+    if (mapping.joinColumn) {
+        parts.push(property(nullable(keyType(mapping.target)), `${name}Id`, [`Column("${mapping.joinColumn}")`]));
+    }
+    if (!hasNavigation(mapping)) {
+        return parts;
+    }
+    const target = file.use(mapping.target as LocalEntity);
+    const attributes: Array<string> = [];
+    if (mapping.joinColumn) {
+        attributes.push(`ForeignKey(nameof(${name}Id))`);
+    } else if (mapping.mappedBy) {
+        attributes.push(`InverseProperty(nameof(${target}.${toPascalCase(mapping.mappedBy.name)}))`);
+    }
+    parts.push([
+        ...summary(mapping.relation.comment, '    '),
+        ...(mapping.many
+            ? property(`List<${target}>`, name, attributes, ' = [];')
+            : property(nullable(target), name, attributes))
+    ]);
+    return parts;
+}
+
+/** Fluent configuration for what the data annotations cannot express. */
+function modelConfiguration(context: CodeContext, file: CSharpFile): Array<string> {
+    const lines: Array<string> = [];
+    const entities = getAllContentsOfType(context.model, isLocalEntity);
+    for (const entity of entities) {
+        const name = file.use(entity);
+        if (!getLocalSuperType(entity) && entities.some(other => getLocalSuperType(other) === entity)) {
+            lines.push(`modelBuilder.Entity<${name}>().UseTpcMappingStrategy();`);
+        }
+        for (const attribute of entity.enumentityatributes) {
+            lines.push(`modelBuilder.Entity<${name}>().Property(e => e.${toPascalCase(attribute.name)}).HasConversion<string>();`);
+        }
+        if (entity.is_abstract) {
+            continue;
+        }
+        for (const mapping of getRelationMappings(entity, context).filter(hasNavigation)) {
+            const target = file.use(mapping.target as LocalEntity);
+            const navigation = `e => e.${toPascalCase(mapping.relation.name)}`;
+            if (mapping.targetColumn) {
+                lines.push(`modelBuilder.Entity<${name}>()`, `    .HasMany(${navigation})`, '    .WithOne()', `    .HasForeignKey("${mapping.targetColumn}");`);
+            } else if (mapping.joinTable && isManyToMany(mapping.relation)) {
+                const inverse = context.relations.getInverse(mapping.relation);
+                const withMany = inverse && !context.relations.isImplicit(inverse) ? `e => e.${toPascalCase(inverse.name)}` : '';
+                const table = context.tables.find(candidate => candidate.name === mapping.joinTable!.name);
+                const by = table?.relation ? undefined : table?.entity;
+                lines.push(
+                    `modelBuilder.Entity<${name}>()`,
+                    `    .HasMany(${navigation})`,
+                    `    .WithMany(${withMany})`,
+                    by
+                        ? `    .UsingEntity<${file.use(by)}>(`
+                        : `    .UsingEntity<Dictionary<string, object>>(`,
+                    ...(by ? [] : [`        "${mapping.joinTable.name}",`]),
+                    `        right => right.HasOne<${target}>().WithMany().HasForeignKey("${mapping.joinTable.targetColumn}"),`,
+                    `        left => left.HasOne<${name}>().WithMany().HasForeignKey("${mapping.joinTable.sourceColumn}"));`
+                );
+            }
+        }
+    }
+    return lines;
+}
+
+function csharpGenerator(): LanguageGenerator {
+    return {
+        enumeration(enumeration, context) {
+            const file = new CSharpFile(locate('entities', context, enumeration), context);
+            const values = enumeration.attributes;
+            return [file.render(enumeration.name, [
+                ...summary(enumeration.comment),
+                `public enum ${enumeration.name}`,
+                '{',
+                ...values.flatMap((value, position) => [
+                    ...summary(value.comment ?? value.fullName, '    '),
+                    `    ${value.name}${position < values.length - 1 ? ',' : ''}`
+                ]),
+                '}'
+            ])];
+        },
+
+        entity(entity, context) {
+            const file = new CSharpFile(locate('entities', context, entity), context);
+            file.using('System.ComponentModel.DataAnnotations');
+            file.using('System.ComponentModel.DataAnnotations.Schema');
+            const parts: Array<Array<string>> = [];
+            const classAttributes: Array<string> = [];
+            if (!getLocalSuperType(entity)) {
+                const key = getEntityKey(entity);
+                parts.push(property(key.attribute ? csharpTypes[key.attribute.type] : 'long', toPascalCase(key.name), ['Key', `Column("${toSnakeCase(key.name)}")`]));
+            }
+            for (const attribute of entity.attributes) {
+                if (attribute.type === 'void' || toSnakeCase(attribute.name) === 'id') {
+                    continue;
+                }
+                const name = toPascalCase(attribute.name);
+                const attributes = [`Column("${toSnakeCase(attribute.name)}")`];
+                if (textTypes.includes(attribute.type) && attribute.min !== undefined) attributes.push(`MinLength(${attribute.min})`);
+                if (textTypes.includes(attribute.type) && attribute.max !== undefined) attributes.push(`MaxLength(${attribute.max})`);
+                if (attribute.type === 'currency' || attribute.type === 'decimal') {
+                    file.using('Microsoft.EntityFrameworkCore');
+                    attributes.push(attribute.type === 'currency' ? 'Precision(19, 2)' : 'Precision(19, 4)');
+                }
+                if (attribute.unique) {
+                    file.using('Microsoft.EntityFrameworkCore');
+                    classAttributes.push(`Index(nameof(${name}), IsUnique = true)`);
+                }
+                const type = csharpTypes[attribute.type];
+                parts.push([
+                    ...summary(attribute.comment ?? attribute.fullName, '    '),
+                    ...(attribute.blank ? property(nullable(type), name, attributes) : property(type, name, attributes))
+                ]);
+            }
+            for (const attribute of entity.enumentityatributes) {
+                const enumeration = getRef(attribute.type);
+                if (enumeration) {
+                    parts.push([
+                        ...summary(attribute.comment, '    '),
+                        ...property(nullable(file.use(enumeration)), toPascalCase(attribute.name), [`Column("${toSnakeCase(attribute.name)}")`])
+                    ]);
+                }
+            }
+            for (const mapping of getRelationMappings(entity, context).filter(mapping => mapping.target)) {
+                parts.push(...relationProperties(file, mapping));
+            }
+            if (!entity.is_abstract) {
+                classAttributes.unshift(`Table("${getTable(entity, context)?.name ?? toSnakeCase(entity.name)}")`);
+            }
+            const superType = getLocalSuperType(entity);
+            return [file.render(entity.name, [
+                ...summary(entity.comment),
+                ...classAttributes.map(attribute => `[${attribute}]`),
+                `public ${entity.is_abstract ? 'abstract ' : ''}record ${entity.name}${superType ? ` : ${file.use(superType)}` : ''}`,
+                '{',
+                ...blocks(parts),
+                '}'
+            ])];
+        },
+
+        dto(entity, context) {
+            const file = new CSharpFile(locate('dtos', context, entity), context);
+            const key = getEntityKey(entity);
+            const parameters = [`${key.attribute ? csharpTypes[key.attribute.type] : 'long'} ${toPascalCase(key.name)}`];
+            for (const attribute of getEffectiveAttributes(entity)) {
+                if (attribute.type !== 'void' && attribute !== key.attribute) {
+                    const type = csharpTypes[attribute.type];
+                    parameters.push(`${attribute.blank ? nullable(type) : type} ${toPascalCase(attribute.name)}`);
+                }
+            }
+            for (const attribute of getEffectiveEnumAttributes(entity)) {
+                const enumeration = getRef(attribute.type);
+                if (enumeration) {
+                    parameters.push(`${nullable(file.use(enumeration))} ${toPascalCase(attribute.name)}`);
+                }
+            }
+            for (const relation of getEffectiveRelations(entity)) {
+                const type = keyType(getRef(relation.type));
+                parameters.push(targetCardinality[relation.$type] === 'many'
+                    ? `List<${type}> ${toPascalCase(relation.name)}Ids`
+                    : `${nullable(type)} ${toPascalCase(relation.name)}Id`);
+            }
+            const name = `${entity.name}Dto`;
+            return [file.render(name, [
+                ...summary(entity.comment),
+                `public record ${name}(`,
+                parameters.map(parameter => `    ${parameter}`).join(',\n') + ');'
+            ])];
+        },
+
+        repository(entity, context) {
+            if (entity.is_abstract) {
+                return [];
+            }
+            const contract = new CSharpFile(locate('repositoryInterfaces', context, entity), context);
+            const implementation = new CSharpFile(locate('repositories', context, entity), context);
+            const data = locate('data', context);
+            const name = entity.name;
+            const key = keyType(entity);
+            contract.use(entity);
+            implementation.use(entity);
+            implementation.using(contract.location.namespace);
+            implementation.using(data.namespace);
+            implementation.using('Microsoft.EntityFrameworkCore');
+            return [
+                contract.render(`I${name}Repository`, [
+                    `public interface I${name}Repository`,
+                    '{',
+                    `    Task<${name}?> FindAsync(${key} id);`,
+                    `    Task<List<${name}>> ListAsync();`,
+                    `    Task AddAsync(${name} entity);`,
+                    `    void Remove(${name} entity);`,
+                    '    Task SaveChangesAsync();',
+                    '}'
+                ]),
+                implementation.render(`${name}Repository`, [
+                    `public class ${name}Repository(AppDbContext context) : I${name}Repository`,
+                    '{',
+                    `    public async Task<${name}?> FindAsync(${key} id) => await context.Set<${name}>().FindAsync(id);`,
+                    '',
+                    `    public Task<List<${name}>> ListAsync() => context.Set<${name}>().ToListAsync();`,
+                    '',
+                    `    public async Task AddAsync(${name} entity) => await context.Set<${name}>().AddAsync(entity);`,
+                    '',
+                    `    public void Remove(${name} entity) => context.Set<${name}>().Remove(entity);`,
+                    '',
+                    '    public Task SaveChangesAsync() => context.SaveChangesAsync();',
+                    '}'
+                ])
+            ];
+        },
+
+        /** The `AppDbContext` with a `DbSet` per table and the fluent configuration. */
+        support(context) {
+            const file = new CSharpFile(locate('data', context), context);
+            file.using('Microsoft.EntityFrameworkCore');
+            const sets = getAllContentsOfType(context.model, isLocalEntity)
+                .filter(entity => !entity.is_abstract)
+                .map(entity => `    public DbSet<${file.use(entity)}> ${toPlural(entity.name)} => Set<${entity.name}>();`);
+            const configuration = modelConfiguration(context, file);
+            return [file.render('AppDbContext', [
+                'public class AppDbContext(DbContextOptions<AppDbContext> options) : DbContext(options)',
+                '{',
+                ...sets,
+                ...(configuration.length > 0 ? [
+                    '',
+                    '    protected override void OnModelCreating(ModelBuilder modelBuilder)',
+                    '    {',
+                    ...configuration.map(line => `        ${line}`),
+                    '    }'
+                ] : []),
+                '}'
+            ])];
+        }
+    };
+}
+
+/** EF Core entity records, DTO records and repositories laid out as a minimal API project. */
+export const csharpMinimalApiGenerator: LanguageGenerator = csharpGenerator();
+
+/** The same records split into Domain, Application and Infrastructure projects. */
+export const csharpCleanArchitectureGenerator: LanguageGenerator = csharpGenerator();
@@ -0,0 +1,175 @@
+import { Entity, EnumX, Model, Module, Relation, getRef, isEnumX, isModule } from "../models/model.js";
+import { ImportedEntity, LocalEntity, getFunctionParameters, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+
+export interface DiagramOptions {
+    /**
+     * Use qualified names (`Sales_Order`) as Mermaid ids, so entities with the
+     * same name in different modules stay apart. Defaults to `true`; `false`
+     * uses simple names.
+     */
+    qualifiedNames?: boolean;
+}
+
+const mermaidCardinality: Record<Relation['$type'], string> = {
+    ManyToMany: '}o--o{',
+    ManyToOne: '}o--||',
+    OneToMany: '||--o{',
+    OneToOne: '||--||'
+};
+
+const plantUmlMultiplicity: Record<Relation['$type'], [string, string]> = {
+    ManyToMany: ['*', '*'],
+    ManyToOne: ['*', '1'],
+    OneToMany: ['1', '*'],
+    OneToOne: ['1', '1']
+};
+
+function diagramId(node: Entity | EnumX, options: DiagramOptions): string {
+    const name = options.qualifiedNames !== false ? getQualifiedName(node) ?? node.name : node.name;
+    return name.replace(/\./g, '_');
+}
+
+function contents(target: Model | Module): { entities: Array<LocalEntity>; enums: Array<EnumX>; relations: Array<Relation> } {
+    const entities = getAllContentsOfType(target, isLocalEntity);
+    return {
+        entities,
+        enums: getAllContentsOfType(target, isEnumX),
+        relations: entities.flatMap(entity => entity.relations)
+    };
+}
+
+/** Imported entities shown in the diagram: every one for a model, only the referenced ones for a module. */
+function importedEntities(target: Model | Module, entities: Array<LocalEntity>): Array<ImportedEntity> {
+    const referenced = entities.flatMap(entity => [
+        ...entity.relations.map(relation => getRef(relation.type)),
+        ...(entity.superType ? [getRef(entity.superType)] : [])
+    ]);
+    const all = isModule(target)
+        ? referenced
+        : target.abstractElements.flatMap(element => element.$type === 'ModuleImport' ? element.entities : []);
+    return [...new Set(all.filter(isImportedEntity))];
+}
+
+/** Renders a model or module as a Mermaid `erDiagram`, labelling each node with its simple name. */
+export function generateMermaidDiagram(target: Model | Module, options: DiagramOptions = {}): string {
+    const { entities, enums, relations } = contents(target);
+    const id = (node: Entity | EnumX) => diagramId(node, options);
+    const lines = ['erDiagram'];
+
+    for (const entity of entities) {
+        const rows = [
+            ...entity.attributes.map(attribute => {
+                const key = attribute.unique ? ' UK' : '';
+                const comment = attribute.comment ? ` "${attribute.comment.replace(/"/g, "'")}"` : '';
+                return `${attribute.type} ${attribute.name}${key}${comment}`;
+            }),
+            ...entity.enumentityatributes.map(attribute => `${getRef(attribute.type)?.name ?? 'enum'} ${attribute.name}`)
+        ];
+        const name = entity.is_abstract ? `${entity.name} (abstract)` : entity.name;
+        const label = name !== id(entity) ? `${id(entity)}["${name}"]` : id(entity);
+        lines.push(`    ${label} {`, ...rows.map(row => `        ${row}`), '    }');
+    }
+    for (const enumeration of enums) {
+        lines.push(`    ${id(enumeration)}["${enumeration.name} (enum)"] {`);
+        lines.push(...enumeration.attributes.map(value => `        enum ${value.name}`), '    }');
+    }
+    for (const imported of importedEntities(target, entities)) {
+        lines.push(`    ${diagramId(imported, {})}["${imported.name} (imported)"] {`, '    }');
+    }
+    const targetId = (node: Entity | EnumX) => isImportedEntity(node) ? diagramId(node, {}) : id(node);
+    for (const relation of relations) {
+        const target = getRef(relation.type);
+        if (target) {
+            lines.push(`    ${id(relation.$container)} ${mermaidCardinality[relation.$type]} ${targetId(target)} : "${relation.name}"`);
+        }
+    }
+    for (const entity of entities) {
+        for (const attribute of entity.enumentityatributes) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                lines.push(`    ${id(entity)} }o--|| ${id(enumeration)} : "${attribute.name}"`);
+            }
+        }
+        const superType = entity.superType ? getRef(entity.superType) : undefined;
+        if (superType) {
+            lines.push(`    ${id(entity)} ||..|| ${targetId(superType)} : "extends"`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+function plantUmlEntity(entity: LocalEntity, id: string, indent: string): Array<string> {
+    const keyword = entity.is_abstract ? 'abstract class' : 'class';
+    const members = [
+        ...entity.attributes.map(attribute => `+${attribute.name} : ${attribute.type}${attribute.unique ? ' {unique}' : ''}`),
+        ...entity.enumentityatributes.map(attribute => `+${attribute.name} : ${getRef(attribute.type)?.name ?? 'enum'}`),
+        ...entity.functions.map(fn => {
+            const params = getFunctionParameters(fn).map(param => `${param.name} : ${param.type}`).join(', ');
+            return `+${fn.name}(${params}) : ${fn.response}`;
+        })
+    ];
+    return [`${indent}${keyword} "${entity.name}" as ${id} {`, ...members.map(member => `${indent}    ${member}`), `${indent}}`];
+}
+
+function plantUmlEnum(enumeration: EnumX, id: string, indent: string): Array<string> {
+    return [
+        `${indent}enum "${enumeration.name}" as ${id} {`,
+        ...enumeration.attributes.map(value => `${indent}    ${value.name}`),
+        `${indent}}`
+    ];
+}
+
+/**
+ * Renders a model or module as a PlantUML class diagram with one package per
+ * module. Classes are aliased by qualified name, so entities with the same
+ * name in different modules do not collide.
+ */
+export function generatePlantUmlDiagram(target: Model | Module): string {
+    const id = (node: Entity | EnumX) => diagramId(node, {});
+    const lines = ['@startuml'];
+
+    const renderElements = (elements: Array<unknown>, indent: string) => {
+        for (const element of elements) {
+            if (isModule(element)) {
+                lines.push(`${indent}package "${element.name}" {`);
+                renderElements(element.elements, `${indent}    `);
+                lines.push(`${indent}}`);
+            } else if (isLocalEntity(element)) {
+                lines.push(...plantUmlEntity(element, id(element), indent));
+            } else if (isEnumX(element)) {
+                lines.push(...plantUmlEnum(element, id(element), indent));
+            }
+        }
+    };
+    renderElements(isModule(target) ? [target] : target.abstractElements, '');
+
+    const { entities, relations } = contents(target);
+    for (const imported of importedEntities(target, entities)) {
+        lines.push(`class "${imported.name}" as ${id(imported)} <<imported>> #DDDDDD`);
+    }
+    for (const entity of entities) {
+        const superType = entity.superType ? getRef(entity.superType) : undefined;
+        if (superType) {
+            lines.push(`${id(superType)} <|-- ${id(entity)}`);
+        }
+    }
+    for (const relation of relations) {
+        const relationTarget = getRef(relation.type);
+        if (relationTarget) {
+            const [from, to] = plantUmlMultiplicity[relation.$type];
+            lines.push(`${id(relation.$container)} "${from}" --> "${to}" ${id(relationTarget)} : ${relation.name}`);
+        }
+    }
+    for (const entity of entities) {
+        for (const attribute of entity.enumentityatributes) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                lines.push(`${id(entity)} ..> ${id(enumeration)} : ${attribute.name}`);
+            }
+        }
+    }
+    lines.push('@enduml');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,266 @@
+import { Entity, EnumX, Event, Model, Module, Relation, UseCase, getRef, isEnumX, isEvent, isModule, isModuleImport, isUseCase, isUseCasesModel } from "../models/model.js";
+import { LocalEntity, getFunctionParameters, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { getEffectiveActors, getEffectiveEvents } from "../inheritance/effective-members.js";
+import { RelationIndex } from "../relations/relation-index.js";
+import { GeneratedFile } from "./files.js";
+
+const relationLabels: Record<Relation['$type'], string> = {
+    ManyToMany: 'N:N',
+    ManyToOne: 'N:1',
+    OneToMany: '1:N',
+    OneToOne: '1:1'
+};
+
+type Page = Model | Module | LocalEntity | UseCase;
+
+function pagePath(node: Page): string {
+    if (node.$type === 'Model') {
+        return 'index.md';
+    }
+    const folder = isModule(node) ? 'modules' : isLocalEntity(node) ? 'entities' : 'use-cases';
+    return `${folder}/${getQualifiedName(node)}.md`;
+}
+
+function relativeLink(from: Page, to: Page, anchor?: string): string {
+    const source = pagePath(from);
+    const target = pagePath(to);
+    const up = source.includes('/') ? '../' : '';
+    const path = source === target ? '' : `${up}${target}`;
+    return anchor ? `${path}#${anchor}` : path;
+}
+
+function anchorOf(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+}
+
+function cell(text: string | undefined): string {
+    return (text ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function table(headers: Array<string>, rows: Array<Array<string>>): Array<string> {
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.join(' | ')} |`)
+    ];
+}
+
+function entityLink(from: Page, entity: Entity | undefined): string {
+    if (!entity) {
+        return '';
+    }
+    if (isImportedEntity(entity)) {
+        return `\`${getQualifiedName(entity)}\` (imported)`;
+    }
+    return `[${entity.name}](${relativeLink(from, entity)})`;
+}
+
+function enumLink(from: Page, enumeration: EnumX | undefined): string {
+    if (!enumeration) {
+        return '';
+    }
+    const owner = enumeration.$container as Model | Module;
+    return `[${enumeration.name}](${relativeLink(from, owner, anchorOf(enumeration.name))})`;
+}
+
+function constraints(attribute: Attribute): string {
+    const result: Array<string> = [];
+    if (!attribute.blank) result.push('required');
+    if (attribute.unique) result.push('unique');
+    if (attribute.min !== undefined) result.push(`min ${attribute.min}`);
+    if (attribute.max !== undefined) result.push(`max ${attribute.max}`);
+    return result.join(', ');
+}
+
+function enumSection(enumeration: EnumX): Array<string> {
+    return [
+        `### ${enumeration.name}`,
+        '',
+        ...(enumeration.comment ? [enumeration.comment, ''] : []),
+        ...enumeration.attributes.map(value => `- \`${value.name}\`${value.comment ? ` — ${value.comment}` : ''}`),
+        ''
+    ];
+}
+
+function renderIndex(model: Model): string {
+    const configuration = model.configuration;
+    const lines = [`# ${configuration?.name ?? 'Model'}`, ''];
+    if (configuration?.description) {
+        lines.push(configuration.description, '');
+    }
+    const modules = model.abstractElements.filter(isModule);
+    if (modules.length > 0) {
+        lines.push('## Modules', '', ...modules.map(module => `- [${module.name}](${relativeLink(model, module)})${module.comment ? ` — ${module.comment}` : ''}`), '');
+    }
+    const useCaseModels = model.abstractElements.filter(isUseCasesModel);
+    if (useCaseModels.length > 0) {
+        lines.push('## Use Cases', '');
+        for (const useCases of useCaseModels) {
+            lines.push(`### ${useCases.id}`, '', ...(useCases.comment ? [useCases.comment, ''] : []));
+            lines.push(...useCases.elements.filter(isUseCase).map(useCase => `- [${useCase.name_fragment}](${relativeLink(model, useCase)})`), '');
+        }
+    }
+    const imports = model.abstractElements.filter(isModuleImport);
+    if (imports.length > 0) {
+        lines.push('## Imports', '', ...table(['Name', 'Library', 'Package', 'Entities'], imports.map(moduleImport => [
+            cell(moduleImport.name),
+            cell(moduleImport.library),
+            cell(moduleImport.package_path),
+            moduleImport.entities.map(entity => `\`${entity.name}\``).join(', ')
+        ])), '');
+    }
+    const enums = model.abstractElements.filter(isEnumX);
+    if (enums.length > 0) {
+        lines.push('## Enums', '', ...enums.flatMap(enumSection));
+    }
+    return lines.join('\n');
+}
+
+function renderModule(module: Module): string {
+    const lines = [`# Module ${getQualifiedName(module)}`, ''];
+    const parent = module.$container;
+    lines.push(`Up: [${isModule(parent) ? parent.name : 'Index'}](${relativeLink(module, parent)})`, '');
+    if (module.comment) {
+        lines.push(module.comment, '');
+    }
+    const submodules = module.elements.filter(isModule);
+    if (submodules.length > 0) {
+        lines.push('## Modules', '', ...submodules.map(submodule => `- [${submodule.name}](${relativeLink(module, submodule)})`), '');
+    }
+    const entities = module.elements.filter(isLocalEntity);
+    if (entities.length > 0) {
+        lines.push('## Entities', '', ...table(['Entity', 'Description'], entities.map(entity => [
+            `${entityLink(module, entity)}${entity.is_abstract ? ' *(abstract)*' : ''}`,
+            cell(entity.comment)
+        ])), '');
+    }
+    const enums = module.elements.filter(isEnumX);
+    if (enums.length > 0) {
+        lines.push('## Enums', '', ...enums.flatMap(enumSection));
+    }
+    return lines.join('\n');
+}
+
+function renderEntity(entity: LocalEntity, index: RelationIndex): string {
+    const lines = [`# ${entity.name}`, ''];
+    lines.push(`Module: [${getQualifiedName(entity.$container)}](${relativeLink(entity, entity.$container)})`, '');
+    if (entity.is_abstract) {
+        lines.push('*Abstract entity.*', '');
+    }
+    const superType = entity.superType ? getRef(entity.superType) : undefined;
+    if (superType) {
+        lines.push(`Extends: ${entityLink(entity, superType)}`, '');
+    }
+    if (entity.comment) {
+        lines.push(entity.comment, '');
+    }
+    if (entity.attributes.length > 0) {
+        lines.push('## Attributes', '', ...table(['Name', 'Full name', 'Type', 'Constraints', 'Description'], entity.attributes.map(attribute => [
+            `\`${attribute.name}\``,
+            cell(attribute.fullName),
+            `\`${attribute.type}\``,
+            constraints(attribute),
+            cell(attribute.comment)
+        ])), '');
+    }
+    if (entity.enumentityatributes.length > 0) {
+        lines.push('## Enum Attributes', '', ...table(['Name', 'Enum', 'Description'], entity.enumentityatributes.map(attribute => [
+            `\`${attribute.name}\``,
+            enumLink(entity, getRef(attribute.type)),
+            cell(attribute.comment)
+        ])), '');
+    }
+    if (entity.relations.length > 0) {
+        lines.push('## Relations', '', ...table(['Name', 'Full name', 'Cardinality', 'Target', 'Description'], entity.relations.map(relation => [
+            `\`${relation.name}\``,
+            cell(relation.fullName),
+            relationLabels[relation.$type],
+            entityLink(entity, getRef(relation.type)),
+            cell(relation.comment)
+        ])), '');
+    }
+    const incoming = index.getIncoming(entity);
+    if (incoming.length > 0) {
+        lines.push('## Referenced By', '', ...incoming.map(relation =>
+            `- ${entityLink(entity, relation.$container)}.\`${relation.name}\` (${relationLabels[relation.$type]})`
+        ), '');
+    }
+    if (entity.functions.length > 0) {
+        lines.push('## Functions', '', ...entity.functions.map(fn => {
+            const params = getFunctionParameters(fn).map(param => `${param.name}: ${param.type}`).join(', ');
+            return `- \`${fn.name}(${params}): ${fn.response}\`${fn.comment ? ` — ${fn.comment}` : ''}`;
+        }), '');
+    }
+    return lines.join('\n');
+}
+
+/** Orders events so each comes after the events it depends on, keeping declaration order otherwise. */
+export function sortEvents(events: Array<Event>): Array<Event> {
+    const sorted: Array<Event> = [];
+    const visiting = new Set<Event>();
+    const visit = (event: Event) => {
+        if (sorted.includes(event) || visiting.has(event)) {
+            return;
+        }
+        visiting.add(event);
+        event.depends.map(getRef).filter(dependency => events.includes(dependency)).forEach(visit);
+        visiting.delete(event);
+        sorted.push(event);
+    };
+    events.forEach(visit);
+    return sorted;
+}
+
+function renderUseCase(useCase: UseCase): string {
+    const lines = [`# ${useCase.name_fragment}`, '', `Id: \`${getQualifiedName(useCase)}\``, ''];
+    const superType = useCase.superType ? getRef(useCase.superType) : undefined;
+    if (isUseCase(superType)) {
+        lines.push(`Extends: [${superType.name_fragment}](${relativeLink(useCase, superType)})`, '');
+    }
+    if (useCase.description ?? useCase.comment) {
+        lines.push((useCase.description ?? useCase.comment)!, '');
+    }
+    const actors = getEffectiveActors(useCase);
+    if (actors.length > 0) {
+        lines.push('## Actors', '', ...actors.map(actor => `- ${actor.fullName ?? actor.id}`), '');
+    }
+    const events = sortEvents(getEffectiveEvents(useCase));
+    if (events.length > 0) {
+        lines.push('## Events', '');
+        events.forEach((event, position) => {
+            const depends = event.depends.map(getRef).filter(isEvent).map(dependency => `[${dependency.id}](#${anchorOf(dependency.id)})`);
+            lines.push(`${position + 1}. <a id="${anchorOf(event.id)}"></a>**${event.id}**${event.action ? ` — ${event.action}` : ''}`);
+            if (event.description) {
+                lines.push(`   - ${event.description}`);
+            }
+            if (depends.length > 0) {
+                lines.push(`   - Depends on: ${depends.join(', ')}`);
+            }
+        });
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Generates a Markdown documentation site: an `index.md` built from the
+ * `Configuration`, one page per `Module`, `LocalEntity` and `UseCase`, all
+ * cross-linked by qualified name.
+ */
+export function generateDocs(model: Model): Array<GeneratedFile> {
+    const index = new RelationIndex(model);
+    const files: Array<GeneratedFile> = [{ path: pagePath(model), content: renderIndex(model) }];
+    for (const module of getAllContentsOfType(model, isModule)) {
+        files.push({ path: pagePath(module), content: renderModule(module) });
+    }
+    for (const entity of getAllContentsOfType(model, isLocalEntity)) {
+        files.push({ path: pagePath(entity), content: renderEntity(entity, index) });
+    }
+    for (const useCase of getAllContentsOfType(model, isUseCase)) {
+        files.push({ path: pagePath(useCase), content: renderUseCase(useCase) });
+    }
+    return files;
+}
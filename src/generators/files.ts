@@ -0,0 +1,5 @@
+/** A file produced by a generator, with a path relative to the output directory. */
+export interface GeneratedFile {
+    path: string;
+    content: string;
+}
@@ -0,0 +1,296 @@
+import { DATATYPE, Model, getRef } from "../models/model.js";
+import { Attribute, isAttribute } from "../models/atribute.js";
+import { getAttributeSchema } from "./json-schema.js";
+import { SqlColumn, SqlDialect, SqlTable, createSqlSchema, resolveSqlDialect } from "./sql.js";
+import { appendCheckDigits } from "../validation/values.js";
+import { splitWords } from "./naming.js";
+
+export interface FixtureOptions {
+    /** Records per entity; defaults to 10. */
+    count?: number;
+    /** Seed of the pseudo-random generator; the same seed always yields the same records. Defaults to 1. */
+    seed?: number;
+    /** Defaults to the dialect named by `Configuration.database_name`, then to PostgreSQL. */
+    dialect?: SqlDialect;
+}
+
+export type FixtureRow = Record<string, string | number | boolean | null>;
+
+export interface TableFixtures {
+    table: SqlTable;
+    /** Rows keyed by column name. */
+    rows: Array<FixtureRow>;
+}
+
+const firstNames = ['Ana', 'Bruno', 'Carla', 'Daniel', 'Eduarda', 'Felipe', 'Gabriela', 'Henrique', 'Isabela', 'João', 'Larissa', 'Marcos', 'Natália', 'Otávio', 'Paula', 'Rafael', 'Sofia', 'Thiago', 'Vitória', 'Yuri'];
+const lastNames = ['Almeida', 'Barbosa', 'Cardoso', 'Costa', 'Ferreira', 'Gomes', 'Lima', 'Martins', 'Oliveira', 'Pereira', 'Ribeiro', 'Rocha', 'Santos', 'Silva', 'Souza'];
+const words = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua'];
+/** Area codes of the largest Brazilian cities. */
+const areaCodes = ['11', '21', '27', '31', '41', '47', '48', '51', '61', '62', '71', '81', '85', '91', '92'];
+
+/** Attempts at a value not yet taken before a unique column gives up. */
+const uniqueAttempts = 100;
+/** Most targets linked to each source row of a join table. */
+const maxLinks = 3;
+
+/** Mulberry32: small, fast and the same on every platform. */
+class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let value = this.state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Integer between `min` and `max`, both included. */
+    integer(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    pick<T>(values: Array<T>): T {
+        return values[this.integer(0, values.length - 1)];
+    }
+
+    digits(length: number): string {
+        return Array.from({ length }, () => this.integer(0, 9)).join('');
+    }
+
+    shuffle<T>(values: Array<T>): Array<T> {
+        const result = [...values];
+        for (let position = result.length - 1; position > 0; position--) {
+            const other = this.integer(0, position);
+            [result[position], result[other]] = [result[other], result[position]];
+        }
+        return result;
+    }
+}
+
+function removeAccents(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Pads with letters or cuts a text to fit between `min` and `max` characters. */
+function fitLength(text: string, min = 0, max = Infinity): string {
+    let result = text.length > max ? text.slice(0, max).trimEnd() : text;
+    while (result.length < min) {
+        result += 'x';
+    }
+    return result;
+}
+
+/** Tables ordered so every table comes after the tables its foreign keys reference; cycles keep document order. */
+function dependencyOrder(tables: Array<SqlTable>): Array<SqlTable> {
+    const ordered: Array<SqlTable> = [];
+    const pending = [...tables];
+    while (pending.length > 0) {
+        const ready = pending.find(table => table.foreignKeys.every(foreignKey =>
+            foreignKey.referencedTable === table.name
+            || ordered.some(done => done.name === foreignKey.referencedTable)
+            || !pending.some(other => other.name === foreignKey.referencedTable)));
+        const next = ready ?? pending[0];
+        ordered.push(next);
+        pending.splice(pending.indexOf(next), 1);
+    }
+    return ordered;
+}
+
+class FixtureGenerator {
+    private readonly random: Random;
+    private readonly filled = new Map<string, Array<FixtureRow>>();
+
+    constructor(private readonly model: Model, private readonly count: number, seed: number, private readonly dialect: SqlDialect) {
+        this.random = new Random(seed);
+    }
+
+    generate(): Array<TableFixtures> {
+        const tables = dependencyOrder(createSqlSchema(this.model, this.dialect));
+        return tables.map(table => {
+            const rows = table.entity ? this.entityRows(table) : this.joinRows(table);
+            this.filled.set(table.name, rows);
+            return { table, rows };
+        });
+    }
+
+    private entityRows(table: SqlTable): Array<FixtureRow> {
+        const rows: Array<FixtureRow> = Array.from({ length: this.count }, () => ({}));
+        for (const column of table.columns) {
+            const member = column.member;
+            const primary = table.primaryKey.includes(column.name);
+            if (!member) {
+                rows.forEach((row, position) => row[column.name] = position + 1);
+            } else if (isAttribute(member)) {
+                this.fill(table, column, rows, () => this.attributeValue(member), column.unique || primary);
+            } else if (member.$type === 'EnumEntityAtribute') {
+                const values = getRef(member.type)?.attributes.map(value => value.name) ?? [];
+                rows.forEach(row => row[column.name] = values.length > 0 ? this.random.pick(values) : null);
+            } else {
+                this.foreignKey(table, column, rows);
+            }
+        }
+        return rows;
+    }
+
+    /** Fills a column, drawing again while a unique column repeats a value. */
+    private fill(table: SqlTable, column: SqlColumn, rows: Array<FixtureRow>, value: () => string | number | boolean, unique: boolean): void {
+        const taken = new Set<string | number | boolean>();
+        for (const row of rows) {
+            let candidate = value();
+            for (let attempt = 1; unique && taken.has(candidate); attempt++) {
+                if (attempt === uniqueAttempts) {
+                    throw new Error(`Cannot generate ${rows.length} unique values for column '${table.name}.${column.name}'`);
+                }
+                candidate = value();
+            }
+            taken.add(candidate);
+            row[column.name] = candidate;
+        }
+    }
+
+    /** Keys of the rows already generated for the table a foreign key column references. */
+    private referencedKeys(table: SqlTable, column: SqlColumn): Array<string | number | boolean | null> | undefined {
+        const foreignKey = table.foreignKeys.find(candidate => candidate.column === column.name);
+        const rows = foreignKey ? this.filled.get(foreignKey.referencedTable) : undefined;
+        return rows?.map(row => row[foreignKey!.referencedColumn]);
+    }
+
+    /**
+     * References a random row of the target table; unique columns never reuse a
+     * row. A table referencing itself points at the rows before each row, and
+     * references that cannot be filled are left null.
+     */
+    private foreignKey(table: SqlTable, column: SqlColumn, rows: Array<FixtureRow>): void {
+        const foreignKey = table.foreignKeys.find(candidate => candidate.column === column.name);
+        if (foreignKey?.referencedTable === table.name) {
+            rows.forEach((row, position) => {
+                const earlier = rows.slice(0, position).map(other => other[foreignKey.referencedColumn]);
+                row[column.name] = earlier.length === 0 ? null : column.unique ? earlier[earlier.length - 1] : this.random.pick(earlier);
+            });
+        } else {
+            const keys = this.referencedKeys(table, column) ?? [];
+            const available = column.unique ? this.random.shuffle(keys) : keys;
+            rows.forEach((row, position) => {
+                row[column.name] = column.unique ? available[position] ?? null : keys.length > 0 ? this.random.pick(keys) : null;
+            });
+        }
+        if (!column.nullable && rows.some(row => row[column.name] === null)) {
+            throw new Error(`Cannot fill column '${table.name}.${column.name}': the table it references has no rows yet`);
+        }
+    }
+
+    /** Links each source row of a join table to up to three distinct target rows. */
+    private joinRows(table: SqlTable): Array<FixtureRow> {
+        const [source, target] = table.columns;
+        const sources = this.referencedKeys(table, source) ?? [];
+        const targets = this.referencedKeys(table, target) ?? [];
+        return sources.flatMap(sourceKey => this.random
+            .shuffle(targets)
+            .slice(0, this.random.integer(1, Math.min(maxLinks, targets.length)))
+            .map(targetKey => ({ [source.name]: sourceKey, [target.name]: targetKey })));
+    }
+
+    private attributeValue(attribute: Attribute): string | number | boolean {
+        const schema = getAttributeSchema(attribute);
+        const random = this.random;
+        switch (attribute.type as Exclude<DATATYPE, 'void'>) {
+            case 'boolean':
+                return random.next() < 0.5;
+            case 'cpf':
+                return this.document(9, 'cpf');
+            case 'cnpj':
+                return this.document(12, 'cnpj');
+            case 'zipcode':
+                return String(random.integer(1000000, 99999999)).padStart(8, '0');
+            case 'mobilePhoneNumber':
+                return this.phone(`9${random.digits(8)}`, schema.minLength);
+            case 'phoneNumber':
+                return this.phone(`${random.integer(2, 8)}${random.digits(7)}`, schema.minLength);
+            case 'email':
+                return this.email(schema.minLength, schema.maxLength);
+            case 'string':
+                return fitLength(this.text(attribute), schema.minLength, schema.maxLength);
+            case 'uuid':
+                return this.uuid();
+            case 'date':
+                return new Date(Date.UTC(1960, 0, 1) + random.integer(0, 66 * 365) * 86400000).toISOString().slice(0, 10);
+            case 'datetime':
+                return new Date(Date.UTC(2020, 0, 1) + random.integer(0, 6 * 365 * 86400) * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+            case 'file':
+                return btoa(String.fromCharCode(...Array.from({ length: random.integer(8, 32) }, () => random.integer(0, 255))));
+            case 'integer':
+                return this.number(schema.minimum, schema.maximum, 1);
+            case 'currency':
+                return this.number(schema.minimum, schema.maximum, 100);
+            case 'decimal':
+                return this.number(schema.minimum, schema.maximum, 10000);
+        }
+    }
+
+    /** A CPF or CNPJ with valid check digits; bases with every digit equal are drawn again. */
+    private document(length: number, kind: 'cpf' | 'cnpj'): string {
+        let base = this.random.digits(length);
+        while (/^(\d)\1*$/.test(base)) {
+            base = this.random.digits(length);
+        }
+        return appendCheckDigits(base, kind);
+    }
+
+    /** Digits only, with the `+55` prefix when `min` asks for more digits. */
+    private phone(number: string, min = 0): string {
+        const phone = `${this.random.pick(areaCodes)}${number}`;
+        return phone.length < min ? `+55${phone}` : phone;
+    }
+
+    private email(min?: number, max?: number): string {
+        const domain = '@example.com';
+        const local = removeAccents(`${this.random.pick(firstNames)}.${this.random.pick(lastNames)}${this.random.integer(1, 999)}`).toLowerCase();
+        return fitLength(local, (min ?? 0) - domain.length, (max ?? Infinity) - domain.length) + domain;
+    }
+
+    /** A person's name for attributes named like one, a few words otherwise. */
+    private text(attribute: Attribute): string {
+        if (splitWords(attribute.name).some(word => word === 'name' || word === 'nome')) {
+            return `${this.random.pick(firstNames)} ${this.random.pick(lastNames)}`;
+        }
+        const text = Array.from({ length: this.random.integer(2, 5) }, () => this.random.pick(words)).join(' ');
+        return text.charAt(0).toUpperCase() + text.substring(1);
+    }
+
+    private uuid(): string {
+        const hex = Array.from({ length: 32 }, () => this.random.integer(0, 15).toString(16));
+        hex[12] = '4';
+        hex[16] = (8 + this.random.integer(0, 3)).toString(16);
+        const text = hex.join('');
+        return `${text.slice(0, 8)}-${text.slice(8, 12)}-${text.slice(12, 16)}-${text.slice(16, 20)}-${text.slice(20)}`;
+    }
+
+    /** A number between `min` and `max` with `scale` steps per unit; 0 to 1000 when unbounded. */
+    private number(min: number | undefined, max: number | undefined, scale: number): number {
+        const low = min ?? (max !== undefined && max < 0 ? max - 1000 : 0);
+        const high = max ?? low + 1000;
+        return this.random.integer(Math.ceil(low * scale), Math.floor(high * scale)) / scale;
+    }
+}
+
+/**
+ * Generates deterministic sample records for a model, one table at a time in
+ * the layout of `generateSql`, so they can seed the databases of the generated
+ * backends. Each concrete `LocalEntity` gets `count` rows whose values pass
+ * `validateValue`: CPFs and CNPJs with valid check digits, Brazilian phone
+ * numbers and CEPs, values within `min` and `max`, distinct values for `unique`
+ * attributes and enum values by name. Tables come after the tables they
+ * reference, and foreign keys only point at rows generated before them.
+ */
+export function generateFixtures(model: Model, options: FixtureOptions = {}): Array<TableFixtures> {
+    const count = options.count ?? 10;
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`Fixture count must be a non-negative integer, got ${count}`);
+    }
+    return new FixtureGenerator(model, count, options.seed ?? 1, options.dialect ?? resolveSqlDialect(model)).generate();
+}
@@ -0,0 +1,218 @@
+import { DATATYPE, Entity, EnumX, Model, Relation, getRef, isEnumX, isModuleImport } from "../models/model.js";
+import { FunctionEntity, LocalEntity, getFunctionParameters, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes, getEffectiveFunctions, getEffectiveRelations, getSuperTypes } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { toCamelCase, toPascalCase, toPlural, toSnakeCase } from "./naming.js";
+
+/** GraphQL type of each data type; the custom scalars are declared by `graphQLScalars`. */
+export const graphQLTypes: Record<Exclude<DATATYPE, 'void'>, string> = {
+    boolean: 'Boolean', cnpj: 'CNPJ', cpf: 'CPF', currency: 'Currency', date: 'Date', datetime: 'DateTime',
+    decimal: 'Float', email: 'String', file: 'String', integer: 'Int', mobilePhoneNumber: 'String',
+    phoneNumber: 'String', string: 'String', uuid: 'UUID', zipcode: 'String'
+};
+
+/** Custom scalars with their descriptions, in the order they are declared. */
+export const graphQLScalars: Record<string, string> = {
+    CPF: 'CPF with 11 digits and no punctuation.',
+    CNPJ: 'CNPJ with 14 digits and no punctuation.',
+    Currency: 'Monetary amount with two decimal places.',
+    UUID: 'UUID as defined by RFC 4122.',
+    Date: 'Calendar date as YYYY-MM-DD (RFC 3339 full-date).',
+    DateTime: 'Date and time as defined by RFC 3339.'
+};
+
+/** Functions whose name starts with one of these words and that return a value are queries; the others are mutations. */
+const queryPrefixes = ['get', 'find', 'list', 'search', 'count', 'is', 'has'];
+
+function description(text: string | undefined, indent = ''): Array<string> {
+    if (text === undefined) {
+        return [];
+    }
+    if (!/\r?\n/.test(text)) {
+        return [`${indent}${JSON.stringify(text)}`];
+    }
+    const lines = text.replace(/"""/g, '\\"""').split(/\r?\n/);
+    return [`${indent}"""`, ...lines.map(line => `${indent}${line}`), `${indent}"""`];
+}
+
+function block(header: string, fields: Array<Array<string>>): Array<string> {
+    return [header + ' {', ...fields.flat(), '}'];
+}
+
+function isQuery(fn: FunctionEntity): boolean {
+    const words = toSnakeCase(fn.name).split('_');
+    return fn.response !== 'void' && queryPrefixes.includes(words[0]);
+}
+
+function isKey(attribute: Attribute): boolean {
+    return toSnakeCase(attribute.name) === 'id';
+}
+
+class GraphQLSchema {
+    private readonly scalars = new Set<string>();
+    private readonly queries: Array<Array<string>> = [];
+    private readonly mutations: Array<Array<string>> = [];
+    private readonly names = new Map<Entity | EnumX, string>();
+
+    constructor(private readonly model: Model) {}
+
+    generate(): string {
+        const imports = this.model.abstractElements.filter(isModuleImport);
+        const enums = getAllContentsOfType(this.model, isEnumX);
+        const entities = getAllContentsOfType(this.model, isLocalEntity);
+        this.name([...enums, ...imports.flatMap(moduleImport => moduleImport.entities), ...entities]);
+
+        const parts: Array<Array<string>> = [
+            ...enums.map(enumeration => this.enumeration(enumeration)),
+            ...imports.flatMap(moduleImport => moduleImport.entities.map(entity => [
+                `"\`${entity.name}\` from \`${moduleImport.library}\` (${moduleImport.package_path})."`,
+                `type ${this.nameOf(entity)} @key(fields: "id", resolvable: false) {`,
+                '  id: ID!',
+                '}'
+            ])),
+            ...entities.map(entity => this.objectType(entity)),
+            ...entities.filter(entity => !entity.is_abstract).flatMap(entity => this.inputType(entity))
+        ];
+        for (const entity of entities.filter(entity => !entity.is_abstract)) {
+            this.operations(entity);
+        }
+        if (this.queries.length > 0) {
+            parts.push(block('type Query', this.queries));
+        }
+        if (this.mutations.length > 0) {
+            parts.push(block('type Mutation', this.mutations));
+        }
+
+        const header: Array<Array<string>> = [];
+        if (imports.some(moduleImport => moduleImport.entities.length > 0)) {
+            header.push(['extend schema @link(url: "https://specs.apollo.dev/federation/v2.3", import: ["@key"])']);
+        }
+        header.push(...Object.entries(graphQLScalars)
+            .filter(([name]) => this.scalars.has(name))
+            .map(([name, text]) => [...description(text), `scalar ${name}`]));
+        return [...header, ...parts].map(part => part.join('\n')).join('\n\n') + '\n';
+    }
+
+    /** Types share one namespace, so same-named declarations are named after their qualified names (`SalesCustomer`). */
+    private name(declarations: Array<Entity | EnumX>): void {
+        for (const declaration of declarations) {
+            const clashes = declarations.some(other => other !== declaration && other.name === declaration.name);
+            this.names.set(declaration, clashes ? toPascalCase(getQualifiedName(declaration) ?? declaration.name) : declaration.name);
+        }
+    }
+
+    private nameOf(declaration: Entity | EnumX): string {
+        return this.names.get(declaration) ?? declaration.name;
+    }
+
+    private type(type: Exclude<DATATYPE, 'void'>): string {
+        const name = graphQLTypes[type];
+        if (name in graphQLScalars) {
+            this.scalars.add(name);
+        }
+        return name;
+    }
+
+    private enumeration(enumeration: EnumX): Array<string> {
+        return [
+            ...description(enumeration.comment),
+            ...block(`enum ${this.nameOf(enumeration)}`, enumeration.attributes.map(value => [
+                ...description(value.comment ?? value.fullName, '  '),
+                `  ${value.name}`
+            ]))
+        ];
+    }
+
+    /** Abstract entities become interfaces, implemented by every entity that extends them. */
+    private objectType(entity: LocalEntity): Array<string> {
+        const interfaces = getSuperTypes(entity).filter(superType => isLocalEntity(superType) && superType.is_abstract).map(superType => this.nameOf(superType));
+        const keyword = entity.is_abstract ? 'interface' : 'type';
+        const implementation = interfaces.length > 0 ? ` implements ${interfaces.join(' & ')}` : '';
+        const fields: Array<Array<string>> = [['  id: ID!']];
+        for (const attribute of getEffectiveAttributes(entity).filter(attribute => attribute.type !== 'void' && !isKey(attribute))) {
+            fields.push([
+                ...description(attribute.comment ?? attribute.fullName, '  '),
+                `  ${attribute.name}: ${this.type(attribute.type as Exclude<DATATYPE, 'void'>)}${attribute.blank ? '' : '!'}`
+            ]);
+        }
+        for (const attribute of getEffectiveEnumAttributes(entity)) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                fields.push([...description(attribute.comment, '  '), `  ${attribute.name}: ${this.nameOf(enumeration)}`]);
+            }
+        }
+        for (const relation of getEffectiveRelations(entity)) {
+            const target = getRef(relation.type);
+            if (target) {
+                fields.push([...description(relation.comment ?? relation.fullName, '  '), `  ${relation.name}: ${this.relationType(relation, target)}`]);
+            }
+        }
+        return [...description(entity.comment), ...block(`${keyword} ${this.nameOf(entity)}${implementation}`, fields)];
+    }
+
+    private relationType(relation: Relation, target: Entity): string {
+        const name = this.nameOf(target);
+        return targetCardinality[relation.$type] === 'many' ? `[${name}!]!` : name;
+    }
+
+    /** Input of `create` and `update`: relations are set by the key of their targets. */
+    private inputType(entity: LocalEntity): Array<Array<string>> {
+        const fields = this.inputFields(entity);
+        return fields.length > 0 ? [block(`input ${this.nameOf(entity)}Input`, fields)] : [];
+    }
+
+    private inputFields(entity: LocalEntity): Array<Array<string>> {
+        const fields: Array<Array<string>> = [];
+        for (const attribute of getEffectiveAttributes(entity).filter(attribute => attribute.type !== 'void' && !isKey(attribute))) {
+            fields.push([`  ${attribute.name}: ${this.type(attribute.type as Exclude<DATATYPE, 'void'>)}${attribute.blank ? '' : '!'}`]);
+        }
+        for (const attribute of getEffectiveEnumAttributes(entity)) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                fields.push([`  ${attribute.name}: ${this.nameOf(enumeration)}`]);
+            }
+        }
+        for (const relation of getEffectiveRelations(entity)) {
+            fields.push([targetCardinality[relation.$type] === 'many' ? `  ${relation.name}Ids: [ID!]` : `  ${relation.name}Id: ID`]);
+        }
+        return fields;
+    }
+
+    private operations(entity: LocalEntity): void {
+        const name = this.nameOf(entity);
+        const single = toCamelCase(name);
+        const hasInput = this.inputFields(entity).length > 0;
+        this.queries.push([`  ${single}(id: ID!): ${name}`], [`  ${toCamelCase(toPlural(name))}: [${name}!]!`]);
+        this.mutations.push([`  create${name}${hasInput ? `(input: ${name}Input!)` : ''}: ${name}!`]);
+        if (hasInput) {
+            this.mutations.push([`  update${name}(id: ID!, input: ${name}Input!): ${name}`]);
+        }
+        this.mutations.push([`  delete${name}(id: ID!): Boolean!`]);
+        for (const fn of getEffectiveFunctions(entity)) {
+            const parameters = getFunctionParameters(fn).map(element => `${element.name}: ${this.type(element.type as Exclude<DATATYPE, 'void'>)}!`);
+            // GraphQL has no empty result type, so functions returning `void` return `Boolean`.
+            const field = [
+                ...description(fn.comment, '  '),
+                `  ${single}${toPascalCase(fn.name)}(${['id: ID!', ...parameters].join(', ')}): ${fn.response === 'void' ? 'Boolean' : this.type(fn.response)}`
+            ];
+            (isQuery(fn) ? this.queries : this.mutations).push(field);
+        }
+    }
+}
+
+/**
+ * Generates a GraphQL SDL schema for a model. Each `LocalEntity` becomes an
+ * object type (an interface when abstract) with an input type of the same
+ * name plus `Input`, each `EnumX` an enum and each `ImportedEntity` a
+ * federation stub resolved by its own service. Declarations sharing a name
+ * across modules are named after their qualified names (`SalesCustomer`). Every concrete entity gets get
+ * and list queries and create, update and delete mutations; each function
+ * becomes a query when it returns a value and its name starts with `get`,
+ * `find`, `list`, `search`, `count`, `is` or `has`, and a mutation otherwise.
+ */
+export function generateGraphQL(model: Model): string {
+    return new GraphQLSchema(model).generate();
+}
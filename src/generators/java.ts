@@ -0,0 +1,368 @@
+import { DATATYPE, Entity, EnumX, getRef, isEnumX } from "../models/model.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { LocalEntity, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes, getEffectiveRelations, getSuperTypes } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { CodeContext, LanguageGenerator, RelationMapping, getEntityKey, getEntityName, getLocalSuperType, getModuleSegments, getRelationMappings, getTable } from "./code-model.js";
+import { getDataTypeSchema } from "./json-schema.js";
+import { getTableName } from "./sql.js";
+import { GeneratedFile } from "./files.js";
+import { toCamelCase, toPascalCase, toSnakeCase } from "./naming.js";
+
+/** Java type of each data type; types outside `java.lang` are listed in `javaTypeImports`. */
+export const javaTypes: Record<DATATYPE, string> = {
+    boolean: 'Boolean', cnpj: 'String', cpf: 'String', currency: 'BigDecimal', date: 'LocalDate', datetime: 'LocalDateTime',
+    decimal: 'BigDecimal', email: 'String', file: 'byte[]', integer: 'Integer', mobilePhoneNumber: 'String',
+    phoneNumber: 'String', string: 'String', uuid: 'UUID', void: 'void', zipcode: 'String'
+};
+
+export const javaTypeImports: Partial<Record<string, string>> = {
+    BigDecimal: 'java.math.BigDecimal',
+    LocalDate: 'java.time.LocalDate',
+    LocalDateTime: 'java.time.LocalDateTime',
+    UUID: 'java.util.UUID'
+};
+
+const textTypes: Array<DATATYPE> = ['email', 'mobilePhoneNumber', 'phoneNumber', 'string'];
+const decimalTypes: Array<DATATYPE> = ['currency', 'decimal'];
+
+/** Package of a declaration: `package_path`, then the lower-cased module names. */
+function packageOf(node: LocalEntity | EnumX, context: CodeContext): string {
+    return [...context.packageSegments, ...getModuleSegments(node).map(segment => segment.toLowerCase())].join('.');
+}
+
+function sourcePath(packageName: string, className: string): string {
+    return `src/main/java/${packageName.replace(/\./g, '/')}/${className}.java`;
+}
+
+function qualifiedClass(node: Entity | EnumX, context: CodeContext): string {
+    return isImportedEntity(node)
+        ? `${node.$container.package_path}.${node.name}`
+        : `${packageOf(node, context)}.${node.name}`;
+}
+
+function javadoc(text: string | undefined, indent = ''): Array<string> {
+    return text === undefined ? [] : [`${indent}/** ${text.replace(/\*\//g, '*&#47;').replace(/\r?\n/g, ' ')} */`];
+}
+
+function keyType(entity: Entity): string {
+    const key = isImportedEntity(entity) ? undefined : getEntityKey(entity).attribute;
+    return key ? javaTypes[key.type] : 'Long';
+}
+
+const sharedNames = new WeakMap<CodeContext, Set<string>>();
+
+/** Class names declared more than once in the model; other packages refer to those fully qualified. */
+function getSharedNames(context: CodeContext): Set<string> {
+    let names = sharedNames.get(context);
+    if (!names) {
+        const declared = getAllContentsOfType(context.model, (item: unknown): item is Entity | EnumX => isLocalEntity(item) || isImportedEntity(item) || isEnumX(item))
+            .map(node => node.name);
+        names = new Set(declared.filter((name, position) => declared.indexOf(name) !== position));
+        sharedNames.set(context, names);
+    }
+    return names;
+}
+
+class JavaFile {
+    private readonly imports = new Set<string>();
+
+    constructor(readonly packageName: string, private readonly context: CodeContext) {}
+
+    import(name: string): void {
+        if (name.substring(0, name.lastIndexOf('.')) !== this.packageName) {
+            this.imports.add(name);
+        }
+    }
+
+    /** Simple name of a type, importing it when needed. */
+    use(node: Entity | EnumX | DATATYPE): string {
+        if (typeof node === 'string') {
+            const type = javaTypes[node];
+            const qualified = javaTypeImports[type];
+            if (qualified) {
+                this.import(qualified);
+            }
+            return type;
+        }
+        const qualified = qualifiedClass(node, this.context);
+        if (qualified.substring(0, qualified.lastIndexOf('.')) !== this.packageName && getSharedNames(this.context).has(node.name)) {
+            return qualified;
+        }
+        this.import(qualified);
+        return node.name;
+    }
+
+    render(className: string, body: Array<string>): GeneratedFile {
+        const imports = [...this.imports].sort();
+        const header = [`package ${this.packageName};`, ''];
+        if (imports.length > 0) {
+            header.push(...imports.map(name => `import ${name};`), '');
+        }
+        return { path: sourcePath(this.packageName, className), content: [...header, ...body].join('\n') + '\n' };
+    }
+}
+
+/** Concrete entity at the top of a `TABLE_PER_CLASS` hierarchy: it has concrete subtypes and no concrete supertype. */
+function isTablePerClassRoot(entity: LocalEntity, context: CodeContext): boolean {
+    if (entity.is_abstract || getSuperTypes(entity).some(superType => isLocalEntity(superType) && !superType.is_abstract)) {
+        return false;
+    }
+    return context.tables.some(table => table.entity && table.entity !== entity && getLocalSuperType(table.entity) === entity);
+}
+
+/**
+ * Key generation of the entity declaring the generated key. Hibernate rejects
+ * `IDENTITY` under `TABLE_PER_CLASS`, whose tables must share one key space,
+ * so those hierarchies draw their keys from a sequence named after the entity.
+ */
+function generatedValue(entity: LocalEntity, context: CodeContext): Array<string> {
+    const tablePerClass = context.tables.some(table => table.entity && isTablePerClassRoot(table.entity, context)
+        && (table.entity === entity || getSuperTypes(table.entity).includes(entity)));
+    if (!tablePerClass) {
+        return ['    @GeneratedValue(strategy = GenerationType.IDENTITY)'];
+    }
+    const sequence = `${getTableName(entity)}_seq`;
+    return [
+        `    @GeneratedValue(strategy = GenerationType.SEQUENCE, generator = "${sequence}")`,
+        `    @SequenceGenerator(name = "${sequence}", sequenceName = "${sequence}", allocationSize = 1)`
+    ];
+}
+
+/** `@Entity`, named after the qualified name when another entity has the same class name. */
+function entityAnnotation(entity: LocalEntity, context: CodeContext): string {
+    const name = getEntityName(entity, context);
+    return name === entity.name ? '@Entity' : `@Entity(name = "${name}")`;
+}
+
+function getterAndSetter(type: string, name: string): Array<string> {
+    const accessor = toPascalCase(name);
+    return [
+        `    public ${type} get${accessor}() {`,
+        `        return ${name};`,
+        '    }',
+        '',
+        `    public void set${accessor}(${type} ${name}) {`,
+        `        this.${name} = ${name};`,
+        '    }'
+    ];
+}
+
+function columnAnnotation(attribute: Attribute): string {
+    const options = [`name = "${toSnakeCase(attribute.name)}"`];
+    if (!attribute.blank) options.push('nullable = false');
+    if (attribute.unique) options.push('unique = true');
+    if (textTypes.includes(attribute.type) && attribute.max !== undefined) options.push(`length = ${attribute.max}`);
+    if (attribute.type === 'currency') options.push('precision = 19, scale = 2');
+    if (attribute.type === 'decimal') options.push('precision = 19, scale = 4');
+    return `@Column(${options.join(', ')})`;
+}
+
+function relationField(file: JavaFile, mapping: RelationMapping): Array<string> {
+    const target = mapping.target!;
+    const name = toCamelCase(mapping.relation.name);
+    const type = file.use(target);
+    const annotation = mapping.relation.$type;
+    const lines = javadoc(mapping.relation.comment, '    ');
+    if (mapping.mappedBy) {
+        lines.push(`    @${annotation}(mappedBy = "${toCamelCase(mapping.mappedBy.name)}")`);
+    } else {
+        lines.push(`    @${annotation}`);
+    }
+    if (mapping.joinColumn) {
+        lines.push(`    @JoinColumn(name = "${mapping.joinColumn}"${annotation === 'OneToOne' ? ', unique = true' : ''})`);
+    } else if (mapping.targetColumn) {
+        lines.push(`    @JoinColumn(name = "${mapping.targetColumn}")`);
+    } else if (mapping.joinTable) {
+        const { name: table, sourceColumn, targetColumn } = mapping.joinTable;
+        lines.push(`    @JoinTable(name = "${table}", joinColumns = @JoinColumn(name = "${sourceColumn}"), inverseJoinColumns = @JoinColumn(name = "${targetColumn}"))`);
+    }
+    if (mapping.many) {
+        file.import('java.util.ArrayList');
+        file.import('java.util.List');
+        lines.push(`    private List<${type}> ${name} = new ArrayList<>();`);
+    } else {
+        lines.push(`    private ${type} ${name};`);
+    }
+    return lines;
+}
+
+/** Bean Validation constraints mirroring `min`, `max`, `blank` and the data type patterns. */
+function constraints(file: JavaFile, attribute: Attribute): Array<string> {
+    const annotations: Array<string> = [];
+    const use = (name: string) => {
+        file.import(`jakarta.validation.constraints.${name}`);
+        return `@${name}`;
+    };
+    if (!attribute.blank) annotations.push(use('NotNull'));
+    if (textTypes.includes(attribute.type) && (attribute.min !== undefined || attribute.max !== undefined)) {
+        const bounds = [
+            ...(attribute.min !== undefined ? [`min = ${attribute.min}`] : []),
+            ...(attribute.max !== undefined ? [`max = ${attribute.max}`] : [])
+        ];
+        annotations.push(`${use('Size')}(${bounds.join(', ')})`);
+    } else if (attribute.type === 'integer') {
+        if (attribute.min !== undefined) annotations.push(`${use('Min')}(${attribute.min})`);
+        if (attribute.max !== undefined) annotations.push(`${use('Max')}(${attribute.max})`);
+    } else if (decimalTypes.includes(attribute.type)) {
+        if (attribute.min !== undefined) annotations.push(`${use('DecimalMin')}("${attribute.min}")`);
+        if (attribute.max !== undefined) annotations.push(`${use('DecimalMax')}("${attribute.max}")`);
+    }
+    if (attribute.type === 'email') annotations.push(use('Email'));
+    const pattern = getDataTypeSchema(attribute.type).pattern;
+    if (pattern) annotations.push(`${use('Pattern')}(regexp = ${JSON.stringify(pattern)})`);
+    return annotations;
+}
+
+function blocks(parts: Array<Array<string>>): Array<string> {
+    return parts.flatMap((part, position) => position > 0 ? ['', ...part] : part);
+}
+
+/**
+ * JPA (Jakarta Persistence) entities, Java record DTOs and Spring Data
+ * repositories. Abstract entities become `@MappedSuperclass`es and concrete
+ * supertypes use `TABLE_PER_CLASS`, matching the tables of `generateSql`;
+ * their generated keys come from a sequence, which `generateSql` does not create.
+ */
+export const javaGenerator: LanguageGenerator = {
+    enumeration(enumeration, context) {
+        const file = new JavaFile(packageOf(enumeration, context), context);
+        const values = enumeration.attributes;
+        return [file.render(enumeration.name, [
+            ...javadoc(enumeration.comment),
+            `public enum ${enumeration.name} {`,
+            ...values.flatMap((value, position) => [
+                ...javadoc(value.comment ?? value.fullName, '    '),
+                `    ${value.name}${position < values.length - 1 ? ',' : ''}`
+            ]),
+            '}'
+        ])];
+    },
+
+    entity(entity, context) {
+        const file = new JavaFile(packageOf(entity, context), context);
+        file.import('jakarta.persistence.*');
+        const superType = entity.superType ? getRef(entity.superType) : undefined;
+        const fields: Array<Array<string>> = [];
+        const accessors: Array<Array<string>> = [];
+        const field = (type: string, name: string, lines: Array<string>) => {
+            fields.push(lines);
+            accessors.push(getterAndSetter(type, name));
+        };
+
+        if (!getLocalSuperType(entity)) {
+            const key = getEntityKey(entity);
+            const type = key.attribute ? file.use(key.attribute.type) : 'Long';
+            const name = toCamelCase(key.name);
+            field(type, name, [
+                '    @Id',
+                ...(key.attribute ? [] : generatedValue(entity, context)),
+                `    @Column(name = "${toSnakeCase(key.name)}")`,
+                `    private ${type} ${name};`
+            ]);
+        }
+        for (const attribute of entity.attributes) {
+            if (attribute.type === 'void' || toSnakeCase(attribute.name) === 'id') {
+                continue;
+            }
+            const type = file.use(attribute.type);
+            const name = toCamelCase(attribute.name);
+            field(type, name, [
+                ...javadoc(attribute.comment ?? attribute.fullName, '    '),
+                ...(attribute.type === 'file' ? ['    @Lob'] : []),
+                `    ${columnAnnotation(attribute)}`,
+                `    private ${type} ${name};`
+            ]);
+        }
+        for (const attribute of entity.enumentityatributes) {
+            const enumeration = getRef(attribute.type);
+            if (!enumeration) {
+                continue;
+            }
+            const type = file.use(enumeration);
+            const name = toCamelCase(attribute.name);
+            field(type, name, [
+                ...javadoc(attribute.comment, '    '),
+                '    @Enumerated(EnumType.STRING)',
+                `    @Column(name = "${toSnakeCase(attribute.name)}")`,
+                `    private ${type} ${name};`
+            ]);
+        }
+        for (const mapping of getRelationMappings(entity, context).filter(mapping => mapping.target)) {
+            const lines = relationField(file, mapping);
+            const type = mapping.many ? `List<${file.use(mapping.target!)}>` : file.use(mapping.target!);
+            field(type, toCamelCase(mapping.relation.name), lines);
+        }
+
+        const annotations = entity.is_abstract
+            ? ['@MappedSuperclass']
+            : [entityAnnotation(entity, context), `@Table(name = "${getTable(entity, context)?.name ?? toSnakeCase(entity.name)}")`];
+        if (isTablePerClassRoot(entity, context)) {
+            annotations.push('@Inheritance(strategy = InheritanceType.TABLE_PER_CLASS)');
+        }
+        const declaration = `public ${entity.is_abstract ? 'abstract ' : ''}class ${entity.name}${superType ? ` extends ${file.use(superType)}` : ''} {`;
+        return [file.render(entity.name, [
+            ...javadoc(entity.comment),
+            ...annotations,
+            declaration,
+            ...(fields.length > 0 ? ['', ...blocks([...fields, ...accessors])] : []),
+            '}'
+        ])];
+    },
+
+    dto(entity, context) {
+        const file = new JavaFile(`${packageOf(entity, context)}.dto`, context);
+        const components: Array<string> = [];
+        const key = getEntityKey(entity);
+        components.push(`${key.attribute ? file.use(key.attribute.type) : 'Long'} ${toCamelCase(key.name)}`);
+        for (const attribute of getEffectiveAttributes(entity)) {
+            if (attribute.type !== 'void' && attribute !== key.attribute) {
+                components.push([...constraints(file, attribute), `${file.use(attribute.type)} ${toCamelCase(attribute.name)}`].join(' '));
+            }
+        }
+        for (const attribute of getEffectiveEnumAttributes(entity)) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                components.push(`${file.use(enumeration)} ${toCamelCase(attribute.name)}`);
+            }
+        }
+        for (const relation of getEffectiveRelations(entity)) {
+            const target = getRef(relation.type);
+            if (!target) {
+                continue;
+            }
+            const many = targetCardinality[relation.$type] === 'many';
+            if (many) {
+                file.import('java.util.List');
+            }
+            const type = keyType(target);
+            if (javaTypeImports[type]) {
+                file.import(javaTypeImports[type]!);
+            }
+            components.push(many ? `List<${type}> ${toCamelCase(relation.name)}Ids` : `${type} ${toCamelCase(relation.name)}Id`);
+        }
+        const name = `${entity.name}Dto`;
+        return [file.render(name, [
+            ...javadoc(entity.comment),
+            `public record ${name}(`,
+            components.map(component => `    ${component}`).join(',\n'),
+            ') {',
+            '}'
+        ])];
+    },
+
+    repository(entity, context) {
+        if (entity.is_abstract) {
+            return [];
+        }
+        const file = new JavaFile(`${packageOf(entity, context)}.repository`, context);
+        file.import('org.springframework.data.jpa.repository.JpaRepository');
+        const key = getEntityKey(entity).attribute;
+        const name = `${entity.name}Repository`;
+        return [file.render(name, [
+            `public interface ${name} extends JpaRepository<${file.use(entity)}, ${key ? file.use(key.type) : 'Long'}> {`,
+            '}'
+        ])];
+    }
+};
@@ -0,0 +1,203 @@
+import { DATATYPE, Entity, EnumEntityAtribute, EnumX, Module, Relation, getRef, isEnumX } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { streamAllContents } from "../traversal/ast-utils.js";
+
+export type JsonSchemaType = 'array' | 'boolean' | 'integer' | 'number' | 'object' | 'string';
+
+/** The subset of JSON Schema 2020-12 keywords the generator emits. */
+export interface JsonSchema {
+    $schema?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    title?: string;
+    description?: string;
+    type?: JsonSchemaType;
+    format?: string;
+    pattern?: string;
+    contentEncoding?: string;
+    multipleOf?: number;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    enum?: Array<string>;
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: Array<string>;
+    allOf?: Array<JsonSchema>;
+}
+
+export const jsonSchemaDialect = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Schema of each data type. Documents, CEPs and phone numbers are written with
+ * digits only, as they are stored by the generated tables; phone numbers may
+ * carry the `+55` prefix.
+ */
+const dataTypeSchemas: Record<Exclude<DATATYPE, 'void'>, JsonSchema> = {
+    boolean: { type: 'boolean' },
+    cnpj: { type: 'string', pattern: '^[0-9]{14}$' },
+    cpf: { type: 'string', pattern: '^[0-9]{11}$' },
+    currency: { type: 'number', multipleOf: 0.01 },
+    date: { type: 'string', format: 'date' },
+    datetime: { type: 'string', format: 'date-time' },
+    decimal: { type: 'number' },
+    email: { type: 'string', format: 'email' },
+    file: { type: 'string', contentEncoding: 'base64' },
+    integer: { type: 'integer' },
+    mobilePhoneNumber: { type: 'string', pattern: '^(\\+55)?[1-9]{2}9[0-9]{8}$' },
+    phoneNumber: { type: 'string', pattern: '^(\\+55)?[1-9]{2}[2-8][0-9]{7}$' },
+    string: { type: 'string' },
+    uuid: { type: 'string', format: 'uuid' },
+    zipcode: { type: 'string', pattern: '^[0-9]{8}$' }
+};
+
+const textTypes: Array<DATATYPE> = ['email', 'mobilePhoneNumber', 'phoneNumber', 'string'];
+
+function annotations(node: { comment?: string; fullName?: string }): JsonSchema {
+    const schema: JsonSchema = {};
+    if (node.fullName !== undefined) schema.title = node.fullName;
+    if (node.comment !== undefined) schema.description = node.comment;
+    return schema;
+}
+
+export function getDataTypeSchema(type: DATATYPE): JsonSchema {
+    if (type === 'void') {
+        throw new Error(`Type 'void' has no schema`);
+    }
+    return { ...dataTypeSchemas[type] };
+}
+
+/** Schema of an attribute value: `min` and `max` bound numbers and the length of free text. */
+export function getAttributeSchema(attribute: Attribute): JsonSchema {
+    if (attribute.type === 'void') {
+        throw new Error(`Attributes of type 'void' have no schema`);
+    }
+    const schema: JsonSchema = { ...annotations(attribute), ...getDataTypeSchema(attribute.type) };
+    if (schema.type === 'number' || schema.type === 'integer') {
+        if (attribute.min !== undefined) schema.minimum = attribute.min;
+        if (attribute.max !== undefined) schema.maximum = attribute.max;
+    } else if (textTypes.includes(attribute.type)) {
+        if (attribute.min !== undefined) schema.minLength = attribute.min;
+        if (attribute.max !== undefined) schema.maxLength = attribute.max;
+    }
+    return schema;
+}
+
+/**
+ * Collects the definitions of entities and enums, following supertypes,
+ * relation targets and enums. `refBase` is the location the definitions are
+ * written to, such as `#/components/schemas/` in an OpenAPI document.
+ */
+export class JsonSchemaBuilder {
+    readonly definitions: Record<string, JsonSchema> = {};
+    private readonly pending: Array<Entity | EnumX> = [];
+
+    constructor(private readonly refBase = '#/$defs/') {}
+
+    /** Returns a `$ref` to the node, queueing its definition. */
+    reference(node: Entity | EnumX): JsonSchema {
+        this.define(node);
+        return { $ref: `${this.refBase}${getQualifiedName(node)}` };
+    }
+
+    define(node: Entity | EnumX): void {
+        const name = getQualifiedName(node)!;
+        if (!(name in this.definitions)) {
+            this.definitions[name] = {};
+            this.pending.push(node);
+        }
+    }
+
+    build(): Record<string, JsonSchema> {
+        let node: Entity | EnumX | undefined;
+        while ((node = this.pending.shift())) {
+            this.definitions[getQualifiedName(node)!] = isEnumX(node)
+                ? this.enumSchema(node)
+                : isLocalEntity(node) ? this.entitySchema(node) : this.importedSchema(node);
+        }
+        return this.definitions;
+    }
+
+    private enumSchema(enumeration: EnumX): JsonSchema {
+        return { title: enumeration.name, ...annotations(enumeration), type: 'string', enum: enumeration.attributes.map(value => value.name) };
+    }
+
+    /** Imported entities are defined elsewhere; only their shape is known. */
+    private importedSchema(entity: Entity): JsonSchema {
+        return { title: entity.name, type: 'object' };
+    }
+
+    private entitySchema(entity: LocalEntity): JsonSchema {
+        const properties: Record<string, JsonSchema> = {};
+        const required: Array<string> = [];
+        for (const attribute of entity.attributes) {
+            if (attribute.type === 'void') {
+                continue;
+            }
+            properties[attribute.name] = getAttributeSchema(attribute);
+            if (!attribute.blank) {
+                required.push(attribute.name);
+            }
+        }
+        for (const attribute of entity.enumentityatributes) {
+            properties[attribute.name] = this.enumAttributeSchema(attribute);
+        }
+        for (const relation of entity.relations) {
+            properties[relation.name] = this.relationSchema(relation);
+        }
+        const own: JsonSchema = { type: 'object', properties };
+        if (required.length > 0) {
+            own.required = required;
+        }
+        const superType = entity.superType ? getRef(entity.superType) : undefined;
+        const header: JsonSchema = { title: entity.name, ...(entity.comment !== undefined ? { description: entity.comment } : {}) };
+        return superType
+            ? { ...header, allOf: [this.reference(superType), own] }
+            : { ...header, ...own };
+    }
+
+    private enumAttributeSchema(attribute: EnumEntityAtribute): JsonSchema {
+        const enumeration = getRef(attribute.type);
+        return { ...annotations(attribute), ...(enumeration ? this.reference(enumeration) : {}) };
+    }
+
+    /** To-one relations are a `$ref` to the target, to-many relations an array of them. */
+    private relationSchema(relation: Relation): JsonSchema {
+        const target = getRef(relation.type);
+        const item = target ? this.reference(target) : {};
+        return targetCardinality[relation.$type] === 'many'
+            ? { ...annotations(relation), type: 'array', items: item }
+            : { ...annotations(relation), ...item };
+    }
+}
+
+/**
+ * Builds a JSON Schema (draft 2020-12) for the payloads of an entity, or for
+ * every entity and enum of a module and its submodules. Entities and enums
+ * are emitted under `$defs` by qualified name, together with every supertype,
+ * relation target and enum they reach; the root of an entity schema is a
+ * `$ref` to its own definition.
+ */
+export function toJsonSchema(node: LocalEntity | Module): JsonSchema {
+    const builder = new JsonSchemaBuilder();
+    const root: JsonSchema = { $schema: jsonSchemaDialect };
+    if (isLocalEntity(node)) {
+        Object.assign(root, builder.reference(node));
+    } else {
+        root.title = node.name;
+        if (node.comment !== undefined) {
+            root.description = node.comment;
+        }
+        for (const element of streamAllContents(node)) {
+            if (isEnumX(element) || isLocalEntity(element)) {
+                builder.define(element);
+            }
+        }
+    }
+    root.$defs = builder.build();
+    return root;
+}
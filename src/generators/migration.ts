@@ -0,0 +1,384 @@
+import { Model, Relation, getRef, isEnumEntityAtribute, isRelation } from "../models/model.js";
+import { AttributeEnum } from "../models/atribute.js";
+import { ModelNode } from "../models/reflection.js";
+import { DiffOptions, matchModels } from "../diff/model-diff.js";
+import { SqlColumn, SqlDialect, SqlForeignKey, SqlOptions, SqlTable, createSqlSchema, quoteIdentifier, renderAddForeignKey, renderColumn, renderCreateTable, resolveSqlDialect } from "./sql.js";
+
+export interface MigrationOptions extends SqlOptions, DiffOptions {}
+
+export interface MigrationStep {
+    /** One-line summary, written as a comment above the statement. */
+    description: string;
+    sql: string;
+    /** The step can lose data: dropped tables or columns, narrowed types, removed enum values. */
+    destructive: boolean;
+    /** The dialect cannot express the step; `sql` is a comment describing what to do by hand. */
+    manual: boolean;
+}
+
+interface TablePair {
+    oldTable: SqlTable;
+    newTable: SqlTable;
+    /** Counterpart of each matched old column. */
+    columns: Map<SqlColumn, SqlColumn>;
+}
+
+function step(description: string, sql: string, destructive = false): MigrationStep {
+    return { description, sql, destructive, manual: false };
+}
+
+function manualStep(description: string, instruction: string, destructive = false): MigrationStep {
+    return { description, sql: `-- ${instruction}`, destructive, manual: true };
+}
+
+/** Same base type with at least the old length, e.g. `VARCHAR(80)` to `VARCHAR(120)`. */
+function isWidening(oldType: string, newType: string): boolean {
+    const length = /^(\w+)\((\d+)\)$/;
+    const oldMatch = length.exec(oldType);
+    const newMatch = length.exec(newType);
+    return !!oldMatch && !!newMatch && oldMatch[1] === newMatch[1] && Number(newMatch[2]) >= Number(oldMatch[2]);
+}
+
+/** Inverses synthesized by `RelationIndex` are not part of their entity's `relations`. */
+function isImplicitRelation(member: SqlColumn['member']): member is Relation {
+    return isRelation(member) && !member.$container.relations.includes(member);
+}
+
+/** Enum values renamed or removed between the enum of two matched columns. */
+function enumValueChanges(oldColumn: SqlColumn, newColumn: SqlColumn, matches: Map<ModelNode, ModelNode>): { renamed: Array<[string, string]>; removed: Array<string> } {
+    const renamed: Array<[string, string]> = [];
+    const removed: Array<string> = [];
+    if (!isEnumEntityAtribute(oldColumn.member) || !isEnumEntityAtribute(newColumn.member)) {
+        return { renamed, removed };
+    }
+    const newValues: Array<ModelNode> = getRef(newColumn.member.type)?.attributes ?? [];
+    for (const value of getRef(oldColumn.member.type)?.attributes ?? []) {
+        const match = matches.get(value) as AttributeEnum | undefined;
+        if (!match || !newValues.includes(match)) {
+            removed.push(value.name);
+        } else if (match.name !== value.name) {
+            renamed.push([value.name, match.name]);
+        }
+    }
+    return { renamed, removed };
+}
+
+/** Declared length of a `VARCHAR(n)`-like column; unbounded types count as infinite. */
+function columnLength(column: SqlColumn): number {
+    const match = /\((\d+)\)$/.exec(column.type);
+    return match ? Number(match[1]) : Infinity;
+}
+
+class MigrationPlanner {
+    private readonly q: (name: string) => string;
+    /** New name of each paired old table. */
+    private readonly tableNames = new Map<string, string>();
+
+    constructor(private readonly dialect: SqlDialect, private readonly matches: Map<ModelNode, ModelNode>) {
+        this.q = (name: string) => quoteIdentifier(name, dialect);
+    }
+
+    plan(oldTables: Array<SqlTable>, newTables: Array<SqlTable>): Array<MigrationStep> {
+        const pairs = this.pairTables(oldTables, newTables);
+        pairs.forEach(({ oldTable, newTable }) => this.tableNames.set(oldTable.name, newTable.name));
+        const pairedOld = new Set(pairs.map(pair => pair.oldTable));
+        const pairedNew = new Set(pairs.map(pair => pair.newTable));
+        const created = newTables.filter(table => !pairedNew.has(table));
+        const dropped = oldTables.filter(table => !pairedOld.has(table));
+        const steps: Array<MigrationStep> = [];
+
+        for (const { oldTable, newTable } of pairs) {
+            if (oldTable.name !== newTable.name) {
+                steps.push(step(`Rename table ${this.q(oldTable.name)} to ${this.q(newTable.name)}`, this.renameTable(oldTable.name, newTable.name)));
+            }
+        }
+        for (const { newTable, columns } of pairs) {
+            for (const [oldColumn, newColumn] of columns) {
+                if (oldColumn.name !== newColumn.name) {
+                    steps.push(step(
+                        `Rename column ${this.q(newTable.name)}.${this.q(oldColumn.name)} to ${this.q(newColumn.name)}`,
+                        this.renameColumn(newTable.name, oldColumn.name, newColumn.name)
+                    ));
+                }
+            }
+        }
+        for (const table of created) {
+            steps.push(step(`Create table ${this.q(table.name)}`, renderCreateTable(table, this.dialect)));
+        }
+        const addedForeignKeys: Array<SqlForeignKey> = this.dialect === 'sqlite' ? [] : created.flatMap(table => table.foreignKeys);
+        for (const pair of pairs) {
+            steps.push(...this.alterTable(pair, addedForeignKeys));
+        }
+        steps.push(...addedForeignKeys.map(foreignKey => step(
+            `Add foreign key ${this.q(foreignKey.table)}.${this.q(foreignKey.column)}`,
+            renderAddForeignKey(foreignKey, this.dialect)
+        )));
+        for (const table of dropped) {
+            steps.push(step(`Drop table ${this.q(table.name)}`, `DROP TABLE ${this.q(table.name)};`, true));
+        }
+        return steps;
+    }
+
+    /** Tables of matched entities (or join tables of matched relations) pair up; the rest by name. */
+    private pairTables(oldTables: Array<SqlTable>, newTables: Array<SqlTable>): Array<TablePair> {
+        const pairs = new Map<SqlTable, SqlTable>();
+        const used = new Set<SqlTable>();
+        const pair = (oldTable: SqlTable, find: (table: SqlTable) => boolean) => {
+            const newTable = newTables.find(table => !used.has(table) && find(table));
+            if (newTable) {
+                pairs.set(oldTable, newTable);
+                used.add(newTable);
+            }
+        };
+        for (const oldTable of oldTables) {
+            const match = this.matches.get((oldTable.entity ?? oldTable.relation)!);
+            pair(oldTable, table => match !== undefined && (table.entity ?? table.relation) === match);
+        }
+        for (const oldTable of oldTables.filter(table => !pairs.has(table))) {
+            pair(oldTable, table => table.name === oldTable.name);
+        }
+        return oldTables.filter(table => pairs.has(table)).map(oldTable => {
+            const newTable = pairs.get(oldTable)!;
+            return { oldTable, newTable, columns: this.pairColumns(oldTable, newTable) };
+        });
+    }
+
+    private pairColumns(oldTable: SqlTable, newTable: SqlTable): Map<SqlColumn, SqlColumn> {
+        const columns = new Map<SqlColumn, SqlColumn>();
+        const used = new Set<SqlColumn>();
+        const pair = (oldColumn: SqlColumn, newColumn: SqlColumn | undefined) => {
+            if (newColumn) {
+                columns.set(oldColumn, newColumn);
+                used.add(newColumn);
+            }
+        };
+        for (const oldColumn of oldTable.columns) {
+            pair(oldColumn, newTable.columns.find(column => column.name === oldColumn.name));
+        }
+        for (const oldColumn of oldTable.columns.filter(column => !columns.has(column) && column.member)) {
+            pair(oldColumn, newTable.columns.find(column => !used.has(column) && column.member !== undefined && this.isCounterpart(oldColumn.member!, column.member)));
+        }
+        return columns;
+    }
+
+    /** Matched members correspond; so do implicit inverses of relations from matched entities. */
+    private isCounterpart(oldMember: NonNullable<SqlColumn['member']>, newMember: NonNullable<SqlColumn['member']>): boolean {
+        if (this.matches.has(oldMember)) {
+            return this.matches.get(oldMember) === newMember;
+        }
+        return isImplicitRelation(oldMember) && isImplicitRelation(newMember)
+            && this.matches.get(getRef(oldMember.type)) === getRef(newMember.type);
+    }
+
+    private alterTable({ oldTable, newTable, columns }: TablePair, addedForeignKeys: Array<SqlForeignKey>): Array<MigrationStep> {
+        const table = newTable.name;
+        const steps: Array<MigrationStep> = [];
+        const matchedNew = new Set(columns.values());
+        const added = newTable.columns.filter(column => !matchedNew.has(column));
+        const dropped = oldTable.columns.filter(column => !columns.has(column));
+        const newName = (name: string) => [...columns].find(([oldColumn]) => oldColumn.name === name)?.[1].name;
+
+        const keptForeignKey = (foreignKey: SqlForeignKey) => newTable.foreignKeys.some(candidate =>
+            candidate.column === newName(foreignKey.column) && candidate.referencedColumn === foreignKey.referencedColumn
+            && this.tableNames.get(foreignKey.referencedTable) === candidate.referencedTable
+        );
+        for (const foreignKey of oldTable.foreignKeys.filter(foreignKey => !keptForeignKey(foreignKey))) {
+            steps.push(this.dropForeignKey(foreignKey, table));
+        }
+        const oldForeignKeys = oldTable.foreignKeys.filter(keptForeignKey).map(foreignKey => newName(foreignKey.column));
+        const newForeignKeys = newTable.foreignKeys.filter(foreignKey => !oldForeignKeys.includes(foreignKey.column));
+
+        for (const column of added) {
+            const foreignKey = newForeignKeys.find(candidate => candidate.column === column.name);
+            steps.push(this.addColumn(table, column, foreignKey));
+            if (foreignKey && this.dialect !== 'sqlite') {
+                addedForeignKeys.push(foreignKey);
+            }
+        }
+        for (const foreignKey of newForeignKeys.filter(candidate => !added.some(column => column.name === candidate.column))) {
+            if (this.dialect === 'sqlite') {
+                steps.push(manualStep(`Add foreign key ${this.q(table)}.${this.q(foreignKey.column)}`, `SQLite cannot add a foreign key to an existing column; rebuild table ${this.q(table)}.`));
+            } else {
+                addedForeignKeys.push(foreignKey);
+            }
+        }
+
+        const changed = [...columns].filter(([oldColumn, newColumn]) =>
+            oldColumn.type !== newColumn.type || oldColumn.nullable !== newColumn.nullable
+        );
+        // The old CHECK goes first, so neither the type change nor the renamed values violate it.
+        for (const [oldColumn, newColumn] of columns) {
+            if (oldColumn.check !== undefined && oldColumn.check !== newColumn.check) {
+                steps.push(this.dropCheck(table, oldTable.name, oldColumn, newColumn.name));
+            }
+        }
+        // Renamed values are written after a column widens and before it narrows, so they always fit.
+        const renamed = (oldColumn: SqlColumn, newColumn: SqlColumn) => enumValueChanges(oldColumn, newColumn, this.matches).renamed;
+        const narrowed = changed.filter(([oldColumn, newColumn]) =>
+            renamed(oldColumn, newColumn).length > 0 && columnLength(newColumn) < columnLength(oldColumn)
+        );
+        for (const [oldColumn, newColumn] of changed.filter(pair => !narrowed.includes(pair))) {
+            steps.push(this.alterColumn(table, oldColumn, newColumn));
+        }
+        for (const [oldColumn, newColumn] of columns) {
+            for (const [from, to] of renamed(oldColumn, newColumn)) {
+                steps.push(step(
+                    `Rename value '${from}' to '${to}' in ${this.q(table)}.${this.q(newColumn.name)}`,
+                    `UPDATE ${this.q(table)} SET ${this.q(newColumn.name)} = '${to}' WHERE ${this.q(newColumn.name)} = '${from}';`
+                ));
+            }
+        }
+        for (const [oldColumn, newColumn] of narrowed) {
+            steps.push(this.alterColumn(table, oldColumn, newColumn));
+        }
+        for (const [oldColumn, newColumn] of columns) {
+            if (oldColumn.unique && !newColumn.unique) {
+                steps.push(this.dropUnique(table, oldTable.name, oldColumn, newColumn.name));
+            } else if (!oldColumn.unique && newColumn.unique) {
+                steps.push(this.addUnique(table, newColumn));
+            }
+        }
+        for (const [oldColumn, newColumn] of columns) {
+            if (newColumn.check !== undefined && oldColumn.check !== newColumn.check) {
+                const removed = enumValueChanges(oldColumn, newColumn, this.matches).removed;
+                steps.push(this.addCheck(table, newColumn, removed));
+            }
+        }
+        for (const column of dropped) {
+            steps.push(step(`Drop column ${this.q(table)}.${this.q(column.name)}`, `ALTER TABLE ${this.q(table)} DROP COLUMN ${this.q(column.name)};`, true));
+        }
+        return steps;
+    }
+
+    private renameTable(from: string, to: string): string {
+        switch (this.dialect) {
+            case 'mysql': return `RENAME TABLE ${this.q(from)} TO ${this.q(to)};`;
+            case 'sqlserver': return `EXEC sp_rename '${from}', '${to}';`;
+            default: return `ALTER TABLE ${this.q(from)} RENAME TO ${this.q(to)};`;
+        }
+    }
+
+    private renameColumn(table: string, from: string, to: string): string {
+        if (this.dialect === 'sqlserver') {
+            return `EXEC sp_rename '${table}.${from}', '${to}', 'COLUMN';`;
+        }
+        return `ALTER TABLE ${this.q(table)} RENAME COLUMN ${this.q(from)} TO ${this.q(to)};`;
+    }
+
+    private addColumn(table: string, column: SqlColumn, foreignKey: SqlForeignKey | undefined): MigrationStep {
+        // Uniqueness is added as an index afterwards: SQLite cannot add UNIQUE columns.
+        let definition = renderColumn({ ...column, unique: false }, this.dialect);
+        if (foreignKey && this.dialect === 'sqlite') {
+            definition += ` REFERENCES ${this.q(foreignKey.referencedTable)} (${this.q(foreignKey.referencedColumn)})`;
+        }
+        const add = this.dialect === 'sqlserver' ? 'ADD' : 'ADD COLUMN';
+        const description = `Add column ${this.q(table)}.${this.q(column.name)}${column.nullable ? '' : ' (existing rows need a value)'}`;
+        const sql = `ALTER TABLE ${this.q(table)} ${add} ${definition};`;
+        return column.unique
+            ? step(description, `${sql}\n${this.addUnique(table, column).sql}`)
+            : step(description, sql);
+    }
+
+    private alterColumn(table: string, oldColumn: SqlColumn, newColumn: SqlColumn): MigrationStep {
+        const column = this.q(newColumn.name);
+        const destructive = oldColumn.type !== newColumn.type && !isWidening(oldColumn.type, newColumn.type);
+        const description = `Alter column ${this.q(table)}.${column}: ${oldColumn.type}${oldColumn.nullable ? ' NULL' : ' NOT NULL'} to ${newColumn.type}${newColumn.nullable ? ' NULL' : ' NOT NULL'}`;
+        const nullability = newColumn.nullable ? 'NULL' : 'NOT NULL';
+        switch (this.dialect) {
+            case 'postgresql': {
+                const actions: Array<string> = [];
+                if (oldColumn.type !== newColumn.type) {
+                    actions.push(`ALTER COLUMN ${column} TYPE ${newColumn.type}`);
+                }
+                if (oldColumn.nullable !== newColumn.nullable) {
+                    actions.push(`ALTER COLUMN ${column} ${newColumn.nullable ? 'DROP' : 'SET'} NOT NULL`);
+                }
+                return step(description, `ALTER TABLE ${this.q(table)} ${actions.join(', ')};`, destructive);
+            }
+            case 'mysql':
+                return step(description, `ALTER TABLE ${this.q(table)} MODIFY COLUMN ${column} ${newColumn.type} ${nullability};`, destructive);
+            case 'sqlserver':
+                return step(description, `ALTER TABLE ${this.q(table)} ALTER COLUMN ${column} ${newColumn.type} ${nullability};`, destructive);
+            case 'sqlite':
+                return manualStep(description, `SQLite cannot alter columns; rebuild table ${this.q(table)}.`, destructive);
+        }
+    }
+
+    /** Drops the constraint under the name it got when created, before any rename. */
+    private dropCheck(table: string, oldTable: string, oldColumn: SqlColumn, column: string): MigrationStep {
+        const description = `Drop check constraint on ${this.q(table)}.${this.q(column)}`;
+        if (this.dialect === 'postgresql') {
+            return step(description, `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${this.q(`${oldTable}_${oldColumn.name}_check`)};`);
+        }
+        return manualStep(description, `Drop the CHECK (${oldColumn.check}) constraint; its name is generated by the database.`);
+    }
+
+    private addCheck(table: string, column: SqlColumn, removedValues: Array<string>): MigrationStep {
+        const removed = removedValues.length > 0 ? ` (removes ${removedValues.map(value => `'${value}'`).join(', ')})` : '';
+        const description = `Add check constraint on ${this.q(table)}.${this.q(column.name)}${removed}`;
+        const destructive = removedValues.length > 0;
+        if (this.dialect === 'sqlite') {
+            return manualStep(description, `SQLite cannot add constraints; rebuild table ${this.q(table)} with CHECK (${column.check}).`, destructive);
+        }
+        const name = this.dialect === 'postgresql' ? `${table}_${column.name}_check` : `ck_${table}_${column.name}`;
+        return step(description, `ALTER TABLE ${this.q(table)} ADD CONSTRAINT ${this.q(name)} CHECK (${column.check});`, destructive);
+    }
+
+    private addUnique(table: string, column: SqlColumn): MigrationStep {
+        return step(
+            `Add unique index on ${this.q(table)}.${this.q(column.name)}`,
+            `CREATE UNIQUE INDEX ${this.q(`ux_${table}_${column.name}`)} ON ${this.q(table)} (${this.q(column.name)});`
+        );
+    }
+
+    /** Drops the constraint `generateSql` declared inline, using the name each database gives it. */
+    private dropUnique(table: string, oldTable: string, oldColumn: SqlColumn, column: string): MigrationStep {
+        const description = `Drop unique constraint on ${this.q(table)}.${this.q(column)}`;
+        switch (this.dialect) {
+            case 'postgresql':
+                return step(description, `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${this.q(`${oldTable}_${oldColumn.name}_key`)};`);
+            case 'mysql':
+                return step(description, `ALTER TABLE ${this.q(table)} DROP INDEX ${this.q(oldColumn.name)};`);
+            case 'sqlserver':
+                return manualStep(description, 'Drop the UNIQUE constraint; its name is generated by the database.');
+            case 'sqlite':
+                return manualStep(description, `SQLite cannot drop inline UNIQUE constraints; rebuild table ${this.q(table)}.`);
+        }
+    }
+
+    private dropForeignKey(foreignKey: SqlForeignKey, table: string): MigrationStep {
+        const name = this.q(`fk_${foreignKey.table}_${foreignKey.column}`);
+        const description = `Drop foreign key ${this.q(table)}.${this.q(foreignKey.column)}`;
+        switch (this.dialect) {
+            case 'mysql':
+                return step(description, `ALTER TABLE ${this.q(table)} DROP FOREIGN KEY ${name};`);
+            case 'sqlite':
+                return manualStep(description, `SQLite cannot drop foreign keys; rebuild table ${this.q(table)}.`);
+            default:
+                return step(description, `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${name};`);
+        }
+    }
+}
+
+/**
+ * Plans the schema changes between two model versions. Both models go through
+ * `createSqlSchema`; tables and columns are paired through `matchModels`, so a
+ * renamed entity or attribute becomes a `RENAME` instead of a drop and an add.
+ * Steps run in order: renames, new tables, column changes, new foreign keys
+ * and finally dropped tables. Constraint names assume the old schema was
+ * created by `generateSql`.
+ */
+export function createMigration(oldModel: Model, newModel: Model, options: MigrationOptions = {}): Array<MigrationStep> {
+    const dialect = options.dialect ?? resolveSqlDialect(newModel);
+    const matches = matchModels(oldModel, newModel, options);
+    return new MigrationPlanner(dialect, matches).plan(createSqlSchema(oldModel, dialect), createSqlSchema(newModel, dialect));
+}
+
+/** Renders `createMigration` as a script; destructive steps are marked in their comment. */
+export function generateMigration(oldModel: Model, newModel: Model, options: MigrationOptions = {}): string {
+    const steps = createMigration(oldModel, newModel, options);
+    if (steps.length === 0) {
+        return '';
+    }
+    return steps.map(migrationStep => `-- ${migrationStep.destructive ? 'DESTRUCTIVE: ' : ''}${migrationStep.description}\n${migrationStep.sql}`).join('\n\n') + '\n';
+}
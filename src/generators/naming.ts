@@ -0,0 +1,34 @@
+/** Splits `OrderItem`, `orderItem`, `order_item` or `order-item` into lower-case words. */
+export function splitWords(name: string): Array<string> {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+        .split(/[\s_\-.]+/)
+        .filter(word => word.length > 0)
+        .map(word => word.toLowerCase());
+}
+
+export function toSnakeCase(name: string): string {
+    return splitWords(name).join('_');
+}
+
+export function toKebabCase(name: string): string {
+    return splitWords(name).join('-');
+}
+
+export function toPascalCase(name: string): string {
+    return splitWords(name).map(word => word.charAt(0).toUpperCase() + word.substring(1)).join('');
+}
+
+export function toCamelCase(name: string): string {
+    const pascal = toPascalCase(name);
+    return pascal.charAt(0).toLowerCase() + pascal.substring(1);
+}
+
+/** Naive English plural: `Category` becomes `Categories`, `Address` becomes `Addresses`. */
+export function toPlural(name: string): string {
+    if (/(s|x|z|ch|sh)$/.test(name)) {
+        return `${name}es`;
+    }
+    return /[^aeiou]y$/.test(name) ? `${name.slice(0, -1)}ies` : `${name}s`;
+}
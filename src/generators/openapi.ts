@@ -0,0 +1,156 @@
+import { Model, Module } from "../models/model.js";
+import { FunctionEntity, LocalEntity, getFunctionParameters, isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { getEffectiveAttributes, getEffectiveFunctions } from "../inheritance/effective-members.js";
+import { JsonSchema, JsonSchemaBuilder, getDataTypeSchema } from "./json-schema.js";
+import { toCamelCase, toKebabCase, toPascalCase, toSnakeCase } from "./naming.js";
+
+export interface OpenApiOptions {
+    /** `info.version` of the document; defaults to `1.0.0`. */
+    version?: string;
+}
+
+export interface OpenApiParameter {
+    name: string;
+    in: 'path' | 'query';
+    required: boolean;
+    schema: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+    schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+    description: string;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+    operationId: string;
+    summary?: string;
+    description?: string;
+    tags: Array<string>;
+    parameters?: Array<OpenApiParameter>;
+    requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> };
+    responses: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiPathItem = Partial<Record<'get' | 'post' | 'put' | 'delete', OpenApiOperation>>;
+
+export interface OpenApiDocument {
+    openapi: '3.1.0';
+    info: { title: string; version: string; description?: string };
+    tags: Array<{ name: string; description?: string }>;
+    paths: Record<string, OpenApiPathItem>;
+    components: { schemas: Record<string, JsonSchema> };
+}
+
+const notFound: OpenApiResponse = { description: 'Not found' };
+
+function json(schema: JsonSchema): Record<string, OpenApiMediaType> {
+    return { 'application/json': { schema } };
+}
+
+/** Path of the entity collection: one segment per enclosing module, then the entity. */
+function collectionPath(entity: LocalEntity): string {
+    const segments: Array<string> = [toKebabCase(entity.name)];
+    let container: Model | Module = entity.$container;
+    while (container.$type === 'Module') {
+        segments.unshift(...container.name.split('.').map(toKebabCase));
+        container = container.$container;
+    }
+    return `/${segments.join('/')}`;
+}
+
+/** Schema of the `{id}` parameter: the declared `id` attribute, or a 64-bit integer as in the generated tables. */
+function idSchema(entity: LocalEntity): JsonSchema {
+    const declared = getEffectiveAttributes(entity).find(attribute => toSnakeCase(attribute.name) === 'id');
+    return declared ? getDataTypeSchema(declared.type) : { type: 'integer', format: 'int64' };
+}
+
+/** Operation ids start with the qualified name of the module, so same-named entities of different modules do not clash. */
+function operationId(entity: LocalEntity, operation: string): string {
+    return `${toCamelCase(getQualifiedName(entity.$container)!)}${operation}`;
+}
+
+function functionOperation(entity: LocalEntity, fn: FunctionEntity, tag: string, id: OpenApiParameter): OpenApiOperation {
+    const properties: Record<string, JsonSchema> = {};
+    for (const element of getFunctionParameters(fn)) {
+        properties[element.name] = { ...(element.comment !== undefined ? { description: element.comment } : {}), ...getDataTypeSchema(element.type) };
+    }
+    const operation: OpenApiOperation = {
+        operationId: operationId(entity, `${toPascalCase(entity.name)}${toPascalCase(fn.name)}`),
+        tags: [tag],
+        parameters: [id],
+        responses: fn.response === 'void'
+            ? { '204': { description: 'No content' }, '404': notFound }
+            : { '200': { description: 'OK', content: json(getDataTypeSchema(fn.response)) }, '404': notFound }
+    };
+    if (fn.comment !== undefined) {
+        operation.description = fn.comment;
+    }
+    if (Object.keys(properties).length > 0) {
+        operation.requestBody = { required: true, content: json({ type: 'object', properties, required: Object.keys(properties) }) };
+    }
+    return operation;
+}
+
+/**
+ * Builds an OpenAPI 3.1 document for a model. Every non-abstract
+ * `LocalEntity` gets CRUD operations on `/<module>/<entity>` and
+ * `/<module>/<entity>/{id}`, and each of its functions (inherited ones
+ * included) becomes a `POST /<module>/<entity>/{id}/<function>`. Operations are
+ * tagged with the qualified name of their module, which also prefixes their
+ * `operationId` (`salesListOrder`), and component schemas are
+ * the ones `toJsonSchema` produces.
+ */
+export function createOpenApiDocument(model: Model, options: OpenApiOptions = {}): OpenApiDocument {
+    const schemas = new JsonSchemaBuilder('#/components/schemas/');
+    const tags = new Map<Module, { name: string; description?: string }>();
+    const paths: Record<string, OpenApiPathItem> = {};
+
+    for (const entity of getAllContentsOfType(model, isLocalEntity).filter(entity => !entity.is_abstract)) {
+        const module = entity.$container;
+        if (!tags.has(module)) {
+            tags.set(module, { name: getQualifiedName(module)!, ...(module.comment !== undefined ? { description: module.comment } : {}) });
+        }
+        const tag = tags.get(module)!.name;
+        const name = toPascalCase(entity.name);
+        const schema = schemas.reference(entity);
+        const id: OpenApiParameter = { name: 'id', in: 'path', required: true, schema: idSchema(entity) };
+        const body = { required: true, content: json(schema) };
+        const collection = collectionPath(entity);
+
+        paths[collection] = {
+            get: { operationId: operationId(entity, `List${name}`), tags: [tag], responses: { '200': { description: 'OK', content: json({ type: 'array', items: schema }) } } },
+            post: { operationId: operationId(entity, `Create${name}`), tags: [tag], requestBody: body, responses: { '201': { description: 'Created', content: json(schema) } } }
+        };
+        paths[`${collection}/{id}`] = {
+            get: { operationId: operationId(entity, `Get${name}`), tags: [tag], parameters: [id], responses: { '200': { description: 'OK', content: json(schema) }, '404': notFound } },
+            put: { operationId: operationId(entity, `Update${name}`), tags: [tag], parameters: [id], requestBody: body, responses: { '200': { description: 'OK', content: json(schema) }, '404': notFound } },
+            delete: { operationId: operationId(entity, `Delete${name}`), tags: [tag], parameters: [id], responses: { '204': { description: 'No content' }, '404': notFound } }
+        };
+        for (const fn of getEffectiveFunctions(entity)) {
+            paths[`${collection}/{id}/${toKebabCase(fn.name)}`] = { post: functionOperation(entity, fn, tag, id) };
+        }
+    }
+
+    const info: OpenApiDocument['info'] = { title: model.configuration?.name ?? 'API', version: options.version ?? '1.0.0' };
+    if (model.configuration?.description !== undefined) {
+        info.description = model.configuration.description;
+    }
+    return {
+        openapi: '3.1.0',
+        info,
+        tags: [...tags.values()],
+        paths,
+        components: { schemas: schemas.build() }
+    };
+}
+
+/** Serializes `createOpenApiDocument` as JSON. */
+export function generateOpenApi(model: Model, options: OpenApiOptions = {}): string {
+    return `${JSON.stringify(createOpenApiDocument(model, options), null, 2)}\n`;
+}
@@ -0,0 +1,315 @@
+import { DATATYPE, Entity, Model, Relation, getRef, isManyToMany } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { isAttribute } from "../models/atribute.js";
+import { getEffectiveRelations } from "../inheritance/effective-members.js";
+import { RelationIndex } from "../relations/relation-index.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { SqlColumn, SqlDialect, SqlTable, createSqlSchema, resolveSqlDialect } from "./sql.js";
+import { LanguageGenerator } from "./code-model.js";
+import { toCamelCase, toPascalCase, toPlural, toSnakeCase } from "./naming.js";
+
+export interface PrismaOptions {
+    /** Defaults to the dialect named by `Configuration.database_name`, then to PostgreSQL. */
+    dialect?: SqlDialect;
+}
+
+/** Prisma scalar of each data type. */
+export const prismaTypes: Record<Exclude<DATATYPE, 'void'>, string> = {
+    boolean: 'Boolean', cnpj: 'String', cpf: 'String', currency: 'Decimal', date: 'DateTime', datetime: 'DateTime',
+    decimal: 'Decimal', email: 'String', file: 'Bytes', integer: 'Int', mobilePhoneNumber: 'String',
+    phoneNumber: 'String', string: 'String', uuid: 'String', zipcode: 'String'
+};
+
+/** `@db` attributes of the SQL column types whose Prisma default differs. */
+const nativeTypes: Record<string, string> = {
+    CHAR: 'Char', VARCHAR: 'VarChar', NVARCHAR: 'NVarChar', NUMERIC: 'Decimal', DECIMAL: 'Decimal', DATE: 'Date',
+    TIMESTAMP: 'Timestamp', DATETIME: 'DateTime', DATETIME2: 'DateTime2', LONGBLOB: 'LongBlob', UUID: 'Uuid',
+    UNIQUEIDENTIFIER: 'UniqueIdentifier'
+};
+
+interface PrismaField {
+    name: string;
+    type: string;
+    attributes: Array<string>;
+    comment?: string;
+    /** Column the field is mapped to, for scalar fields. */
+    column?: string;
+}
+
+interface PrismaKey {
+    name: string;
+    type: string;
+}
+
+function documentation(text: string | undefined, indent = ''): Array<string> {
+    return text === undefined ? [] : text.split(/\r?\n/).map(line => `${indent}/// ${line}`);
+}
+
+class PrismaSchema {
+    private readonly index: RelationIndex;
+    private readonly tables: Array<SqlTable>;
+    private readonly fields = new Map<SqlTable, Array<PrismaField>>();
+    /** Model names; same-named entities of different modules are qualified. */
+    private readonly names = new Map<SqlTable, string>();
+
+    constructor(model: Model, private readonly dialect: SqlDialect) {
+        this.index = new RelationIndex(model);
+        this.tables = createSqlSchema(model, dialect);
+    }
+
+    generate(): string {
+        const entityTables = this.tables.filter(table => table.entity);
+        const joinTables = this.tables.filter(table => table.relation && this.tableOf(table.relation.$container) && this.tableOf(getRef(table.relation.type)));
+        this.name(entityTables, joinTables);
+        for (const table of [...entityTables, ...joinTables]) {
+            this.fields.set(table, table.columns.map(column => this.scalar(table, column)));
+        }
+        for (const table of entityTables) {
+            this.foreignKeys(table);
+        }
+        for (const table of entityTables) {
+            for (const relation of getEffectiveRelations(table.entity!).filter(isManyToMany)) {
+                this.manyToMany(table, relation);
+            }
+        }
+
+        const blocks: Array<Array<string>> = [
+            [
+                'datasource db {',
+                `  provider = "${this.dialect}"`,
+                '  url      = env("DATABASE_URL")',
+                '}'
+            ],
+            ['generator client {', '  provider = "prisma-client-js"', '}'],
+            ...[...entityTables, ...joinTables].map(table => this.render(table))
+        ];
+        return blocks.map(lines => lines.join('\n')).join('\n\n') + '\n';
+    }
+
+    /**
+     * Prisma has a single namespace, so entities sharing a name are named after
+     * their qualified names instead (`SalesCustomer`). Join models are named
+     * after their relation (`OrderTags`).
+     */
+    private name(entityTables: Array<SqlTable>, joinTables: Array<SqlTable>): void {
+        const counts = new Map<string, number>();
+        for (const table of entityTables) {
+            counts.set(table.entity!.name, (counts.get(table.entity!.name) ?? 0) + 1);
+        }
+        for (const table of entityTables) {
+            const entity = table.entity!;
+            this.names.set(table, counts.get(entity.name)! > 1 ? toPascalCase(getQualifiedName(entity) ?? entity.name) : entity.name);
+        }
+        const taken = new Set(this.names.values());
+        for (const table of joinTables) {
+            const relation = table.relation!;
+            let name = `${this.modelOf(relation.$container)}${toPascalCase(relation.name)}`;
+            if (taken.has(name)) {
+                name = toPascalCase(getQualifiedName(relation) ?? name);
+            }
+            taken.add(name);
+            this.names.set(table, name);
+        }
+    }
+
+    private tableOf(entity: Entity | undefined): SqlTable | undefined {
+        return isLocalEntity(entity) ? this.tables.find(table => table.entity === entity) : undefined;
+    }
+
+    private modelOf(entity: LocalEntity): string {
+        return this.names.get(this.tableOf(entity)!)!;
+    }
+
+    /** Key of an entity's model; imported and abstract targets have the generated key type. */
+    private keyOf(entity: Entity | undefined): PrismaKey {
+        const table = this.tableOf(entity);
+        const column = table?.columns.find(candidate => candidate.name === table.primaryKey[0]);
+        if (column && isAttribute(column.member)) {
+            return { name: column.member.name, type: prismaTypes[column.member.type as Exclude<DATATYPE, 'void'>] };
+        }
+        return { name: 'id', type: this.dialect === 'sqlite' ? 'Int' : 'BigInt' };
+    }
+
+    private nativeType(column: SqlColumn): Array<string> {
+        const match = /^([A-Z0-9]+)(?:\((.+)\))?$/.exec(column.type);
+        const name = match ? nativeTypes[match[1]] : undefined;
+        if (this.dialect === 'sqlite' || !match || !name) {
+            return [];
+        }
+        return [`@db.${name}${match[2] ? `(${match[2].split(',').map(part => part.trim()).join(', ')})` : ''}`];
+    }
+
+    private scalar(table: SqlTable, column: SqlColumn): PrismaField {
+        const member = column.member;
+        const optional = column.nullable ? '?' : '';
+        const primary = table.primaryKey.length === 1 && table.primaryKey[0] === column.name;
+        let field: PrismaField;
+        if (!member) {
+            field = { name: column.name, type: this.keyOf(table.entity).type, attributes: ['@default(autoincrement())'] };
+        } else if (isAttribute(member)) {
+            field = {
+                name: member.name,
+                type: prismaTypes[member.type as Exclude<DATATYPE, 'void'>] + optional,
+                attributes: member.type === 'uuid' && primary ? ['@default(uuid())'] : [],
+                comment: member.comment ?? member.fullName
+            };
+        } else if (member.$type === 'EnumEntityAtribute') {
+            const values = getRef(member.type)?.attributes.map(value => value.name) ?? [];
+            const comment = [member.comment, values.length > 0 ? values.join(' | ') : undefined].filter(line => line !== undefined).join('\n');
+            field = { name: member.name, type: `String${optional}`, attributes: [], comment: comment.length > 0 ? comment : undefined };
+        } else {
+            field = { name: toCamelCase(column.name), type: this.foreignKeyType(table, column, member) + optional, attributes: [] };
+        }
+        field.column = column.name;
+        if (primary) field.attributes.unshift('@id');
+        if (column.unique) field.attributes.push('@unique');
+        if (field.name !== column.name) field.attributes.push(`@map("${column.name}")`);
+        field.attributes.push(...this.nativeType(column));
+        return field;
+    }
+
+    /** Type of a foreign key column: the key of the entity it references. */
+    private foreignKeyType(table: SqlTable, column: SqlColumn, relation: Relation): string {
+        if (isManyToMany(relation)) {
+            const columns = table.columns.filter(candidate => candidate.member === relation);
+            return this.keyOf(columns.indexOf(column) === 0 ? relation.$container : getRef(relation.type)).type;
+        }
+        return this.keyOf(getRef(relation.type)).type;
+    }
+
+    private add(table: SqlTable, field: PrismaField): void {
+        this.fields.get(table)!.push(field);
+    }
+
+    /** A free field name on `table`'s model, qualified by the relation when the plain one is taken. */
+    private fieldName(table: SqlTable, name: string, relation: Relation): string {
+        const taken = (candidate: string) => this.fields.get(table)!.some(field => field.name === candidate);
+        return taken(name) ? `${name}As${toPascalCase(relation.name)}` : name;
+    }
+
+    /** Name of the field answering `relation` on its target: the inverse when it points back at `source`. */
+    private backName(relation: Relation, source: LocalEntity, target: LocalEntity, many: boolean): string {
+        const inverse = this.index.getInverse(relation);
+        const name = inverse && inverse.$container === target && getRef(inverse.type) === source
+            ? inverse.name
+            : toCamelCase(many ? toPlural(source.name) : source.name);
+        return this.fieldName(this.tableOf(target)!, name, relation);
+    }
+
+    /** `ManyToOne` and owning `OneToOne` sides, with the list or optional field answering them on the target. */
+    private foreignKeys(table: SqlTable): void {
+        const entity = table.entity!;
+        for (const column of table.columns) {
+            const relation = column.member;
+            if (!relation || (relation.$type !== 'ManyToOne' && relation.$type !== 'OneToOne')) {
+                continue;
+            }
+            const target = getRef(relation.type);
+            const targetTable = this.tableOf(target);
+            if (!targetTable) {
+                continue;
+            }
+            const name = `${this.modelOf(entity)}${toPascalCase(relation.name)}`;
+            const key = this.keyOf(target);
+            this.add(table, {
+                name: this.fieldName(table, relation.name, relation),
+                type: `${this.modelOf(target as LocalEntity)}?`,
+                attributes: [`@relation("${name}", fields: [${toCamelCase(column.name)}], references: [${key.name}])`],
+                comment: relation.comment
+            });
+            const many = relation.$type === 'ManyToOne';
+            this.add(targetTable, {
+                name: this.backName(relation, entity, target as LocalEntity, many),
+                type: many ? `${this.modelOf(entity)}[]` : `${this.modelOf(entity)}?`,
+                attributes: [`@relation("${name}")`]
+            });
+        }
+    }
+
+    /**
+     * Links both sides of a `ManyToMany` through an explicit join model: the
+     * `by` entity, or a model mapped to the join table of `generateSql`.
+     */
+    private manyToMany(table: SqlTable, relation: Relation): void {
+        const entity = table.entity!;
+        const target = getRef(relation.type);
+        const targetTable = this.tableOf(target);
+        if (!targetTable || !isManyToMany(relation)) {
+            return;
+        }
+        const by = relation.by ? getRef(relation.by) : undefined;
+        const byTable = this.tableOf(by);
+        const join = byTable ?? this.tables.find(candidate => candidate.relation === relation && candidate.name === `${table.name}_${toSnakeCase(relation.name)}`);
+        if (!join || (byTable && entity !== relation.$container)) {
+            return;
+        }
+        const [source, other] = join.columns.filter(column => column.member === relation);
+        if (!source || !other) {
+            return;
+        }
+        const model = this.names.get(join)!;
+        const link = (column: SqlColumn, linked: SqlTable, back: string, comment?: string) => {
+            const field = toCamelCase(column.name.replace(/_id$/, ''));
+            const name = `${model}${toPascalCase(field)}`;
+            this.add(join, {
+                name: field,
+                type: this.names.get(linked)!,
+                attributes: [`@relation("${name}", fields: [${toCamelCase(column.name)}], references: [${this.keyOf(linked.entity).name}])`]
+            });
+            this.add(linked, { name: back, type: `${model}[]`, attributes: [`@relation("${name}")`], comment });
+        };
+        link(source, table, this.fieldName(table, relation.name, relation), relation.comment);
+        link(other, targetTable, this.backName(relation, entity, target as LocalEntity, true));
+    }
+
+    private render(table: SqlTable): Array<string> {
+        const name = this.names.get(table)!;
+        const fields = this.fields.get(table)!;
+        const nameWidth = Math.max(...fields.map(field => field.name.length));
+        const typeWidth = Math.max(...fields.map(field => field.type.length));
+        const lines = fields.flatMap(field => [
+            ...documentation(field.comment, '  '),
+            `  ${field.name.padEnd(nameWidth)} ${field.type.padEnd(typeWidth)} ${field.attributes.join(' ')}`.trimEnd()
+        ]);
+        const extra: Array<string> = [];
+        if (table.primaryKey.length > 1) {
+            const key = table.primaryKey.map(column => fields.find(field => field.column === column)?.name ?? column);
+            extra.push(`  @@id([${key.join(', ')}])`);
+        }
+        if (table.name !== name) {
+            extra.push(`  @@map("${table.name}")`);
+        }
+        return [
+            ...documentation(table.entity?.comment),
+            `model ${name} {`,
+            ...lines,
+            ...(extra.length > 0 ? ['', ...extra] : []),
+            '}'
+        ];
+    }
+}
+
+/**
+ * Generates a `schema.prisma` for a model, laid out like the tables of
+ * `generateSql` so both can target the same database. Each concrete
+ * `LocalEntity` becomes a model with its inherited members and the datasource
+ * provider follows `Configuration.database_name`. Enum attributes are `String`
+ * columns listing their values, as `generateSql` stores them in a checked
+ * `VARCHAR` rather than a native enum.
+ * Every relation gets a field on both sides. `ManyToMany` relations go through
+ * an explicit join model: the `by` entity, or one mapped to the join table
+ * (`OrderTags` for `order_tags`), since Prisma's implicit `_OrderTags` table
+ * would not match the DDL.
+ */
+export function generatePrisma(model: Model, options: PrismaOptions = {}): string {
+    return new PrismaSchema(model, options.dialect ?? resolveSqlDialect(model)).generate();
+}
+
+/** The `node-prisma` target: Prisma Client derives entities and queries from `prisma/schema.prisma`. */
+export const prismaGenerator: LanguageGenerator = {
+    enumeration: () => [],
+    entity: () => [],
+    dto: () => [],
+    repository: () => [],
+    support: context => [{ path: 'prisma/schema.prisma', content: generatePrisma(context.model, { dialect: context.dialect }) }]
+};
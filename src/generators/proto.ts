@@ -0,0 +1,335 @@
+import { DATATYPE, EnumX, Model, Module, getRef, isEnumX, isModule } from "../models/model.js";
+import { FunctionEntity, LocalEntity, getFunctionParameters, isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes, getEffectiveFunctions, getEffectiveRelations } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { getEntityKey, getModuleSegments, getPackageSegments } from "./code-model.js";
+import { GeneratedFile } from "./files.js";
+import { toPascalCase, toSnakeCase } from "./naming.js";
+
+export interface ProtoFieldAllocation {
+    number: number;
+    /** Wire type the number was allocated for; enum values have none. */
+    type?: string;
+}
+
+/** Numbers of one message or enum. Retired numbers and names are never reused. */
+export interface ProtoNumbering {
+    fields: Record<string, ProtoFieldAllocation>;
+    reservedNumbers: Array<number>;
+    reservedNames: Array<string>;
+}
+
+/**
+ * Field and enum value numbers by qualified name, e.g. `Sales.Customer`. Keep
+ * it next to the generated files and pass it back on the next run.
+ */
+export interface ProtoAllocations {
+    messages: Record<string, ProtoNumbering>;
+    enums: Record<string, ProtoNumbering>;
+}
+
+export interface ProtoOptions {
+    /** Allocations of the previous run; numbering starts from scratch without them. */
+    allocations?: ProtoAllocations;
+}
+
+export interface ProtoResult {
+    files: Array<GeneratedFile>;
+    /** Allocations after this run, to be persisted. */
+    allocations: ProtoAllocations;
+}
+
+/** Proto type of each data type. Exact amounts and dates travel as strings. */
+export const protoTypes: Record<Exclude<DATATYPE, 'void'>, string> = {
+    boolean: 'bool', cnpj: 'string', cpf: 'string', currency: 'string', date: 'string', datetime: 'google.protobuf.Timestamp',
+    decimal: 'double', email: 'string', file: 'bytes', integer: 'int32', mobilePhoneNumber: 'string',
+    phoneNumber: 'string', string: 'string', uuid: 'string', zipcode: 'string'
+};
+
+const wellKnownImports: Record<string, string> = {
+    'google.protobuf.Timestamp': 'google/protobuf/timestamp.proto',
+    'google.protobuf.Empty': 'google/protobuf/empty.proto'
+};
+
+/** Numbers reserved by the protobuf implementation. */
+const implementationRange = { from: 19000, to: 19999 };
+
+function cloneNumbering(numbering: ProtoNumbering): ProtoNumbering {
+    return {
+        fields: Object.fromEntries(Object.entries(numbering.fields).map(([name, field]) => [name, { ...field }])),
+        reservedNumbers: [...numbering.reservedNumbers],
+        reservedNames: [...numbering.reservedNames]
+    };
+}
+
+function cloneAllocations(allocations: ProtoAllocations | undefined): ProtoAllocations {
+    const clone = (table: Record<string, ProtoNumbering> = {}) =>
+        Object.fromEntries(Object.entries(table).map(([name, numbering]) => [name, cloneNumbering(numbering)]));
+    return { messages: clone(allocations?.messages), enums: clone(allocations?.enums) };
+}
+
+/** Hands out the numbers of one message or enum, keeping the ones already allocated. */
+class Numberer {
+    private readonly used = new Set<string>();
+
+    constructor(private readonly numbering: ProtoNumbering) {}
+
+    /** Number of a field; a field whose type changed gets a new number and its old one is reserved. */
+    allocate(name: string, type?: string): number {
+        this.used.add(name);
+        const current = this.numbering.fields[name];
+        if (current && current.type === type) {
+            return current.number;
+        }
+        if (current) {
+            this.numbering.reservedNumbers.push(current.number);
+        }
+        this.numbering.reservedNames = this.numbering.reservedNames.filter(reserved => reserved !== name);
+        const number = this.next();
+        this.numbering.fields[name] = type === undefined ? { number } : { number, type };
+        return number;
+    }
+
+    /** Reserves the numbers and names of the fields that were not allocated in this run. */
+    retire(): void {
+        for (const [name, field] of Object.entries(this.numbering.fields)) {
+            if (!this.used.has(name)) {
+                delete this.numbering.fields[name];
+                this.numbering.reservedNumbers.push(field.number);
+                this.numbering.reservedNames.push(name);
+            }
+        }
+        this.numbering.reservedNumbers.sort((a, b) => a - b);
+    }
+
+    private next(): number {
+        const numbers = [...Object.values(this.numbering.fields).map(field => field.number), ...this.numbering.reservedNumbers];
+        const next = Math.max(0, ...numbers) + 1;
+        return next >= implementationRange.from && next <= implementationRange.to ? implementationRange.to + 1 : next;
+    }
+}
+
+function comment(text: string | undefined, indent = ''): Array<string> {
+    return text === undefined ? [] : text.split(/\r?\n/).map(line => `${indent}// ${line}`);
+}
+
+function reservations(numbering: ProtoNumbering, rename: (name: string) => string = name => name): Array<string> {
+    const lines: Array<string> = [];
+    if (numbering.reservedNumbers.length > 0) {
+        lines.push(`  reserved ${numbering.reservedNumbers.join(', ')};`);
+    }
+    if (numbering.reservedNames.length > 0) {
+        lines.push(`  reserved ${numbering.reservedNames.map(name => `"${rename(name)}"`).join(', ')};`);
+    }
+    return lines;
+}
+
+interface Field {
+    name: string;
+    type: string;
+    label?: 'optional' | 'repeated';
+    comment?: string;
+}
+
+class ProtoFile {
+    private readonly imports = new Set<string>();
+    private readonly blocks: Array<Array<string>> = [];
+
+    constructor(readonly path: string, readonly protoPackage: string, private readonly generator: ProtoGenerator) {}
+
+    get isEmpty(): boolean {
+        return this.blocks.length === 0;
+    }
+
+    /** Name of a type as seen from this file, importing the file that declares it. */
+    use(type: string | EnumX): string {
+        if (typeof type === 'string') {
+            if (wellKnownImports[type]) {
+                this.imports.add(wellKnownImports[type]);
+            }
+            return type;
+        }
+        const file = this.generator.fileOf(type);
+        if (file === this) {
+            return type.name;
+        }
+        this.imports.add(file.path);
+        return `${file.protoPackage}.${type.name}`;
+    }
+
+    add(lines: Array<string>): void {
+        this.blocks.push(lines);
+    }
+
+    message(name: string, key: string, fields: Array<Field>, description?: string): void {
+        const numberer = this.generator.numberer('messages', key);
+        const lines = fields.map(field => {
+            const type = this.use(field.type);
+            const number = numberer.allocate(field.name, field.label === 'repeated' ? `repeated ${type}` : type);
+            return [...comment(field.comment, '  '), `  ${field.label ? `${field.label} ` : ''}${type} ${field.name} = ${number};`];
+        });
+        numberer.retire();
+        const numbering = this.generator.allocations.messages[key];
+        this.add([...comment(description), `message ${name} {`, ...reservations(numbering), ...lines.flat(), '}']);
+    }
+
+    render(): GeneratedFile {
+        const imports = [...this.imports].sort().map(path => `import "${path}";`);
+        const header = [`syntax = "proto3";`, '', `package ${this.protoPackage};`, ...(imports.length > 0 ? ['', ...imports] : [])];
+        return { path: this.path, content: [header, ...this.blocks].map(lines => lines.join('\n')).join('\n\n') + '\n' };
+    }
+}
+
+class ProtoGenerator {
+    readonly allocations: ProtoAllocations;
+    private readonly files = new Map<string, ProtoFile>();
+    private readonly root: Array<string>;
+
+    constructor(private readonly model: Model, options: ProtoOptions) {
+        this.allocations = cloneAllocations(options.allocations);
+        this.root = getPackageSegments(model).map(segment => toSnakeCase(segment));
+    }
+
+    generate(): ProtoResult {
+        for (const enumeration of getAllContentsOfType(this.model, isEnumX)) {
+            this.enumeration(enumeration);
+        }
+        for (const entity of getAllContentsOfType(this.model, isLocalEntity).filter(entity => !entity.is_abstract)) {
+            this.entity(entity);
+        }
+        for (const module of getAllContentsOfType(this.model, isModule)) {
+            this.service(module);
+        }
+        const files = [...this.files.values()].filter(file => !file.isEmpty).map(file => file.render());
+        return { files, allocations: this.allocations };
+    }
+
+    /** One file per module; enums declared outside modules go to `enums.proto`. */
+    fileOf(node: LocalEntity | EnumX | Module): ProtoFile {
+        const segments = [...this.root, ...(isModule(node) ? this.moduleSegments(node) : getModuleSegments(node).map(toSnakeCase))];
+        const inModule = segments.length > this.root.length;
+        const path = inModule ? `${segments.join('/')}.proto` : `${[...segments, 'enums'].join('/')}.proto`;
+        if (!this.files.has(path)) {
+            this.files.set(path, new ProtoFile(path, segments.join('.'), this));
+        }
+        return this.files.get(path)!;
+    }
+
+    numberer(kind: keyof ProtoAllocations, key: string): Numberer {
+        const table = this.allocations[kind];
+        table[key] ??= { fields: {}, reservedNumbers: [], reservedNames: [] };
+        return new Numberer(table[key]);
+    }
+
+    private moduleSegments(module: Module): Array<string> {
+        const segments: Array<string> = [];
+        let current: Model | Module = module;
+        while (isModule(current)) {
+            segments.unshift(...current.name.split('.').map(toSnakeCase));
+            current = current.$container;
+        }
+        return segments;
+    }
+
+    /** proto3 enums start at an `_UNSPECIFIED` zero value, and values are prefixed with the enum name. */
+    private enumeration(enumeration: EnumX): void {
+        const key = getQualifiedName(enumeration)!;
+        const prefix = toSnakeCase(enumeration.name).toUpperCase();
+        const rename = (name: string) => `${prefix}_${toSnakeCase(name).toUpperCase()}`;
+        const numberer = this.numberer('enums', key);
+        const values = enumeration.attributes.map(value => [
+            ...comment(value.comment ?? value.fullName, '  '),
+            `  ${rename(value.name)} = ${numberer.allocate(value.name)};`
+        ]);
+        numberer.retire();
+        this.fileOf(enumeration).add([
+            ...comment(enumeration.comment),
+            `enum ${enumeration.name} {`,
+            ...reservations(this.allocations.enums[key], rename),
+            `  ${prefix}_UNSPECIFIED = 0;`,
+            ...values.flat(),
+            '}'
+        ]);
+    }
+
+    /** Messages flatten inheritance; relations are carried as the keys of their targets. */
+    private entity(entity: LocalEntity): void {
+        const file = this.fileOf(entity);
+        const key = getEntityKey(entity);
+        const fields: Array<Field> = [{ name: toSnakeCase(key.name), type: key.attribute ? protoTypes[key.attribute.type as Exclude<DATATYPE, 'void'>] : 'int64' }];
+        for (const attribute of getEffectiveAttributes(entity)) {
+            if (attribute.type !== 'void' && attribute !== key.attribute) {
+                fields.push({
+                    name: toSnakeCase(attribute.name),
+                    type: protoTypes[attribute.type],
+                    label: attribute.blank ? 'optional' : undefined,
+                    comment: attribute.comment ?? attribute.fullName
+                });
+            }
+        }
+        for (const attribute of getEffectiveEnumAttributes(entity)) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                fields.push({ name: toSnakeCase(attribute.name), type: file.use(enumeration), comment: attribute.comment });
+            }
+        }
+        for (const relation of getEffectiveRelations(entity)) {
+            const target = getRef(relation.type);
+            const declared = isLocalEntity(target) ? getEntityKey(target).attribute : undefined;
+            const type = declared ? protoTypes[declared.type as Exclude<DATATYPE, 'void'>] : 'int64';
+            fields.push(targetCardinality[relation.$type] === 'many'
+                ? { name: `${toSnakeCase(relation.name)}_ids`, type, label: 'repeated', comment: relation.comment }
+                : { name: `${toSnakeCase(relation.name)}_id`, type, label: 'optional', comment: relation.comment });
+        }
+        file.message(entity.name, getQualifiedName(entity)!, fields, entity.comment);
+    }
+
+    /** A `<Module>Service` with one rpc per function of the module's concrete entities. */
+    private service(module: Module): void {
+        const file = this.fileOf(module);
+        const rpcs: Array<Array<string>> = [];
+        for (const entity of module.elements.filter(isLocalEntity).filter(entity => !entity.is_abstract)) {
+            for (const fn of getEffectiveFunctions(entity)) {
+                rpcs.push(this.rpc(file, module, entity, fn));
+            }
+        }
+        if (rpcs.length > 0) {
+            const name = toPascalCase(module.name.split('.').pop()!);
+            file.add([...comment(module.comment), `service ${name}Service {`, ...rpcs.flat(), '}']);
+        }
+    }
+
+    private rpc(file: ProtoFile, module: Module, entity: LocalEntity, fn: FunctionEntity): Array<string> {
+        const name = `${entity.name}${toPascalCase(fn.name)}`;
+        const scope = getQualifiedName(module)!;
+        const key = getEntityKey(entity);
+        file.message(`${name}Request`, `${scope}.${name}Request`, [
+            { name: toSnakeCase(key.name), type: key.attribute ? protoTypes[key.attribute.type as Exclude<DATATYPE, 'void'>] : 'int64' },
+            ...getFunctionParameters(fn).map(element => ({
+                name: toSnakeCase(element.name),
+                type: protoTypes[element.type as Exclude<DATATYPE, 'void'>],
+                comment: element.comment
+            }))
+        ]);
+        let response = file.use('google.protobuf.Empty');
+        if (fn.response !== 'void') {
+            response = `${name}Response`;
+            file.message(response, `${scope}.${response}`, [{ name: 'result', type: protoTypes[fn.response] }]);
+        }
+        return [...comment(fn.comment, '  '), `  rpc ${name}(${name}Request) returns (${response});`];
+    }
+}
+
+/**
+ * Generates `.proto` files for a model: one per `Module`, in the package
+ * `package_path` plus the module path, with a message per concrete
+ * `LocalEntity`, an enum per `EnumX` and a `<Module>Service` with an rpc per
+ * function. Field numbers come from `options.allocations`: fields keep their
+ * number across runs, and the numbers of removed or retyped fields are
+ * reserved instead of reused. Persist the returned allocations for the next run.
+ */
+export function generateProto(model: Model, options: ProtoOptions = {}): ProtoResult {
+    return new ProtoGenerator(model, options).generate();
+}
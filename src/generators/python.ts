@@ -0,0 +1,396 @@
+import { DATATYPE, Entity, EnumX, Relation, getRef } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getEffectiveRelationMembers } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { CodeContext, LanguageGenerator, RelationMapping, getEntityKey, getEntityName, getLocalSuperType, getModuleSegments, getRelationMappings, getTable } from "./code-model.js";
+import { SqlColumn, SqlTable } from "./sql.js";
+import { getDataTypeSchema } from "./json-schema.js";
+import { GeneratedFile } from "./files.js";
+import { toSnakeCase } from "./naming.js";
+
+/** Python type of each data type; `pythonTypeImports` says where the non-builtin ones come from. */
+export const pythonTypes: Record<DATATYPE, string> = {
+    boolean: 'bool', cnpj: 'str', cpf: 'str', currency: 'Decimal', date: 'datetime.date', datetime: 'datetime.datetime',
+    decimal: 'Decimal', email: 'str', file: 'bytes', integer: 'int', mobilePhoneNumber: 'str',
+    phoneNumber: 'str', string: 'str', uuid: 'uuid.UUID', void: 'None', zipcode: 'str'
+};
+
+export const pythonTypeImports: Partial<Record<string, { module: string; name?: string }>> = {
+    'Decimal': { module: 'decimal', name: 'Decimal' },
+    'datetime.date': { module: 'datetime' },
+    'datetime.datetime': { module: 'datetime' },
+    'uuid.UUID': { module: 'uuid' }
+};
+
+/** SQLAlchemy column type of each data type, with the sizes `generateSql` uses. */
+export const sqlAlchemyTypes: Record<Exclude<DATATYPE, 'void'>, string> = {
+    boolean: 'Boolean', cnpj: 'String(14)', cpf: 'String(11)', currency: 'Numeric(19, 2)', date: 'Date', datetime: 'DateTime',
+    decimal: 'Numeric(19, 4)', email: 'String(254)', file: 'LargeBinary', integer: 'Integer', mobilePhoneNumber: 'String(20)',
+    phoneNumber: 'String(20)', string: 'String(255)', uuid: 'Uuid', zipcode: 'String(8)'
+};
+
+const textTypes: Array<DATATYPE> = ['email', 'mobilePhoneNumber', 'phoneNumber', 'string'];
+const standardModules = ['datetime', 'decimal', 'enum', 'typing', 'uuid'];
+
+function packageOf(node: LocalEntity | EnumX, context: CodeContext): Array<string> {
+    return [...context.packageSegments, ...getModuleSegments(node)].map(toSnakeCase);
+}
+
+function moduleOf(node: LocalEntity | EnumX, layer: 'enums' | 'models' | 'schemas' | 'repositories', context: CodeContext): string {
+    return [...packageOf(node, context), layer, toSnakeCase(node.name)].join('.');
+}
+
+function docstring(text: string | undefined, indent: string): Array<string> {
+    return text === undefined ? [] : [`${indent}"""${text.replace(/"""/g, '\\"\\"\\"').replace(/\r?\n/g, ' ')}"""`, ''];
+}
+
+class PythonFile {
+    private readonly imports = new Map<string, Set<string>>();
+    private readonly typeImports = new Map<string, Set<string>>();
+
+    constructor(readonly module: string, private readonly context: CodeContext) {}
+
+    /** `from module import name`, or `import module` without a name. */
+    import(module: string, name?: string, typeOnly = false): void {
+        if (module === this.module) {
+            return;
+        }
+        const imports = typeOnly ? this.typeImports : this.imports;
+        imports.set(module, (imports.get(module) ?? new Set()).add(name ?? ''));
+    }
+
+    use(type: DATATYPE): string {
+        const python = pythonTypes[type];
+        const source = pythonTypeImports[python];
+        if (source) {
+            this.import(source.module, source.name);
+        }
+        return python;
+    }
+
+    render(body: Array<string>): GeneratedFile {
+        const root = this.context.packageSegments.map(toSnakeCase)[0];
+        const statements = (imports: Map<string, Set<string>>, local: boolean | undefined) => [...imports]
+            .filter(([module]) => local === undefined || (module.split('.')[0] === root) === local)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .flatMap(([module, names]) => {
+                const named = [...names].filter(name => name.length > 0).sort();
+                return [
+                    ...(names.has('') ? [`import ${module}`] : []),
+                    ...(named.length > 0 ? [`from ${module} import ${named.join(', ')}`] : [])
+                ];
+            })
+            .sort((a, b) => Number(a.startsWith('from')) - Number(b.startsWith('from')));
+        if (this.typeImports.size > 0) {
+            this.import('typing', 'TYPE_CHECKING');
+        }
+        const standard = statements(new Map([...this.imports].filter(([module]) => standardModules.includes(module))), undefined);
+        const external = statements(new Map([...this.imports].filter(([module]) => !standardModules.includes(module))), false);
+        const local = statements(this.imports, true);
+        const sections = [['from __future__ import annotations'], standard, external, local]
+            .filter(section => section.length > 0);
+        if (this.typeImports.size > 0) {
+            sections.push(['if TYPE_CHECKING:', ...statements(this.typeImports, undefined).map(line => `    ${line}`)]);
+        }
+        const header = sections.flatMap(section => [...section, '']);
+        return { path: `${this.module.replace(/\./g, '/')}.py`, content: [...header, '', ...body].join('\n') + '\n' };
+    }
+}
+
+function keyPythonType(file: PythonFile, entity: Entity | undefined): string {
+    const key = isLocalEntity(entity) ? getEntityKey(entity).attribute : undefined;
+    return key ? file.use(key.type) : 'int';
+}
+
+/** Column type of `generateSql`, as a SQLAlchemy type expression. */
+function columnType(file: PythonFile, attribute: Attribute): string {
+    const type = sqlAlchemyTypes[attribute.type as Exclude<DATATYPE, 'void'>];
+    file.import('sqlalchemy', type.replace(/\(.*$/, ''));
+    return textTypes.includes(attribute.type) && attribute.max !== undefined ? `String(${attribute.max})` : type;
+}
+
+function mappedColumn(file: PythonFile, column: SqlColumn, table: SqlTable, context: CodeContext): string | undefined {
+    const member = column.member;
+    const options: Array<string> = [];
+    let type: string;
+    if (!member || member.$type === 'Attribute') {
+        if (member) {
+            type = file.use(member.type);
+            options.push(columnType(file, member));
+        } else {
+            type = 'int';
+            file.import('sqlalchemy', 'BigInteger');
+            options.push('BigInteger');
+        }
+    } else if (member.$type === 'EnumEntityAtribute') {
+        const enumeration = getRef(member.type);
+        if (!enumeration) {
+            return undefined;
+        }
+        type = enumeration.name;
+        file.import(moduleOf(enumeration, 'enums', context), enumeration.name);
+        file.import('sqlalchemy', 'Enum');
+        options.push(`Enum(${enumeration.name}, native_enum=False)`);
+    } else {
+        const foreignKey = table.foreignKeys.find(candidate => candidate.column === column.name);
+        const referenced = context.tables.find(candidate => candidate.name === foreignKey?.referencedTable);
+        type = keyPythonType(file, referenced?.entity);
+        if (foreignKey) {
+            file.import('sqlalchemy', 'ForeignKey');
+            options.push(`ForeignKey("${foreignKey.referencedTable}.${foreignKey.referencedColumn}")`);
+        }
+    }
+    if (table.primaryKey.includes(column.name)) options.push('primary_key=True');
+    if (column.autoIncrement) options.push('autoincrement=True');
+    if (column.unique) options.push('unique=True');
+    if (column.nullable) {
+        file.import('typing', 'Optional');
+        type = `Optional[${type}]`;
+    }
+    return `    ${column.name}: Mapped[${type}] = mapped_column(${options.join(', ')})`;
+}
+
+function joinTableName(mapping: RelationMapping): string {
+    return `${mapping.joinTable!.name}_table`;
+}
+
+/** Join table of a `ManyToMany`, read from the owning side when the relation is mapped by its inverse. */
+function secondaryOf(mapping: RelationMapping, context: CodeContext): RelationMapping['joinTable'] {
+    if (mapping.joinTable || !mapping.mappedBy || mapping.relation.$type !== 'ManyToMany') {
+        return mapping.joinTable;
+    }
+    const owner = getRelationMappings(mapping.mappedBy.$container, context).find(candidate => candidate.relation === mapping.mappedBy);
+    return owner?.joinTable;
+}
+
+/** Both sides of a pair declare `back_populates` when both are mapped on concrete models. */
+function backPopulates(mapping: RelationMapping, context: CodeContext): string | undefined {
+    const inverse = context.relations.getInverse(mapping.relation);
+    return inverse && !context.relations.isImplicit(inverse) && inverse.$container === mapping.target && !inverse.$container.is_abstract
+        ? toSnakeCase(inverse.name)
+        : undefined;
+}
+
+function relationship(file: PythonFile, mapping: RelationMapping, context: CodeContext): Array<string> {
+    const target = mapping.target as LocalEntity;
+    // Same-named models are imported under their qualified name and found in the registry by module path.
+    const name = getEntityName(target, context);
+    const path = name === target.name ? target.name : `${moduleOf(target, 'models', context)}.${target.name}`;
+    file.import(moduleOf(target, 'models', context), name === target.name ? name : `${target.name} as ${name}`, true);
+    file.import('sqlalchemy.orm', 'relationship');
+    const options: Array<string> = name === target.name ? [] : [`"${path}"`];
+    const secondary = secondaryOf(mapping, context);
+    let viewOnly = false;
+    if (mapping.joinColumn) {
+        options.push(`foreign_keys=[${mapping.joinColumn}]`);
+    } else if (mapping.targetColumn) {
+        options.push(`foreign_keys="[${path}.${mapping.targetColumn}]"`);
+    } else if (secondary) {
+        // A `by` entity's table is mapped by its own model, so the relation only reads it.
+        viewOnly = context.tables.find(table => table.name === secondary.name)?.relation === undefined;
+        options.push(mapping.joinTable && !viewOnly ? `secondary=${joinTableName(mapping)}` : `secondary="${secondary.name}"`);
+        if (viewOnly) {
+            options.push('viewonly=True');
+        }
+    }
+    const inverse = backPopulates(mapping, context);
+    if (inverse && !viewOnly) {
+        options.push(`back_populates="${inverse}"`);
+    }
+    let type = name;
+    if (mapping.many) {
+        type = `list[${type}]`;
+    } else {
+        file.import('typing', 'Optional');
+        type = `Optional[${type}]`;
+    }
+    return [`    ${toSnakeCase(mapping.relation.name)}: Mapped[${type}] = relationship(${options.join(', ')})`];
+}
+
+function joinTable(file: PythonFile, mapping: RelationMapping, context: CodeContext): Array<string> {
+    const table = context.tables.find(candidate => candidate.name === mapping.joinTable!.name)!;
+    file.import('sqlalchemy', 'Column');
+    file.import('sqlalchemy', 'ForeignKey');
+    file.import('sqlalchemy', 'Table');
+    return [
+        `${joinTableName(mapping)} = Table(`,
+        `    "${table.name}",`,
+        '    database.Base.metadata,',
+        ...table.foreignKeys.map(foreignKey =>
+            `    Column("${foreignKey.column}", ForeignKey("${foreignKey.referencedTable}.${foreignKey.referencedColumn}"), primary_key=True),`),
+        ')'
+    ];
+}
+
+/** Pydantic `Field` arguments mirroring `min`, `max` and the data type patterns. */
+function fieldArguments(attribute: Attribute): Array<string> {
+    const args: Array<string> = [];
+    if (textTypes.includes(attribute.type)) {
+        if (attribute.min !== undefined) args.push(`min_length=${attribute.min}`);
+        if (attribute.max !== undefined) args.push(`max_length=${attribute.max}`);
+    } else if (attribute.type === 'integer' || attribute.type === 'currency' || attribute.type === 'decimal') {
+        if (attribute.min !== undefined) args.push(`ge=${attribute.min}`);
+        if (attribute.max !== undefined) args.push(`le=${attribute.max}`);
+    }
+    const pattern = getDataTypeSchema(attribute.type).pattern;
+    if (pattern) args.push(`pattern=r"${pattern}"`);
+    return args;
+}
+
+function blocks(parts: Array<Array<string>>, separator: Array<string>): Array<string> {
+    return parts.flatMap((part, position) => position > 0 ? [...separator, ...part] : part);
+}
+
+/**
+ * SQLAlchemy 2.0 models, Pydantic schemas and session-based repositories.
+ * Models are flat, one per table of `generateSql` (abstract entities get no
+ * model); schemas keep the inheritance chain.
+ */
+export const pythonGenerator: LanguageGenerator = {
+    enumeration(enumeration, context) {
+        const file = new PythonFile(moduleOf(enumeration, 'enums', context), context);
+        file.import('enum');
+        const values = enumeration.attributes.map(value => `    ${value.name} = "${value.name}"`);
+        return [file.render([
+            `class ${enumeration.name}(str, enum.Enum):`,
+            ...docstring(enumeration.comment, '    '),
+            ...(values.length > 0 ? values : ['    pass'])
+        ])];
+    },
+
+    entity(entity, context) {
+        const table = getTable(entity, context);
+        if (entity.is_abstract || !table) {
+            return [];
+        }
+        const file = new PythonFile(moduleOf(entity, 'models', context), context);
+        file.import(context.packageSegments.map(toSnakeCase).join('.'), 'database');
+        file.import('sqlalchemy.orm', 'Mapped');
+        file.import('sqlalchemy.orm', 'mapped_column');
+        const columns = table.columns
+            .map(column => mappedColumn(file, column, table, context))
+            .filter((line): line is string => line !== undefined);
+        const relations: Array<Relation> = getEffectiveRelationMembers(entity).members.map(member => member.member);
+        const mappings = [...new Set(relations.map(relation => relation.$container))]
+            .flatMap(owner => getRelationMappings(owner, context))
+            .filter(mapping => relations.includes(mapping.relation) && isLocalEntity(mapping.target) && !mapping.target.is_abstract);
+        const tables = mappings
+            .filter(mapping => mapping.joinTable && context.tables.find(candidate => candidate.name === mapping.joinTable!.name)?.relation === mapping.relation)
+            .map(mapping => joinTable(file, mapping, context));
+        const body = [
+            `class ${entity.name}(database.Base):`,
+            ...docstring(entity.comment, '    '),
+            `    __tablename__ = "${table.name}"`,
+            '',
+            ...columns,
+            ...mappings.flatMap(mapping => relationship(file, mapping, context))
+        ];
+        return [file.render(blocks([...tables, body], ['', '']))];
+    },
+
+    dto(entity, context) {
+        const file = new PythonFile(moduleOf(entity, 'schemas', context), context);
+        const superType = getLocalSuperType(entity);
+        const name = `${entity.name}Schema`;
+        const fields: Array<string> = [];
+        if (superType) {
+            file.import(moduleOf(superType, 'schemas', context), `${superType.name}Schema`);
+        } else {
+            file.import('pydantic', 'BaseModel');
+            file.import('pydantic', 'ConfigDict');
+            file.import('typing', 'Optional');
+            const key = getEntityKey(entity);
+            fields.push('    model_config = ConfigDict(from_attributes=True)', '', `    ${toSnakeCase(key.name)}: Optional[${key.attribute ? file.use(key.attribute.type) : 'int'}] = None`);
+        }
+        for (const attribute of entity.attributes) {
+            if (attribute.type === 'void' || toSnakeCase(attribute.name) === 'id') {
+                continue;
+            }
+            let type = file.use(attribute.type);
+            const args = fieldArguments(attribute);
+            if (attribute.blank) {
+                file.import('typing', 'Optional');
+                type = `Optional[${type}]`;
+                args.unshift('default=None');
+            }
+            if (args.length > 0) {
+                file.import('pydantic', 'Field');
+            }
+            const value = args.length > 0 ? ` = Field(${args.join(', ')})` : attribute.blank ? ' = None' : '';
+            fields.push(`    ${toSnakeCase(attribute.name)}: ${type}${value}`);
+        }
+        for (const attribute of entity.enumentityatributes) {
+            const enumeration = getRef(attribute.type);
+            if (enumeration) {
+                file.import(moduleOf(enumeration, 'enums', context), enumeration.name);
+                file.import('typing', 'Optional');
+                fields.push(`    ${toSnakeCase(attribute.name)}: Optional[${enumeration.name}] = None`);
+            }
+        }
+        for (const relation of entity.relations) {
+            const target = getRef(relation.type);
+            const type = keyPythonType(file, target);
+            if (targetCardinality[relation.$type] === 'many') {
+                fields.push(`    ${toSnakeCase(relation.name)}_ids: list[${type}] = []`);
+            } else {
+                file.import('typing', 'Optional');
+                fields.push(`    ${toSnakeCase(relation.name)}_id: Optional[${type}] = None`);
+            }
+        }
+        return [file.render([
+            `class ${name}(${superType ? `${superType.name}Schema` : 'BaseModel'}):`,
+            ...docstring(entity.comment, '    '),
+            ...(fields.length > 0 ? fields : ['    pass'])
+        ])];
+    },
+
+    repository(entity, context) {
+        if (entity.is_abstract) {
+            return [];
+        }
+        const file = new PythonFile(moduleOf(entity, 'repositories', context), context);
+        file.import(moduleOf(entity, 'models', context), entity.name);
+        file.import('sqlalchemy', 'select');
+        file.import('sqlalchemy.orm', 'Session');
+        file.import('typing', 'Optional');
+        const key = getEntityKey(entity);
+        const keyType = key.attribute ? file.use(key.attribute.type) : 'int';
+        return [file.render([
+            `class ${entity.name}Repository:`,
+            '    def __init__(self, session: Session) -> None:',
+            '        self.session = session',
+            '',
+            `    def find(self, id: ${keyType}) -> Optional[${entity.name}]:`,
+            `        return self.session.get(${entity.name}, id)`,
+            '',
+            `    def find_all(self) -> list[${entity.name}]:`,
+            `        return list(self.session.scalars(select(${entity.name})))`,
+            '',
+            `    def add(self, entity: ${entity.name}) -> ${entity.name}:`,
+            '        self.session.add(entity)',
+            '        self.session.flush()',
+            '        return entity',
+            '',
+            `    def delete(self, entity: ${entity.name}) -> None:`,
+            '        self.session.delete(entity)'
+        ])];
+    },
+
+    /** The declarative base and an `__init__.py` in every package. */
+    support(context, files) {
+        const root = context.packageSegments.map(toSnakeCase);
+        const database: GeneratedFile = {
+            path: `${root.join('/')}/database.py`,
+            content: 'from sqlalchemy.orm import DeclarativeBase\n\n\nclass Base(DeclarativeBase):\n    pass\n'
+        };
+        const packages = new Set<string>();
+        for (const file of [...files, database]) {
+            const segments = file.path.split('/').slice(0, -1);
+            for (let length = 1; length <= segments.length; length++) {
+                packages.add(segments.slice(0, length).join('/'));
+            }
+        }
+        return [database, ...[...packages].map(path => ({ path: `${path}/__init__.py`, content: '' }))];
+    }
+};
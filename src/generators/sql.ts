@@ -0,0 +1,325 @@
+import { DATATYPE, EnumEntityAtribute, Entity, ManyToMany, Model, Module, Relation, getRef, isManyToMany, isManyToOne, isModel, isModule, isOneToOne } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getAllContentsOfType, getContainerOfType } from "../traversal/ast-utils.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes, getEffectiveRelations } from "../inheritance/effective-members.js";
+import { RelationIndex } from "../relations/relation-index.js";
+import { toSnakeCase } from "./naming.js";
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlserver' | 'sqlite';
+
+export interface SqlOptions {
+    /** Defaults to the dialect named by `Configuration.database_name`, then to PostgreSQL. */
+    dialect?: SqlDialect;
+}
+
+export interface SqlColumn {
+    name: string;
+    type: string;
+    nullable: boolean;
+    unique: boolean;
+    autoIncrement?: boolean;
+    check?: string;
+    /** Model member the column is generated from; `undefined` for generated keys. */
+    member?: Attribute | EnumEntityAtribute | Relation;
+}
+
+export interface SqlForeignKey {
+    column: string;
+    table: string;
+    referencedTable: string;
+    referencedColumn: string;
+}
+
+export interface SqlTable {
+    name: string;
+    columns: Array<SqlColumn>;
+    primaryKey: Array<string>;
+    foreignKeys: Array<SqlForeignKey>;
+    /** Entity the table is generated from; `undefined` for join tables. */
+    entity?: LocalEntity;
+    /** Relation a join table is generated from. */
+    relation?: ManyToMany;
+}
+
+const sqlTypes: Record<SqlDialect, Record<Exclude<DATATYPE, 'void'>, string>> = {
+    postgresql: {
+        boolean: 'BOOLEAN', cnpj: 'CHAR(14)', cpf: 'CHAR(11)', currency: 'NUMERIC(19,2)', date: 'DATE', datetime: 'TIMESTAMP',
+        decimal: 'NUMERIC(19,4)', email: 'VARCHAR(254)', file: 'BYTEA', integer: 'INTEGER', mobilePhoneNumber: 'VARCHAR(20)',
+        phoneNumber: 'VARCHAR(20)', string: 'VARCHAR(255)', uuid: 'UUID', zipcode: 'CHAR(8)'
+    },
+    mysql: {
+        boolean: 'BOOLEAN', cnpj: 'CHAR(14)', cpf: 'CHAR(11)', currency: 'DECIMAL(19,2)', date: 'DATE', datetime: 'DATETIME',
+        decimal: 'DECIMAL(19,4)', email: 'VARCHAR(254)', file: 'LONGBLOB', integer: 'INT', mobilePhoneNumber: 'VARCHAR(20)',
+        phoneNumber: 'VARCHAR(20)', string: 'VARCHAR(255)', uuid: 'CHAR(36)', zipcode: 'CHAR(8)'
+    },
+    sqlserver: {
+        boolean: 'BIT', cnpj: 'CHAR(14)', cpf: 'CHAR(11)', currency: 'DECIMAL(19,2)', date: 'DATE', datetime: 'DATETIME2',
+        decimal: 'DECIMAL(19,4)', email: 'NVARCHAR(254)', file: 'VARBINARY(MAX)', integer: 'INT', mobilePhoneNumber: 'NVARCHAR(20)',
+        phoneNumber: 'NVARCHAR(20)', string: 'NVARCHAR(255)', uuid: 'UNIQUEIDENTIFIER', zipcode: 'CHAR(8)'
+    },
+    sqlite: {
+        boolean: 'INTEGER', cnpj: 'TEXT', cpf: 'TEXT', currency: 'NUMERIC', date: 'TEXT', datetime: 'TEXT',
+        decimal: 'NUMERIC', email: 'TEXT', file: 'BLOB', integer: 'INTEGER', mobilePhoneNumber: 'TEXT',
+        phoneNumber: 'TEXT', string: 'TEXT', uuid: 'TEXT', zipcode: 'TEXT'
+    }
+};
+
+const idTypes: Record<SqlDialect, string> = {
+    postgresql: 'BIGINT',
+    mysql: 'BIGINT',
+    sqlserver: 'BIGINT',
+    sqlite: 'INTEGER'
+};
+
+const numericTypes: Array<DATATYPE> = ['currency', 'decimal', 'integer'];
+const textTypes: Array<DATATYPE> = ['email', 'mobilePhoneNumber', 'phoneNumber', 'string'];
+
+/** Picks the dialect named by `Configuration.database_name`, falling back to PostgreSQL. */
+export function resolveSqlDialect(model: Model): SqlDialect {
+    const name = (model.configuration?.database_name ?? '').toLowerCase();
+    if (name.includes('mysql') || name.includes('mariadb')) {
+        return 'mysql';
+    }
+    if (name.includes('sqlserver') || name.includes('sql server') || name.includes('mssql')) {
+        return 'sqlserver';
+    }
+    if (name.includes('sqlite')) {
+        return 'sqlite';
+    }
+    return 'postgresql';
+}
+
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+    switch (dialect) {
+        case 'mysql': return `\`${name}\``;
+        case 'sqlserver': return `[${name}]`;
+        default: return `"${name}"`;
+    }
+}
+
+/**
+ * Table of an entity: its name in snake_case, prefixed with its module path
+ * (`sales_customer`) when another concrete entity of the model would get the
+ * same table.
+ */
+export function getTableName(entity: Entity): string {
+    const name = toSnakeCase(entity.name);
+    if (!isLocalEntity(entity)) {
+        return name;
+    }
+    const model = getContainerOfType(entity, isModel);
+    const clashes = model !== undefined && getAllContentsOfType(model, isLocalEntity)
+        .some(other => other !== entity && !other.is_abstract && toSnakeCase(other.name) === name);
+    if (!clashes) {
+        return name;
+    }
+    const segments: Array<string> = [];
+    for (let container: Model | Module = entity.$container; isModule(container); container = container.$container) {
+        segments.unshift(...container.name.split('.').map(toSnakeCase));
+    }
+    return [...segments, name].join('_');
+}
+
+/** Column type of an attribute, widening text columns to `max` characters when it is set. */
+export function getColumnType(type: DATATYPE, dialect: SqlDialect, max?: number): string {
+    if (type === 'void') {
+        throw new Error(`Attributes of type 'void' have no column type`);
+    }
+    if (max !== undefined && textTypes.includes(type) && dialect !== 'sqlite') {
+        return dialect === 'sqlserver' ? `NVARCHAR(${max})` : `VARCHAR(${max})`;
+    }
+    return sqlTypes[dialect][type];
+}
+
+export function getAttributeColumn(attribute: Attribute, dialect: SqlDialect): SqlColumn {
+    const name = toSnakeCase(attribute.name);
+    const column = quoteIdentifier(name, dialect);
+    const checks: Array<string> = [];
+    if (numericTypes.includes(attribute.type)) {
+        if (attribute.min !== undefined) checks.push(`${column} >= ${attribute.min}`);
+        if (attribute.max !== undefined) checks.push(`${column} <= ${attribute.max}`);
+    } else if (textTypes.includes(attribute.type)) {
+        const length = dialect === 'sqlserver' ? 'LEN' : 'LENGTH';
+        if (attribute.min !== undefined) checks.push(`${length}(${column}) >= ${attribute.min}`);
+        if (attribute.max !== undefined && dialect === 'sqlite') checks.push(`${length}(${column}) <= ${attribute.max}`);
+    }
+    return {
+        name,
+        type: getColumnType(attribute.type, dialect, attribute.max),
+        nullable: attribute.blank,
+        unique: attribute.unique,
+        check: checks.length > 0 ? checks.join(' AND ') : undefined,
+        member: attribute
+    };
+}
+
+export function getEnumColumn(attribute: EnumEntityAtribute, dialect: SqlDialect): SqlColumn {
+    const name = toSnakeCase(attribute.name);
+    const values = getRef(attribute.type)?.attributes.map(value => value.name) ?? [];
+    const length = Math.max(1, ...values.map(value => value.length));
+    const type = dialect === 'sqlite' ? 'TEXT' : dialect === 'sqlserver' ? `NVARCHAR(${length})` : `VARCHAR(${length})`;
+    const check = values.length > 0
+        ? `${quoteIdentifier(name, dialect)} IN (${values.map(value => `'${value.replace(/'/g, "''")}'`).join(', ')})`
+        : undefined;
+    return { name, type, nullable: true, unique: false, check, member: attribute };
+}
+
+function primaryKeyOf(entity: LocalEntity, dialect: SqlDialect): SqlColumn {
+    const declared = getEffectiveAttributes(entity).find(attribute => toSnakeCase(attribute.name) === 'id');
+    if (declared) {
+        return { ...getAttributeColumn(declared, dialect), nullable: false };
+    }
+    return { name: 'id', type: idTypes[dialect], nullable: false, unique: false, autoIncrement: true };
+}
+
+/**
+ * Builds the table layout of a model: one table per non-abstract `LocalEntity`
+ * with its effective attributes, foreign keys for `ManyToOne` and owning
+ * `OneToOne` sides, and a join table per `ManyToMany` (or extra foreign keys on
+ * the `by` entity when one is given).
+ */
+export function createSqlSchema(model: Model, dialect: SqlDialect): Array<SqlTable> {
+    const index = new RelationIndex(model);
+    const entities = getAllContentsOfType(model, isLocalEntity);
+    const concrete = entities.filter(entity => !entity.is_abstract);
+    const order = new Map(index.getPairs().map((pair, position) => [pair.relation, position]));
+    const tables = new Map<LocalEntity, SqlTable>();
+    const joinTables: Array<SqlTable> = [];
+
+    for (const entity of concrete) {
+        const primaryKey = primaryKeyOf(entity, dialect);
+        const columns = [
+            primaryKey,
+            ...getEffectiveAttributes(entity).filter(attribute => attribute.type !== 'void' && toSnakeCase(attribute.name) !== 'id')
+                .map(attribute => getAttributeColumn(attribute, dialect)),
+            ...getEffectiveEnumAttributes(entity).map(attribute => getEnumColumn(attribute, dialect))
+        ];
+        tables.set(entity, { name: getTableName(entity), columns, primaryKey: [primaryKey.name], foreignKeys: [], entity });
+    }
+
+    const referenceColumn = (target: Entity | undefined) => {
+        const table = isLocalEntity(target) ? tables.get(target) : undefined;
+        const key = table?.columns.find(column => column.name === table.primaryKey[0]);
+        return { table, type: key?.type ?? idTypes[dialect], column: key?.name ?? 'id' };
+    };
+
+    const addForeignKey = (table: SqlTable, column: string, target: Entity | undefined, member: Relation, unique: boolean, nullable = true) => {
+        if (table.columns.some(existing => existing.name === column)) {
+            return;
+        }
+        const reference = referenceColumn(target);
+        table.columns.push({ name: column, type: reference.type, nullable, unique, member });
+        if (reference.table) {
+            table.foreignKeys.push({ column, table: table.name, referencedTable: reference.table.name, referencedColumn: reference.column });
+        }
+    };
+
+    const owns = (relation: Relation) => {
+        const inverse = index.getInverse(relation);
+        if (!order.has(relation)) {
+            return false;
+        }
+        return !inverse || !order.has(inverse) || order.get(relation)! <= order.get(inverse)!;
+    };
+
+    for (const entity of concrete) {
+        const table = tables.get(entity)!;
+        const relations = [...getEffectiveRelations(entity), ...index.getImplicitRelations(entity)];
+        for (const relation of relations) {
+            const target = getRef(relation.type);
+            if (isManyToOne(relation)) {
+                addForeignKey(table, `${toSnakeCase(relation.name)}_id`, target, relation, false);
+            } else if (isOneToOne(relation) && owns(relation)) {
+                addForeignKey(table, `${toSnakeCase(relation.name)}_id`, target, relation, true);
+            } else if (isManyToMany(relation) && owns(relation)) {
+                const by = relation.by ? getRef(relation.by) : undefined;
+                const sourceColumn = `${table.name}_id`;
+                const targetColumn = target && sourceColumn !== `${getTableName(target)}_id`
+                    ? `${getTableName(target)}_id`
+                    : `${toSnakeCase(relation.name)}_id`;
+                const byTable = by ? tables.get(by) : undefined;
+                if (byTable) {
+                    addForeignKey(byTable, sourceColumn, entity, relation, false, false);
+                    addForeignKey(byTable, targetColumn, target, relation, false, false);
+                } else {
+                    const joinTable: SqlTable = {
+                        name: `${table.name}_${toSnakeCase(relation.name)}`,
+                        columns: [],
+                        primaryKey: [sourceColumn, targetColumn],
+                        foreignKeys: [],
+                        relation
+                    };
+                    addForeignKey(joinTable, sourceColumn, entity, relation, false, false);
+                    addForeignKey(joinTable, targetColumn, target, relation, false, false);
+                    joinTables.push(joinTable);
+                }
+            }
+        }
+    }
+
+    return [...tables.values(), ...joinTables];
+}
+
+export function renderColumn(column: SqlColumn, dialect: SqlDialect, inlinePrimaryKey = false): string {
+    const parts = [quoteIdentifier(column.name, dialect), column.type];
+    if (column.autoIncrement) {
+        if (dialect === 'sqlite' && inlinePrimaryKey) {
+            parts.push('PRIMARY KEY AUTOINCREMENT');
+        } else if (dialect === 'postgresql') {
+            parts.push('GENERATED BY DEFAULT AS IDENTITY');
+        } else if (dialect === 'mysql') {
+            parts.push('AUTO_INCREMENT');
+        } else if (dialect === 'sqlserver') {
+            parts.push('IDENTITY(1,1)');
+        }
+    }
+    if (!column.nullable && !(dialect === 'sqlite' && inlinePrimaryKey)) {
+        parts.push('NOT NULL');
+    }
+    if (column.unique) {
+        parts.push('UNIQUE');
+    }
+    if (column.check) {
+        parts.push(`CHECK (${column.check})`);
+    }
+    return parts.join(' ');
+}
+
+export function renderForeignKey(foreignKey: SqlForeignKey, dialect: SqlDialect): string {
+    const q = (name: string) => quoteIdentifier(name, dialect);
+    return `CONSTRAINT ${q(`fk_${foreignKey.table}_${foreignKey.column}`)} FOREIGN KEY (${q(foreignKey.column)}) `
+        + `REFERENCES ${q(foreignKey.referencedTable)} (${q(foreignKey.referencedColumn)})`;
+}
+
+export function renderCreateTable(table: SqlTable, dialect: SqlDialect): string {
+    const q = (name: string) => quoteIdentifier(name, dialect);
+    const sqliteAutoKey = dialect === 'sqlite' && table.columns.some(column => column.autoIncrement);
+    const lines = table.columns.map(column => renderColumn(column, dialect, sqliteAutoKey && column.autoIncrement));
+    if (!sqliteAutoKey) {
+        lines.push(`PRIMARY KEY (${table.primaryKey.map(q).join(', ')})`);
+    }
+    if (dialect === 'sqlite') {
+        lines.push(...table.foreignKeys.map(foreignKey => renderForeignKey(foreignKey, dialect)));
+    }
+    return `CREATE TABLE ${q(table.name)} (\n${lines.map(line => `    ${line}`).join(',\n')}\n);`;
+}
+
+export function renderAddForeignKey(foreignKey: SqlForeignKey, dialect: SqlDialect): string {
+    return `ALTER TABLE ${quoteIdentifier(foreignKey.table, dialect)} ADD ${renderForeignKey(foreignKey, dialect)};`;
+}
+
+/**
+ * Generates the DDL of a model. Foreign keys are added with `ALTER TABLE` after
+ * every table exists, except on SQLite where they are declared inline. Tables
+ * follow document order, so the output is stable for the same model.
+ */
+export function generateSql(model: Model, options: SqlOptions = {}): string {
+    const dialect = options.dialect ?? resolveSqlDialect(model);
+    const tables = createSqlSchema(model, dialect);
+    const statements = tables.map(table => renderCreateTable(table, dialect));
+    if (dialect !== 'sqlite') {
+        statements.push(...tables.flatMap(table => table.foreignKeys).map(foreignKey => renderAddForeignKey(foreignKey, dialect)));
+    }
+    return statements.join('\n\n') + '\n';
+}
@@ -0,0 +1,279 @@
+import { DATATYPE, Entity, EnumX, Model, Module, ModuleImport, Relation, getRef, isEnumX, isModule, isModuleImport } from "../models/model.js";
+import { FunctionEntity, LocalEntity, getFunctionParameters, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { getEffectiveAttributes } from "../inheritance/effective-members.js";
+import { targetCardinality } from "../relations/relation-index.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { GeneratedFile } from "./files.js";
+import { toKebabCase, toPascalCase, toSnakeCase } from "./naming.js";
+
+export interface TypeScriptOptions {
+    /** `id` types relations as the target's key, `object` as the target interface. Defaults to `id`. */
+    relations?: 'id' | 'object';
+    /** `union` emits `type Status = 'OPEN' | 'CLOSED'`, `enum` a string `enum`. Defaults to `union`. */
+    enums?: 'union' | 'enum';
+}
+
+/** Values as they travel in JSON: dates and files are strings. */
+const typeScriptTypes: Record<DATATYPE, string> = {
+    boolean: 'boolean', cnpj: 'string', cpf: 'string', currency: 'number', date: 'string', datetime: 'string',
+    decimal: 'number', email: 'string', file: 'string', integer: 'number', mobilePhoneNumber: 'string',
+    phoneNumber: 'string', string: 'string', uuid: 'string', void: 'void', zipcode: 'string'
+};
+
+type Declaration = Entity | EnumX;
+
+/** Names of a module and its containers, outermost first: `Sales`, `Billing` for `Sales.Billing`. */
+function moduleNames(module: Module): Array<string> {
+    const names: Array<string> = [];
+    let current: Model | Module = module;
+    while (isModule(current)) {
+        names.unshift(...current.name.split('.'));
+        current = current.$container;
+    }
+    return names;
+}
+
+function modulePath(module: Module): string {
+    return `${moduleNames(module).map(toKebabCase).join('/')}.ts`;
+}
+
+function importPath(moduleImport: ModuleImport): string {
+    return `imports/${moduleImport.name.split('.').map(toKebabCase).join('/')}.ts`;
+}
+
+/** File a declaration is emitted to. */
+function fileOf(node: Declaration): string {
+    if (isImportedEntity(node)) {
+        return importPath(node.$container);
+    }
+    return isModule(node.$container) ? modulePath(node.$container) : 'enums.ts';
+}
+
+function directoryOf(path: string): string {
+    return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+}
+
+function baseName(path: string): string {
+    return path.substring(path.lastIndexOf('/') + 1);
+}
+
+/** Import specifier of `to` as seen from `from`, both relative to the output directory. */
+function relativeImport(from: string, to: string): string {
+    const source = directoryOf(from).split('/').filter(segment => segment.length > 0);
+    const target = to.split('/');
+    let common = 0;
+    while (common < source.length && common < target.length - 1 && source[common] === target[common]) {
+        common++;
+    }
+    const up = source.length - common;
+    const prefix = up === 0 ? './' : '../'.repeat(up);
+    return `${prefix}${target.slice(common).join('/').replace(/\.ts$/, '.js')}`;
+}
+
+function docComment(text: string | undefined, indent = ''): Array<string> {
+    if (text === undefined) {
+        return [];
+    }
+    const lines = text.replace(/\*\//g, '*\\/').split(/\r?\n/);
+    return lines.length === 1
+        ? [`${indent}/** ${lines[0]} */`]
+        : [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+/** Key of an entity in `id` mode: its declared `id` attribute, or the generated numeric key. */
+function keyType(entity: Entity): string {
+    const declared = isLocalEntity(entity)
+        ? getEffectiveAttributes(entity).find(attribute => toSnakeCase(attribute.name) === 'id')
+        : undefined;
+    return declared ? typeScriptTypes[declared.type] : 'number';
+}
+
+class TypeScriptFile {
+    /** Local name of each imported declaration, by import specifier. */
+    private readonly imports = new Map<string, Map<string, string>>();
+    private readonly names: Set<string>;
+
+    constructor(readonly path: string, private readonly options: TypeScriptOptions, declarations: Array<Declaration> = []) {
+        this.names = new Set(declarations.map(node => node.name));
+    }
+
+    /**
+     * Name to use for a declaration, importing it when it lives in another file.
+     * An import that clashes with a name already in the file is aliased by its
+     * qualified name, e.g. `Customer as CrmCustomer`.
+     */
+    use(node: Declaration): string {
+        const file = fileOf(node);
+        if (file === this.path) {
+            return node.name;
+        }
+        const specifier = relativeImport(this.path, file);
+        const imported = this.imports.get(specifier) ?? new Map<string, string>();
+        this.imports.set(specifier, imported);
+        let local = imported.get(node.name);
+        if (local === undefined) {
+            const alias = toPascalCase(getQualifiedName(node) ?? node.name);
+            local = this.names.has(node.name) ? alias : node.name;
+            for (let suffix = 2; this.names.has(local); suffix++) {
+                local = `${alias}${suffix}`;
+            }
+            this.names.add(local);
+            imported.set(node.name, local);
+        }
+        return local;
+    }
+
+    render(body: Array<string>): string {
+        const header = [...this.imports].map(([specifier, names]) => {
+            const specifiers = [...names].map(([name, local]) => name === local ? name : `${name} as ${local}`);
+            return `import type { ${specifiers.join(', ')} } from '${specifier}';`;
+        });
+        return [...header, ...(header.length > 0 ? [''] : []), ...body].join('\n');
+    }
+
+    enumeration(enumeration: EnumX): Array<string> {
+        const values = enumeration.attributes;
+        const lines = docComment(enumeration.comment);
+        if (this.options.enums === 'enum') {
+            lines.push(`export enum ${enumeration.name} {`);
+            values.forEach((value, position) => {
+                lines.push(...docComment(value.comment ?? value.fullName, '    '));
+                lines.push(`    ${value.name} = '${value.name}'${position < values.length - 1 ? ',' : ''}`);
+            });
+            lines.push('}');
+        } else {
+            const union = values.length > 0 ? values.map(value => `'${value.name}'`).join(' | ') : 'never';
+            lines.push(`export type ${enumeration.name} = ${union};`);
+        }
+        return lines;
+    }
+
+    entity(entity: LocalEntity): Array<string> {
+        const superType = entity.superType ? getRef(entity.superType) : undefined;
+        const members = [
+            ...entity.attributes.filter(attribute => attribute.type !== 'void').map(attribute => this.attribute(attribute)),
+            ...entity.enumentityatributes.map(attribute => {
+                const enumeration = getRef(attribute.type);
+                return [...docComment(attribute.comment, '    '), `    ${attribute.name}?: ${enumeration ? this.use(enumeration) : 'string'};`];
+            }),
+            ...entity.relations.map(relation => this.relation(relation)),
+            ...entity.functions.map(fn => this.method(fn))
+        ];
+        const extension = superType ? ` extends ${this.use(superType)}` : '';
+        return [
+            ...docComment(entity.comment),
+            members.length > 0 ? `export interface ${entity.name}${extension} {` : `export interface ${entity.name}${extension} {}`,
+            ...(members.length > 0 ? [...members.flat(), '}'] : [])
+        ];
+    }
+
+    /** Imported entities are only known by name. */
+    imported(entity: Entity, moduleImport: ModuleImport): Array<string> {
+        return [`/** \`${entity.name}\` from \`${moduleImport.library}\` (${moduleImport.package_path}). */`, `export type ${entity.name} = Record<string, unknown>;`];
+    }
+
+    private attribute(attribute: Attribute): Array<string> {
+        const optional = attribute.blank ? '?' : '';
+        return [...docComment(attribute.comment ?? attribute.fullName, '    '), `    ${attribute.name}${optional}: ${typeScriptTypes[attribute.type]};`];
+    }
+
+    private relation(relation: Relation): Array<string> {
+        const target = getRef(relation.type);
+        const type = !target ? 'unknown' : this.options.relations === 'object' ? this.use(target) : keyType(target);
+        const many = targetCardinality[relation.$type] === 'many';
+        return [...docComment(relation.comment ?? relation.fullName, '    '), `    ${relation.name}?: ${many ? `Array<${type}>` : type};`];
+    }
+
+    private method(fn: FunctionEntity): Array<string> {
+        const params = getFunctionParameters(fn).map(param => `${param.name}: ${typeScriptTypes[param.type]}`).join(', ');
+        return [...docComment(fn.comment, '    '), `    ${fn.name}(${params}): ${typeScriptTypes[fn.response]};`];
+    }
+}
+
+function blocks(parts: Array<Array<string>>): Array<string> {
+    return parts.flatMap((part, position) => position > 0 ? ['', ...part] : part);
+}
+
+/**
+ * One `index.ts` per directory. Files and subdirectories with an entry in
+ * `namespaces` (keyed by path without `.ts`) are re-exported under that name,
+ * so same-named entities of different modules do not clash; a module's own
+ * file is re-exported by the barrel of its submodules' directory.
+ */
+function barrels(paths: Array<string>, namespaces: Map<string, string>): Array<GeneratedFile> {
+    const exports = new Map<string, Array<string>>([['', []]]);
+    const reexport = (stem: string, specifier: string) => {
+        const namespace = namespaces.get(stem);
+        add(directoryOf(stem), namespace ? `export * as ${namespace} from '${specifier}';` : `export * from '${specifier}';`);
+    };
+    const add = (directory: string, line: string) => {
+        if (!exports.has(directory)) {
+            exports.set(directory, []);
+            reexport(directory, `./${baseName(directory)}/index.js`);
+        }
+        if (!exports.get(directory)!.includes(line)) {
+            exports.get(directory)!.push(line);
+        }
+    };
+    for (const path of paths) {
+        const stem = path.replace(/\.ts$/, '');
+        if (paths.some(other => other.startsWith(`${stem}/`))) {
+            add(stem, `export * from '../${baseName(stem)}.js';`);
+        } else {
+            reexport(stem, `./${baseName(stem)}.js`);
+        }
+    }
+    return [...exports].map(([directory, lines]) => ({
+        path: directory.length > 0 ? `${directory}/index.ts` : 'index.ts',
+        content: lines.join('\n') + '\n'
+    }));
+}
+
+/**
+ * Generates TypeScript declarations for a model: one file per `Module` (nested
+ * modules go to subdirectories) with an interface per `LocalEntity` and a
+ * type per `EnumX`, `enums.ts` for the enums declared at the top level,
+ * `imports/` for imported entities and an `index.ts` barrel per directory.
+ * The barrels re-export each module as a namespace named after it, so the
+ * root `index.ts` exposes `Sales.Customer` the way the model qualifies it.
+ * Attributes with `blank` are optional, as are enum attributes and relations.
+ */
+export function generateTypeScript(model: Model, options: TypeScriptOptions = {}): Array<GeneratedFile> {
+    const files: Array<GeneratedFile> = [];
+    const namespaces = new Map<string, string>();
+    const name = (path: string, names: Array<string>) => {
+        const segments = path.replace(/\.ts$/, '').split('/');
+        names.forEach((namespace, position) => {
+            namespaces.set(segments.slice(0, segments.length - names.length + position + 1).join('/'), namespace);
+        });
+    };
+    const emit = (file: TypeScriptFile, parts: Array<Array<string>>) => {
+        if (parts.length > 0) {
+            files.push({ path: file.path, content: `${file.render(blocks(parts))}\n` });
+        }
+    };
+
+    const enums = new TypeScriptFile('enums.ts', options);
+    emit(enums, model.abstractElements.filter(isEnumX).map(enumeration => enums.enumeration(enumeration)));
+
+    const modules = (elements: Array<Model['abstractElements'][number] | LocalEntity>) => {
+        for (const module of elements.filter(isModule)) {
+            const file = new TypeScriptFile(modulePath(module), options, module.elements.filter(element => isLocalEntity(element) || isEnumX(element)));
+            name(file.path, moduleNames(module));
+            emit(file, module.elements.flatMap(element => isLocalEntity(element)
+                ? [file.entity(element)]
+                : isEnumX(element) ? [file.enumeration(element)] : []));
+            modules(module.elements);
+        }
+    };
+    modules(model.abstractElements);
+
+    for (const moduleImport of model.abstractElements.filter(isModuleImport)) {
+        const file = new TypeScriptFile(importPath(moduleImport), options);
+        name(file.path, moduleImport.name.split('.'));
+        emit(file, moduleImport.entities.map(entity => file.imported(entity, moduleImport)));
+    }
+
+    return [...files, ...barrels(files.map(file => file.path), namespaces)];
+}
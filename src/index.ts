@@ -6,7 +6,7 @@ export * from './models/model.js';
 
 // Export additional entity types
 export type { FunctionEntity, ImportedEntity } from './models/entity.js';
-export { isFunctionEntity, isImportedEntity, isLocalEntity } from './models/entity.js';
+export { isFunctionEntity, isImportedEntity, isLocalEntity, getFunctionParameters } from './models/entity.js';
 
 // Export additional attribute types  
 export type { Attribute, AttributeEnum } from './models/atribute.js';
@@ -14,3 +14,120 @@ export { isAttribute, isAttributeEnum } from './models/atribute.js';
 
 // Export additional actor functions
 export { isActor } from './models/actor.js';
+
+// Export fluent model builder
+export { model, ModelBuilder, ModuleBuilder, EntityBuilder, UseCasesModelBuilder, UseCaseBuilder } from './builders/model-builder.js';
+export type { Target, ConfigurationOptions, AttributeOptions, RelationOptions, ManyToManyOptions, EntityOptions, UseCaseOptions, EventOptions } from './builders/model-builder.js';
+
+// Export model reflection metadata
+export type { ModelNode, ModelNodeType } from './models/reflection.js';
+export { containmentProperties, referenceProperties, isModelNode, getProperty, setProperty } from './models/reflection.js';
+
+// Export JSON serialization
+export { serializeModel, deserializeModel } from './serialization/serializer.js';
+export type { SerializedReference, SerializeOptions } from './serialization/serializer.js';
+
+// Export semantic validation
+export { validateModel } from './validation/validator.js';
+export type { Diagnostic, DiagnosticCode, Severity } from './validation/validator.js';
+
+// Export qualified-name resolution
+export { getQualifiedName, getSimpleName } from './references/qualified-name.js';
+export { ModelScope } from './references/scope.js';
+export type { ResolveOptions, Resolution } from './references/scope.js';
+
+// Export traversal and visitor API
+export { streamContents, streamAllContents, streamAst, getAllContentsOfType, getContainerOfType } from './traversal/ast-utils.js';
+export { visitModel, transformModel } from './traversal/visitor.js';
+export type { ModelVisitor, ModelTransformer, NodeOfType } from './traversal/visitor.js';
+
+// Export inheritance helpers
+export {
+    getSuperTypes, isSubTypeOf, getInheritanceRoot,
+    getEffectiveAttributes, getEffectiveRelations, getEffectiveEnumAttributes, getEffectiveFunctions, getEffectiveEvents, getEffectiveActors,
+    getEffectiveAttributeMembers, getEffectiveRelationMembers, getEffectiveEnumAttributeMembers, getEffectiveFunctionMembers, getEffectiveEventMembers
+} from './inheritance/effective-members.js';
+export type { EffectiveMember, EffectiveMembers, ShadowedMember } from './inheritance/effective-members.js';
+
+// Export relation index
+export { RelationIndex, inverseRelationType, targetCardinality } from './relations/relation-index.js';
+export type { RelationType, Cardinality, RelationPair } from './relations/relation-index.js';
+
+// Export SQL DDL generator
+export { generateSql, createSqlSchema, resolveSqlDialect, getColumnType, getAttributeColumn, getEnumColumn, getTableName, quoteIdentifier, renderColumn, renderCreateTable, renderForeignKey, renderAddForeignKey } from './generators/sql.js';
+export type { SqlDialect, SqlOptions, SqlColumn, SqlForeignKey, SqlTable } from './generators/sql.js';
+
+// Export diagram exporters
+export { generateMermaidDiagram, generatePlantUmlDiagram } from './generators/diagrams.js';
+export type { DiagramOptions } from './generators/diagrams.js';
+
+// Export Markdown documentation generator
+export type { GeneratedFile } from './generators/files.js';
+export { generateDocs, sortEvents } from './generators/docs.js';
+
+// Export Langium adapter and source locations
+export { fromLangium } from './langium/adapter.js';
+export type { LangiumAstNode, LangiumReference } from './langium/adapter.js';
+export { getSourceLocation, setSourceLocation } from './models/source-location.js';
+export type { SourceLocation, SourceRange, SourcePosition } from './models/source-location.js';
+
+// Export DSL printer
+export { printModel } from './dsl/printer.js';
+export type { PrintOptions } from './dsl/printer.js';
+
+// Export DSL parser
+export { parseModel } from './dsl/parser.js';
+export type { ParseOptions, ParseError, ParseResult } from './dsl/parser.js';
+
+// Export model diff
+export { diffModels, matchModels } from './diff/model-diff.js';
+export type { ModelChange, AddedChange, RemovedChange, RenamedChange, PropertyChange, ChangedProperty, ChangeValue, DiffNode, DiffNodeType, DiffOptions } from './diff/model-diff.js';
+
+// Export migration generator
+export { createMigration, generateMigration } from './generators/migration.js';
+export type { MigrationOptions, MigrationStep } from './generators/migration.js';
+
+// Export model merge
+export { mergeModels } from './diff/merge.js';
+export type { MergeConflict, MergeConflictKind, MergeResult } from './diff/merge.js';
+
+// Export JSON Schema generator
+export { toJsonSchema, getAttributeSchema, getDataTypeSchema, jsonSchemaDialect, JsonSchemaBuilder } from './generators/json-schema.js';
+export type { JsonSchema, JsonSchemaType } from './generators/json-schema.js';
+
+// Export OpenAPI generator
+export { createOpenApiDocument, generateOpenApi } from './generators/openapi.js';
+export type { OpenApiOptions, OpenApiDocument, OpenApiPathItem, OpenApiOperation, OpenApiParameter, OpenApiResponse, OpenApiMediaType } from './generators/openapi.js';
+
+// Export TypeScript generator
+export { generateTypeScript } from './generators/typescript.js';
+export type { TypeScriptOptions } from './generators/typescript.js';
+
+// Export per-language code generators
+export { generateCode, languageGenerators } from './generators/code.js';
+export type { CodeOptions } from './generators/code.js';
+export { createCodeContext, getPackageSegments, getEntityKey, getLocalSuperType, getModuleSegments, getRelationMappings, getTable } from './generators/code-model.js';
+export type { CodeContext, EntityKey, LanguageGenerator, RelationMapping } from './generators/code-model.js';
+export { javaGenerator, javaTypes } from './generators/java.js';
+export { pythonGenerator, pythonTypes, sqlAlchemyTypes } from './generators/python.js';
+export { csharpCleanArchitectureGenerator, csharpMinimalApiGenerator, csharpTypes } from './generators/csharp.js';
+export type { CSharpLanguage } from './generators/csharp.js';
+
+// Export GraphQL generator
+export { generateGraphQL, graphQLScalars, graphQLTypes } from './generators/graphql.js';
+
+// Export Protocol Buffers generator
+export { generateProto, protoTypes } from './generators/proto.js';
+export type { ProtoAllocations, ProtoFieldAllocation, ProtoNumbering, ProtoOptions, ProtoResult } from './generators/proto.js';
+
+// Export Prisma schema generator
+export { generatePrisma, prismaGenerator, prismaTypes } from './generators/prisma.js';
+export type { PrismaOptions } from './generators/prisma.js';
+
+// Export runtime value validators
+export { validateValue, validateRecord, isValidCpf, isValidCnpj, appendCheckDigits } from './validation/values.js';
+export type { ValueError, ValueErrorCode, RecordErrors } from './validation/values.js';
+
+// Export fixture generator
+export { generateFixtures } from './generators/fixtures.js';
+export type { FixtureOptions, FixtureRow, TableFixtures } from './generators/fixtures.js';
@@ -0,0 +1,136 @@
+import { Entity, EnumEntityAtribute, Event, Relation, UseCase, getRef } from "../models/model.js";
+import { FunctionEntity, LocalEntity, isLocalEntity } from "../models/entity.js";
+import { Attribute } from "../models/atribute.js";
+import { Actor, isActor } from "../models/actor.js";
+
+type Inheriting = LocalEntity | Actor | UseCase;
+
+export interface EffectiveMember<T> {
+    member: T;
+    /** Node that declares the member; differs from the queried node when inherited. */
+    owner: LocalEntity | UseCase;
+    inherited: boolean;
+}
+
+export interface ShadowedMember<T> {
+    member: T;
+    owner: LocalEntity | UseCase;
+    shadowedBy: T;
+}
+
+export interface EffectiveMembers<T> {
+    members: Array<EffectiveMember<T>>;
+    shadowed: Array<ShadowedMember<T>>;
+}
+
+/**
+ * Returns the supertypes of a node, nearest first. The walk stops at an
+ * `ImportedEntity` (it has no members of its own) and on cycles.
+ */
+export function getSuperTypes(node: LocalEntity): Array<Entity>;
+export function getSuperTypes(node: Actor): Array<Actor>;
+export function getSuperTypes(node: UseCase): Array<UseCase>;
+export function getSuperTypes(node: Inheriting): Array<Entity | Actor | UseCase>;
+export function getSuperTypes(node: Inheriting): Array<Entity | Actor | UseCase> {
+    const chain: Array<Entity | Actor | UseCase> = [];
+    let current: Entity | Actor | UseCase | undefined = node;
+    while (current && 'superType' in current && current.superType) {
+        const next: Entity | Actor | UseCase | undefined = getRef<Entity | Actor | UseCase>(current.superType);
+        if (!next || next === node || chain.includes(next)) {
+            break;
+        }
+        chain.push(next);
+        current = next;
+    }
+    return chain;
+}
+
+/** Checks whether `node` is `candidate` or inherits from it. */
+export function isSubTypeOf(node: Inheriting, candidate: Entity | Actor | UseCase): boolean {
+    return node === candidate || getSuperTypes(node).includes(candidate);
+}
+
+/** Returns the topmost entity of the chain, which is often an `is_abstract` base. */
+export function getInheritanceRoot(entity: LocalEntity): Entity {
+    const superTypes = getSuperTypes(entity);
+    return superTypes.length > 0 ? superTypes[superTypes.length - 1] : entity;
+}
+
+/** Local entities of the chain from the root down to the entity itself. */
+function hierarchy(entity: LocalEntity): Array<LocalEntity> {
+    return [entity, ...getSuperTypes(entity).filter(isLocalEntity)].reverse();
+}
+
+function merge<O extends LocalEntity | UseCase, T>(
+    node: O,
+    chain: Array<O>,
+    select: (owner: O) => Array<T>,
+    key: (member: T) => string
+): EffectiveMembers<T> {
+    const members = new Map<string, EffectiveMember<T>>();
+    const shadowed: Array<ShadowedMember<T>> = [];
+    for (const owner of chain) {
+        for (const member of select(owner)) {
+            const previous = members.get(key(member));
+            if (previous) {
+                shadowed.push({ member: previous.member, owner: previous.owner, shadowedBy: member });
+            }
+            members.set(key(member), { member, owner, inherited: owner !== node });
+        }
+    }
+    return { members: [...members.values()], shadowed };
+}
+
+/**
+ * Merges attributes along the supertype chain. Inherited members come first; a
+ * subtype member with the same name replaces the inherited one in place and the
+ * replaced member is reported in `shadowed`. Members of abstract roots are
+ * inherited like any other.
+ */
+export function getEffectiveAttributeMembers(entity: LocalEntity): EffectiveMembers<Attribute> {
+    return merge(entity, hierarchy(entity), owner => owner.attributes, member => member.name);
+}
+
+export function getEffectiveRelationMembers(entity: LocalEntity): EffectiveMembers<Relation> {
+    return merge(entity, hierarchy(entity), owner => owner.relations, member => member.name);
+}
+
+export function getEffectiveEnumAttributeMembers(entity: LocalEntity): EffectiveMembers<EnumEntityAtribute> {
+    return merge(entity, hierarchy(entity), owner => owner.enumentityatributes, member => member.name);
+}
+
+export function getEffectiveFunctionMembers(entity: LocalEntity): EffectiveMembers<FunctionEntity> {
+    return merge(entity, hierarchy(entity), owner => owner.functions, member => member.name);
+}
+
+/** Merges events along the use case chain, keyed by event id. */
+export function getEffectiveEventMembers(useCase: UseCase): EffectiveMembers<Event> {
+    const chain = [useCase, ...getSuperTypes(useCase)].reverse();
+    return merge(useCase, chain, owner => owner.events, member => member.id);
+}
+
+export function getEffectiveAttributes(entity: LocalEntity): Array<Attribute> {
+    return getEffectiveAttributeMembers(entity).members.map(effective => effective.member);
+}
+
+export function getEffectiveRelations(entity: LocalEntity): Array<Relation> {
+    return getEffectiveRelationMembers(entity).members.map(effective => effective.member);
+}
+
+export function getEffectiveEnumAttributes(entity: LocalEntity): Array<EnumEntityAtribute> {
+    return getEffectiveEnumAttributeMembers(entity).members.map(effective => effective.member);
+}
+
+export function getEffectiveFunctions(entity: LocalEntity): Array<FunctionEntity> {
+    return getEffectiveFunctionMembers(entity).members.map(effective => effective.member);
+}
+
+export function getEffectiveEvents(useCase: UseCase): Array<Event> {
+    return getEffectiveEventMembers(useCase).members.map(effective => effective.member);
+}
+
+/** Every actor of a use case including those declared on its supertypes; unresolved actors are skipped. */
+export function getEffectiveActors(useCase: UseCase): Array<Actor> {
+    const actors = [useCase, ...getSuperTypes(useCase)].reverse().flatMap(owner => owner.actors.map(actor => getRef(actor)).filter(isActor));
+    return [...new Set(actors)];
+}
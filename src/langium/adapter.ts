@@ -0,0 +1,131 @@
+import { UnresolvedReference } from "../models/model.js";
+import { ModelNode, containmentProperties, referenceProperties, setProperty } from "../models/reflection.js";
+import { SourceLocation, setSourceLocation } from "../models/source-location.js";
+
+/**
+ * The parts of a Langium `AstNode` the adapter reads. Declared structurally so
+ * the library does not depend on the Langium runtime.
+ */
+export interface LangiumAstNode {
+    readonly $type: string;
+    readonly $container?: LangiumAstNode;
+    readonly $containerProperty?: string;
+    readonly $containerIndex?: number;
+    readonly $cstNode?: { readonly range: SourceLocation['range'] };
+    readonly $document?: { readonly uri: { toString(): string } };
+    [property: string]: unknown;
+}
+
+/** The parts of a Langium `Reference` the adapter reads; `ref` may be a lazy getter. */
+export interface LangiumReference {
+    readonly ref?: LangiumAstNode;
+    readonly $refText: string;
+    readonly error?: { readonly message: string };
+}
+
+const langiumProperties = ['$container', '$containerProperty', '$containerIndex', '$cstNode', '$document'];
+
+function isLangiumReference(value: unknown): value is LangiumReference {
+    return typeof value === 'object' && value !== null && '$refText' in value;
+}
+
+function rootOf(node: LangiumAstNode): LangiumAstNode {
+    let root = node;
+    while (root.$container) {
+        root = root.$container;
+    }
+    return root;
+}
+
+function documentUri(node: LangiumAstNode): string | undefined {
+    return rootOf(node).$document?.uri.toString();
+}
+
+class LangiumConverter {
+    private readonly converted = new Map<LangiumAstNode, ModelNode>();
+    private readonly pending: Array<[LangiumAstNode, ModelNode]> = [];
+
+    convert(source: LangiumAstNode, container?: ModelNode): ModelNode {
+        const existing = this.converted.get(source);
+        if (existing) {
+            // A subtree converted first and reached again through its root.
+            (existing as { $container?: ModelNode }).$container = container;
+            return existing;
+        }
+        const target: Record<string, unknown> = {};
+        if (container) {
+            target.$container = container;
+        }
+        const node = target as unknown as ModelNode;
+        this.converted.set(source, node);
+        const containments = containmentProperties[source.$type as ModelNode['$type']] ?? [];
+        const references = referenceProperties[source.$type as ModelNode['$type']] ?? [];
+        for (const [key, value] of Object.entries(source)) {
+            if (langiumProperties.includes(key) || references.includes(key)) {
+                continue;
+            }
+            if (containments.includes(key)) {
+                target[key] = Array.isArray(value)
+                    ? value.map(child => this.convert(child, node))
+                    : value === undefined ? undefined : this.convert(value as LangiumAstNode, node);
+            } else {
+                target[key] = Array.isArray(value) ? [...value] : value;
+            }
+        }
+        if (source.$cstNode) {
+            setSourceLocation(node, { uri: documentUri(source), range: source.$cstNode.range });
+        }
+        this.pending.push([source, node]);
+        return node;
+    }
+
+    /** Resolves references once every node of the tree has a converted counterpart. */
+    link(): void {
+        while (this.pending.length > 0) {
+            const [source, node] = this.pending.shift()!;
+            for (const property of referenceProperties[node.$type] ?? []) {
+                const value = source[property];
+                if (value === undefined) {
+                    continue;
+                }
+                setProperty(node, property, Array.isArray(value)
+                    ? value.map(reference => this.reference(reference))
+                    : this.reference(value));
+            }
+        }
+    }
+
+    private reference(value: unknown): { ref: ModelNode } | UnresolvedReference {
+        if (!isLangiumReference(value)) {
+            return { ref: this.target(value as LangiumAstNode) };
+        }
+        const target = value.ref;
+        if (!target) {
+            return { ref: undefined, $refText: value.$refText, error: value.error?.message };
+        }
+        return { ref: this.target(target) };
+    }
+
+    /** Converts nodes that live in another document (or outside the subtree) on first use. */
+    private target(source: LangiumAstNode): ModelNode {
+        if (!this.converted.has(source)) {
+            this.convert(rootOf(source));
+        }
+        return this.converted.get(source)!;
+    }
+}
+
+/**
+ * Converts a Langium AST (usually a `Model` parse result) into library model
+ * objects. Langium-only properties (`$cstNode`, `$document`,
+ * `$containerProperty`, ...) are dropped, references become `{ ref }` values
+ * and the source range of each node is kept; read it with
+ * `getSourceLocation`. Unresolved references become `{ ref: undefined,
+ * $refText }`, which `validateModel` reports as `unresolved-reference`.
+ */
+export function fromLangium<T extends ModelNode = ModelNode>(astNode: LangiumAstNode): T {
+    const converter = new LangiumConverter();
+    const result = converter.convert(astNode);
+    converter.link();
+    return result as T;
+}
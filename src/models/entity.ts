@@ -1,4 +1,4 @@
-import { EnumEntityAtribute, Module, ModuleImport, Parameter, DATATYPE, Entity, Reference, Relation } from "./model.js";
+import { EnumEntityAtribute, Module, ModuleImport, Parameter, DATATYPE, Element, Entity, Reference, Relation } from "./model.js";
 import { Attribute } from "./atribute.js";
 
 export interface FunctionEntity {
@@ -37,4 +37,7 @@ export function isImportedEntity(item: any): item is ImportedEntity {
 }
 export function isLocalEntity(item: any): item is LocalEntity {
     return item && item.$type === 'LocalEntity';
-}
\ No newline at end of file
+}
+export function getFunctionParameters(fn: FunctionEntity): Array<Element> {
+    return fn.paramters.flatMap(parameter => Array.isArray(parameter.element) ? parameter.element : [parameter.element]);
+}
@@ -1,13 +1,13 @@
 import { Actor } from "./actor.js";
 import { Attribute, AttributeEnum } from "./atribute.js";
 import { FunctionEntity, ImportedEntity, LocalEntity } from "./entity.js";
-export type Reference<T> = { ref: T } | T;
+export type Reference<T> = { ref: T } | T | UnresolvedReference;
 export type Container<T> = { $container: T };
 
 export type DATATYPE = 'boolean' | 'cnpj' | 'cpf' | 'currency' | 'date' | 'datetime' | 'decimal' | 'email' | 'file' | 'integer' | 'mobilePhoneNumber' | 'phoneNumber' | 'string' | 'uuid' | 'void' | 'zipcode';
 
 export type FEATURE_TYPE = 'authentication';
-export type LANGUAGETYPE = 'csharp-clean-architecture' | 'csharp-minimal-api' | 'java' | 'python';
+export type LANGUAGETYPE = 'csharp-clean-architecture' | 'csharp-minimal-api' | 'java' | 'node-prisma' | 'python';
 export type QualifiedName = string;
 export type QualifiedNameWithWildcard = string;
 export type AbstractElement = EnumX | Module;
@@ -128,6 +128,13 @@ export interface Parameter {
     element: Array<Element> | Element;
 }
 
+/** A reference whose name did not resolve; it keeps the text written in the DSL. */
+export interface UnresolvedReference {
+    ref: undefined;
+    $refText: string;
+    error?: string;
+}
+
 export interface UseCase {
     $container: UseCasesModel;
     $type: 'UseCase';
@@ -179,6 +186,9 @@ export function isOneToMany(item: any): item is OneToMany {
 export function isOneToOne(item: any): item is OneToOne {
     return item && item.$type === 'OneToOne';
 }
+export function isRelation(item: any): item is Relation {
+    return isManyToMany(item) || isManyToOne(item) || isOneToMany(item) || isOneToOne(item);
+}
 export function isParameter(item: any): item is Parameter {
     return item && item.$type === 'Parameter';
 }
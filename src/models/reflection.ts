@@ -0,0 +1,82 @@
+import {
+    Configuration, Element, EnumEntityAtribute, EnumX, Event, ManyToMany, ManyToOne, Model, Module, ModuleImport,
+    OneToMany, OneToOne, Parameter, UseCase, UseCasesModel
+} from "./model.js";
+import { FunctionEntity, ImportedEntity, LocalEntity } from "./entity.js";
+import { Attribute, AttributeEnum } from "./atribute.js";
+import { Actor } from "./actor.js";
+
+export type ModelNode = Actor | Attribute | AttributeEnum | Configuration | Element | EnumEntityAtribute | EnumX | Event
+    | FunctionEntity | ImportedEntity | LocalEntity | ManyToMany | ManyToOne | Model | Module | ModuleImport | OneToMany
+    | OneToOne | Parameter | UseCase | UseCasesModel;
+
+export type ModelNodeType = ModelNode['$type'];
+
+/** Properties holding child nodes, in the order the grammar declares them. */
+export const containmentProperties: Record<ModelNodeType, Array<string>> = {
+    Actor: [],
+    Attribute: [],
+    AttributeEnum: [],
+    Configuration: [],
+    Element: [],
+    EnumEntityAtribute: [],
+    EnumX: ['attributes'],
+    Event: [],
+    FunctionEntity: ['paramters'],
+    ImportedEntity: [],
+    LocalEntity: ['attributes', 'enumentityatributes', 'relations', 'functions'],
+    ManyToMany: [],
+    ManyToOne: [],
+    Model: ['configuration', 'abstractElements'],
+    Module: ['elements'],
+    ModuleImport: ['entities'],
+    OneToMany: [],
+    OneToOne: [],
+    Parameter: ['element'],
+    UseCase: ['events'],
+    UseCasesModel: ['elements']
+};
+
+/** Properties holding `Reference<T>` values that point elsewhere in the tree. */
+export const referenceProperties: Record<ModelNodeType, Array<string>> = {
+    Actor: ['superType'],
+    Attribute: [],
+    AttributeEnum: [],
+    Configuration: ['entity'],
+    Element: [],
+    EnumEntityAtribute: ['type'],
+    EnumX: [],
+    Event: ['depends'],
+    FunctionEntity: [],
+    ImportedEntity: [],
+    LocalEntity: ['superType'],
+    ManyToMany: ['type', 'by'],
+    ManyToOne: ['type'],
+    Model: [],
+    Module: [],
+    ModuleImport: [],
+    OneToMany: ['type'],
+    OneToOne: ['type'],
+    Parameter: [],
+    UseCase: ['superType', 'actors'],
+    UseCasesModel: []
+};
+
+export function isModelNode(item: any): item is ModelNode {
+    return item && typeof item === 'object' && typeof item.$type === 'string' && item.$type in containmentProperties;
+}
+
+/** Reads a property by name, as listed in `containmentProperties` and `referenceProperties`. */
+export function getProperty(node: ModelNode, property: string): unknown {
+    return (node as unknown as Record<string, unknown>)[property];
+}
+
+/** Writes a property by name; `undefined` removes it. */
+export function setProperty(node: ModelNode, property: string, value: unknown): void {
+    const properties = node as unknown as Record<string, unknown>;
+    if (value === undefined) {
+        delete properties[property];
+    } else {
+        properties[property] = value;
+    }
+}
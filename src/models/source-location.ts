@@ -0,0 +1,31 @@
+import { ModelNode } from "./reflection.js";
+
+/** Zero-based line and character, as in the Language Server Protocol. */
+export interface SourcePosition {
+    line: number;
+    character: number;
+}
+
+export interface SourceRange {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+export interface SourceLocation {
+    uri?: string;
+    range: SourceRange;
+}
+
+const locations = new WeakMap<object, SourceLocation>();
+
+/**
+ * Returns where a node was written in DSL source, when it was built by the
+ * parser or converted from a Langium AST.
+ */
+export function getSourceLocation(node: ModelNode): SourceLocation | undefined {
+    return locations.get(node);
+}
+
+export function setSourceLocation(node: ModelNode, location: SourceLocation): void {
+    locations.set(node, location);
+}
@@ -0,0 +1,36 @@
+import { QualifiedName } from "../models/model.js";
+import { ModelNode } from "../models/reflection.js";
+
+/**
+ * Computes the fully qualified name of a node by prefixing its simple name with
+ * the names of its containers, e.g. `Sales.Orders.Order.total`. Nodes without a
+ * name (`Model`, `Configuration`, `Parameter`) return `undefined`.
+ */
+export function getQualifiedName(node: ModelNode): QualifiedName | undefined {
+    const name = getSimpleName(node);
+    if (name === undefined) {
+        return undefined;
+    }
+    const container = getNamedContainer(node);
+    const prefix = container ? getQualifiedName(container) : undefined;
+    return prefix ? `${prefix}.${name}` : name;
+}
+
+/** Returns the `name` or `id` a node is referred by, if it has one. */
+export function getSimpleName(node: ModelNode): string | undefined {
+    if ('name' in node && typeof node.name === 'string') {
+        return node.name;
+    }
+    if ('id' in node && typeof node.id === 'string') {
+        return node.id;
+    }
+    return undefined;
+}
+
+function getNamedContainer(node: ModelNode): ModelNode | undefined {
+    let container = (node as { $container?: ModelNode }).$container;
+    while (container && getSimpleName(container) === undefined) {
+        container = (container as { $container?: ModelNode }).$container;
+    }
+    return container;
+}
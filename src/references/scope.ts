@@ -0,0 +1,139 @@
+import { Model, Module, QualifiedName, QualifiedNameWithWildcard, UseCase, UseCasesModel, isModule, isModuleImport, isUseCase, isUseCasesModel } from "../models/model.js";
+import { ModelNode } from "../models/reflection.js";
+import { getContainerOfType, streamAst } from "../traversal/ast-utils.js";
+import { getQualifiedName } from "./qualified-name.js";
+
+export interface ResolveOptions<T extends ModelNode> {
+    /** Node the name is written in; its enclosing modules (or use case groups) are searched first. */
+    context?: ModelNode;
+    /** Extra imports such as `Sales.Orders.*` or `Billing.Invoice`. */
+    imports?: Array<QualifiedNameWithWildcard>;
+    /** Restricts candidates, usually one of the `is*` type guards. */
+    filter?: (node: ModelNode) => node is T;
+}
+
+export type Resolution<T extends ModelNode> =
+    | { status: 'resolved'; name: string; node: T }
+    | { status: 'unresolved'; name: string }
+    | { status: 'ambiguous'; name: string; candidates: Array<T> };
+
+/**
+ * Indexes every named node of a model by qualified name and resolves names the
+ * way the DSL does: enclosing modules (or `UseCasesModel` and `UseCase`) first,
+ * then imports (explicit ones and the entities of each `ModuleImport`), then
+ * the global scope.
+ */
+export class ModelScope {
+    private readonly index = new Map<QualifiedName, Array<ModelNode>>();
+
+    constructor(readonly model: Model) {
+        for (const node of streamAst(model)) {
+            const name = getQualifiedName(node);
+            if (name !== undefined) {
+                this.add(name, node);
+            }
+        }
+        for (const moduleImport of model.abstractElements.filter(isModuleImport)) {
+            const packagePath = stripWildcard(moduleImport.package_path);
+            for (const entity of moduleImport.entities) {
+                if (packagePath) {
+                    this.add(`${packagePath}.${entity.name}`, entity);
+                }
+            }
+        }
+    }
+
+    /** Every qualified name known to the scope, in document order. */
+    getAllNames(): Array<QualifiedName> {
+        return [...this.index.keys()];
+    }
+
+    getQualifiedName(node: ModelNode): QualifiedName | undefined {
+        return getQualifiedName(node);
+    }
+
+    resolve<T extends ModelNode = ModelNode>(name: string, options: ResolveOptions<T> = {}): Resolution<T> {
+        for (const candidates of this.scopes(name, options)) {
+            const matches = unique(candidates.filter(node => !options.filter || options.filter(node))) as Array<T>;
+            if (matches.length === 1) {
+                return { status: 'resolved', name, node: matches[0] };
+            }
+            if (matches.length > 1) {
+                return { status: 'ambiguous', name, candidates: matches };
+            }
+        }
+        return { status: 'unresolved', name };
+    }
+
+    /** Like `resolve`, but throws when the name is unresolved or ambiguous. */
+    resolveOrThrow<T extends ModelNode = ModelNode>(name: string, options: ResolveOptions<T> = {}): T {
+        const resolution = this.resolve(name, options);
+        if (resolution.status === 'unresolved') {
+            throw new Error(`Unresolved name '${name}'`);
+        }
+        if (resolution.status === 'ambiguous') {
+            const names = resolution.candidates.map(candidate => getQualifiedName(candidate)).join(', ');
+            throw new Error(`Ambiguous name '${name}': ${names}`);
+        }
+        return resolution.node;
+    }
+
+    private *scopes(name: string, options: ResolveOptions<ModelNode>): Generator<Array<ModelNode>> {
+        for (const namespace of enclosingNamespaces(options.context)) {
+            yield this.lookup(`${getQualifiedName(namespace)}.${name}`);
+        }
+        const imported: Array<ModelNode> = [];
+        for (const path of options.imports ?? []) {
+            if (path.endsWith('.*')) {
+                imported.push(...this.lookup(`${stripWildcard(path)}.${name}`));
+            } else {
+                const alias = path.substring(path.lastIndexOf('.') + 1);
+                if (name === alias || name.startsWith(`${alias}.`)) {
+                    imported.push(...this.lookup(`${path}${name.substring(alias.length)}`));
+                }
+            }
+        }
+        for (const moduleImport of this.model.abstractElements.filter(isModuleImport)) {
+            imported.push(...moduleImport.entities.filter(entity => entity.name === name));
+        }
+        yield imported;
+        yield this.lookup(name);
+    }
+
+    private lookup(name: QualifiedName): Array<ModelNode> {
+        return this.index.get(name) ?? [];
+    }
+
+    private add(name: QualifiedName, node: ModelNode): void {
+        const nodes = this.index.get(name);
+        if (nodes) {
+            nodes.push(node);
+        } else {
+            this.index.set(name, [node]);
+        }
+    }
+}
+
+function stripWildcard(path: QualifiedNameWithWildcard): QualifiedName {
+    return path.endsWith('.*') ? path.substring(0, path.length - 2) : path;
+}
+
+function unique<T>(nodes: Array<T>): Array<T> {
+    return [...new Set(nodes)];
+}
+
+type Namespace = Module | UseCasesModel | UseCase;
+
+function isNamespace(node: unknown): node is Namespace {
+    return isModule(node) || isUseCasesModel(node) || isUseCase(node);
+}
+
+function enclosingNamespaces(node: ModelNode | undefined): Array<Namespace> {
+    const namespaces: Array<Namespace> = [];
+    let current = getContainerOfType(node, isNamespace);
+    while (current) {
+        namespaces.push(current);
+        current = getContainerOfType(current.$container, isNamespace);
+    }
+    return namespaces;
+}
@@ -0,0 +1,143 @@
+import { Entity, ManyToMany, Model, Relation, getRef, isManyToMany, isRelation } from "../models/model.js";
+import { LocalEntity, isLocalEntity } from "../models/entity.js";
+import { getAllContentsOfType } from "../traversal/ast-utils.js";
+
+export type RelationType = Relation['$type'];
+
+export type Cardinality = 'one' | 'many';
+
+/** Relation type seen from the other side: a `ManyToOne` is answered by a `OneToMany`. */
+export const inverseRelationType: Record<RelationType, RelationType> = {
+    ManyToMany: 'ManyToMany',
+    ManyToOne: 'OneToMany',
+    OneToMany: 'ManyToOne',
+    OneToOne: 'OneToOne'
+};
+
+/** Cardinality of the target side of each relation type. */
+export const targetCardinality: Record<RelationType, Cardinality> = {
+    ManyToMany: 'many',
+    ManyToOne: 'one',
+    OneToMany: 'many',
+    OneToOne: 'one'
+};
+
+export interface RelationPair {
+    relation: Relation;
+    /** Relation on the target pointing back; `undefined` when the target is an `ImportedEntity`. */
+    inverse?: Relation;
+    /** True when `inverse` was synthesized rather than declared in the model. */
+    implicit: boolean;
+}
+
+/**
+ * Indexes every relation of a model by source and target and pairs each
+ * relation with its inverse. Declared relations of the inverse type pointing
+ * back are paired first; for the rest an inverse is synthesized. Synthesized
+ * relations have the target as `$container` but are not added to its
+ * `relations` array.
+ */
+export class RelationIndex {
+    private readonly relations: Array<Relation>;
+    private readonly incoming = new Map<Entity, Array<Relation>>();
+    private readonly inverses = new Map<Relation, Relation>();
+    private readonly synthesized = new Set<Relation>();
+
+    constructor(readonly model: Model) {
+        this.relations = getAllContentsOfType(model, isRelation);
+        for (const relation of this.relations) {
+            const target = getRef(relation.type);
+            if (target) {
+                this.incoming.set(target, [...this.getIncoming(target), relation]);
+            }
+        }
+        this.pairDeclared();
+        this.synthesizeMissing();
+    }
+
+    /** Relations declared on an entity. */
+    getOutgoing(entity: LocalEntity): Array<Relation> {
+        return entity.relations;
+    }
+
+    /** Declared relations whose `type` points at the entity. */
+    getIncoming(entity: Entity): Array<Relation> {
+        return this.incoming.get(entity) ?? [];
+    }
+
+    getInverse(relation: Relation): Relation | undefined {
+        return this.inverses.get(relation);
+    }
+
+    isImplicit(relation: Relation): boolean {
+        return this.synthesized.has(relation);
+    }
+
+    /** Synthesized inverses that belong to the entity. */
+    getImplicitRelations(entity: LocalEntity): Array<Relation> {
+        return [...this.synthesized].filter(relation => relation.$container === entity);
+    }
+
+    /** Declared and implicit relations of the entity. */
+    getAllRelations(entity: LocalEntity): Array<Relation> {
+        return [...entity.relations, ...this.getImplicitRelations(entity)];
+    }
+
+    /** One pair per declared relation, in document order. */
+    getPairs(): Array<RelationPair> {
+        return this.relations.map(relation => {
+            const inverse = this.getInverse(relation);
+            return { relation, inverse, implicit: inverse !== undefined && this.isImplicit(inverse) };
+        });
+    }
+
+    private pairDeclared(): void {
+        for (const relation of this.relations) {
+            if (this.inverses.has(relation)) {
+                continue;
+            }
+            const source = relation.$container;
+            const target = getRef(relation.type);
+            const candidate = this.relations.find(other =>
+                other !== relation
+                && !this.inverses.has(other)
+                && other.$container === target
+                && getRef(other.type) === source
+                && other.$type === inverseRelationType[relation.$type]
+            );
+            if (candidate) {
+                this.inverses.set(relation, candidate);
+                this.inverses.set(candidate, relation);
+            }
+        }
+    }
+
+    private synthesizeMissing(): void {
+        for (const relation of this.relations) {
+            const target = getRef(relation.type);
+            if (this.inverses.has(relation) || !isLocalEntity(target)) {
+                continue;
+            }
+            const inverse = synthesizeInverse(relation, target);
+            this.synthesized.add(inverse);
+            this.inverses.set(relation, inverse);
+            this.inverses.set(inverse, relation);
+        }
+    }
+}
+
+function synthesizeInverse(relation: Relation, target: LocalEntity): Relation {
+    const source = relation.$container;
+    const type = inverseRelationType[relation.$type];
+    const name = source.name.charAt(0).toLowerCase() + source.name.substring(1);
+    const inverse = {
+        $type: type,
+        $container: target,
+        name: targetCardinality[type] === 'many' ? `${name}s` : name,
+        type: { ref: source }
+    } as Relation;
+    if (isManyToMany(relation) && relation.by) {
+        (inverse as ManyToMany).by = relation.by;
+    }
+    return inverse;
+}
@@ -0,0 +1,126 @@
+import { Model, getRef, isModel } from "../models/model.js";
+import { ModelNode, containmentProperties, getProperty, isModelNode, referenceProperties, setProperty } from "../models/reflection.js";
+import { getQualifiedName } from "../references/qualified-name.js";
+import { ModelScope } from "../references/scope.js";
+import { streamAst } from "../traversal/ast-utils.js";
+
+export interface SerializedReference {
+    $ref: string;
+}
+
+export interface SerializeOptions {
+    space?: number | string;
+}
+
+/**
+ * Converts a model into JSON. `$container` back-pointers are dropped and every
+ * reference is written as the qualified name of its target, e.g.
+ * `{ $ref: 'Sales.Customer' }`, so it survives reordering.
+ */
+export function serializeModel(model: Model, options: SerializeOptions = {}): string {
+    const references = new ReferenceWriter(model);
+    return JSON.stringify(toJson(model, references), undefined, options.space);
+}
+
+/** Rebuilds a model written by `serializeModel`, restoring containers and references. */
+export function deserializeModel(json: string | object): Model {
+    const root: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!isModel(root)) {
+        throw new Error(`Expected a serialized Model but got '${isModelNode(root) ? root.$type : typeOfRoot(root)}'`);
+    }
+    linkContainers(root, undefined);
+    const scope = new ModelScope(root);
+    for (const node of streamAst(root)) {
+        resolveReferences(node, scope);
+    }
+    return root;
+}
+
+function typeOfRoot(root: unknown): unknown {
+    return typeof root === 'object' && root !== null && '$type' in root ? root.$type : undefined;
+}
+
+function children(node: ModelNode, property: string): Array<ModelNode> {
+    const value = getProperty(node, property);
+    if (Array.isArray(value)) {
+        return value.filter(isModelNode);
+    }
+    return isModelNode(value) ? [value] : [];
+}
+
+/** Names reference targets, checking that each name resolves back to its target. */
+class ReferenceWriter {
+    private readonly nodes: Set<ModelNode>;
+    private readonly scope: ModelScope;
+
+    constructor(model: Model) {
+        this.nodes = new Set(streamAst(model));
+        this.scope = new ModelScope(model);
+    }
+
+    write(node: ModelNode, property: string, value: unknown): SerializedReference {
+        const target = getRef(value as object) as ModelNode | undefined;
+        if (!target || !this.nodes.has(target)) {
+            throw new Error(`Cannot serialize '${property}' of ${node.$type}: the reference target is not part of the model`);
+        }
+        const name = getQualifiedName(target);
+        const resolution = name === undefined ? undefined : this.scope.resolve(name);
+        if (name === undefined || resolution?.status !== 'resolved' || resolution.node !== target) {
+            throw new Error(`Cannot serialize '${property}' of ${node.$type}: '${name}' does not name a single node`);
+        }
+        return { $ref: name };
+    }
+}
+
+function toJson(node: ModelNode, references: ReferenceWriter): object {
+    const containments = containmentProperties[node.$type];
+    const referenceNames = referenceProperties[node.$type];
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+        if (value === undefined || (key.startsWith('$') && key !== '$type')) {
+            continue;
+        }
+        if (containments.includes(key)) {
+            result[key] = Array.isArray(value)
+                ? value.map(child => toJson(child, references))
+                : toJson(value, references);
+        } else if (referenceNames.includes(key)) {
+            result[key] = Array.isArray(value)
+                ? value.map(target => references.write(node, key, target))
+                : references.write(node, key, value);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+function linkContainers(node: ModelNode, container: ModelNode | undefined): void {
+    if (container) {
+        setProperty(node, '$container', container);
+    }
+    for (const property of containmentProperties[node.$type] ?? []) {
+        children(node, property).forEach(child => linkContainers(child, node));
+    }
+}
+
+function fromReference(node: ModelNode, property: string, value: unknown, scope: ModelScope): { ref: ModelNode } {
+    const name = typeof value === 'object' && value !== null && '$ref' in value ? value.$ref : undefined;
+    const resolution = typeof name === 'string' ? scope.resolve(name) : undefined;
+    if (resolution?.status !== 'resolved') {
+        throw new Error(`Cannot resolve '${property}' of ${node.$type}: no single node named '${name}'`);
+    }
+    return { ref: resolution.node };
+}
+
+function resolveReferences(node: ModelNode, scope: ModelScope): void {
+    for (const property of referenceProperties[node.$type] ?? []) {
+        const value = getProperty(node, property);
+        if (value === undefined) {
+            continue;
+        }
+        setProperty(node, property, Array.isArray(value)
+            ? value.map(target => fromReference(node, property, target, scope))
+            : fromReference(node, property, value, scope));
+    }
+}
@@ -0,0 +1,50 @@
+import { ModelNode, containmentProperties, getProperty, isModelNode } from "../models/reflection.js";
+
+/** Yields the direct children of a node in containment order. */
+export function* streamContents(node: ModelNode): Generator<ModelNode> {
+    for (const property of containmentProperties[node.$type]) {
+        const value = getProperty(node, property);
+        if (Array.isArray(value)) {
+            yield* value.filter(isModelNode);
+        } else if (isModelNode(value)) {
+            yield value;
+        }
+    }
+}
+
+/** Yields every descendant of a node depth-first, excluding the node itself. */
+export function* streamAllContents(node: ModelNode): Generator<ModelNode> {
+    for (const child of streamContents(node)) {
+        yield child;
+        yield* streamAllContents(child);
+    }
+}
+
+/** Yields the node itself followed by all of its descendants. */
+export function* streamAst(node: ModelNode): Generator<ModelNode> {
+    yield node;
+    yield* streamAllContents(node);
+}
+
+/** Collects every descendant accepted by a type guard such as `isLocalEntity`. */
+export function getAllContentsOfType<T extends ModelNode>(node: ModelNode, guard: (item: unknown) => item is T): Array<T> {
+    const result: Array<T> = [];
+    for (const child of streamAllContents(node)) {
+        if (guard(child)) {
+            result.push(child);
+        }
+    }
+    return result;
+}
+
+/** Walks up the `$container` chain, starting at the node itself, until the guard matches. */
+export function getContainerOfType<T extends ModelNode>(node: ModelNode | undefined, guard: (item: unknown) => item is T): T | undefined {
+    let current = node;
+    while (current) {
+        if (guard(current)) {
+            return current;
+        }
+        current = (current as { $container?: ModelNode }).$container;
+    }
+    return undefined;
+}
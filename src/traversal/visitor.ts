@@ -0,0 +1,58 @@
+import { ModelNode, ModelNodeType, containmentProperties, getProperty, isModelNode, setProperty } from "../models/reflection.js";
+import { streamContents } from "./ast-utils.js";
+
+export type NodeOfType<K extends ModelNodeType> = Extract<ModelNode, { $type: K }>;
+
+/**
+ * One optional callback per `$type`. Returning `false` from a callback skips the
+ * children of that node.
+ */
+export type ModelVisitor = {
+    [K in ModelNodeType]?: (node: NodeOfType<K>) => void | false;
+};
+
+/**
+ * One optional callback per `$type`, called bottom-up. Returning a node replaces
+ * the visited one in its container, returning `null` removes it and returning
+ * nothing keeps it. References that pointed at a replaced node are not updated.
+ */
+export type ModelTransformer = {
+    [K in ModelNodeType]?: (node: NodeOfType<K>) => NodeOfType<K> | null | void;
+};
+
+/** Visits a node and its descendants depth-first in containment order. */
+export function visitModel(node: ModelNode, visitor: ModelVisitor): void {
+    const callback = visitor[node.$type] as ((node: ModelNode) => void | false) | undefined;
+    if (callback?.(node) === false) {
+        return;
+    }
+    for (const child of [...streamContents(node)]) {
+        visitModel(child, visitor);
+    }
+}
+
+/** Applies a transformer to every descendant and then to the node itself, returning the resulting root. */
+export function transformModel<T extends ModelNode>(node: T, transformer: ModelTransformer): T | null {
+    for (const property of containmentProperties[node.$type]) {
+        const value = getProperty(node, property);
+        if (Array.isArray(value)) {
+            setProperty(node, property, value
+                .filter(isModelNode)
+                .map(child => adopt(transformModel(child, transformer), node))
+                .filter(child => child !== null));
+        } else if (isModelNode(value)) {
+            const child = adopt(transformModel(value, transformer), node);
+            setProperty(node, property, child === null ? undefined : child);
+        }
+    }
+    const callback = transformer[node.$type] as ((node: ModelNode) => ModelNode | null | void) | undefined;
+    const result = callback?.(node);
+    return result === undefined ? node : result as T | null;
+}
+
+function adopt(child: ModelNode | null, container: ModelNode): ModelNode | null {
+    if (child) {
+        (child as { $container?: ModelNode }).$container = container;
+    }
+    return child;
+}
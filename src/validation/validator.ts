@@ -0,0 +1,174 @@
+import { Event, Model, Reference, UseCase, getRef, isEvent, isModule, isRelation, isUseCase } from "../models/model.js";
+import { LocalEntity, isImportedEntity, isLocalEntity } from "../models/entity.js";
+import { Actor, isActor } from "../models/actor.js";
+import { isAttribute } from "../models/atribute.js";
+import { ModelNode, getProperty, referenceProperties } from "../models/reflection.js";
+import { getSimpleName } from "../references/qualified-name.js";
+import { SourceLocation, getSourceLocation } from "../models/source-location.js";
+import { streamAst } from "../traversal/ast-utils.js";
+
+export type Severity = 'error' | 'warning';
+
+export type DiagnosticCode =
+    | 'duplicate-name'
+    | 'min-greater-than-max'
+    | 'supertype-cycle'
+    | 'unresolved-reference'
+    | 'event-dependency-cycle';
+
+export interface Diagnostic {
+    severity: Severity;
+    code: DiagnosticCode;
+    message: string;
+    node: ModelNode;
+    property?: string;
+    /** Where the node was written, when the model came from DSL source. */
+    location?: SourceLocation;
+}
+
+type Check = (node: ModelNode, accept: (diagnostic: Diagnostic) => void) => void;
+
+/** Runs every semantic check over the model and returns the diagnostics in document order. */
+export function validateModel(model: Model): Array<Diagnostic> {
+    const diagnostics: Array<Diagnostic> = [];
+    const accept = (diagnostic: Diagnostic) => {
+        const location = getSourceLocation(diagnostic.node);
+        diagnostics.push(location ? { ...diagnostic, location } : diagnostic);
+    };
+    for (const node of streamAst(model)) {
+        checks.forEach(check => check(node, accept));
+    }
+    return diagnostics;
+}
+
+const checks: Array<Check> = [
+    checkDuplicateNames,
+    checkAttributeBounds,
+    checkSuperTypeCycle,
+    checkReferences,
+    checkEventDependencies
+];
+
+function nameOf(node: ModelNode): string {
+    return getSimpleName(node) ?? node.$type;
+}
+
+function reportDuplicates(nodes: Array<ModelNode>, kind: string, scope: string, accept: (diagnostic: Diagnostic) => void): void {
+    const seen = new Set<string>();
+    for (const node of nodes) {
+        const name = nameOf(node);
+        if (seen.has(name)) {
+            accept({ severity: 'error', code: 'duplicate-name', message: `Duplicate ${kind} '${name}' in ${scope}`, node, property: 'name' });
+        }
+        seen.add(name);
+    }
+}
+
+function checkDuplicateNames(node: ModelNode, accept: (diagnostic: Diagnostic) => void): void {
+    if (isModule(node)) {
+        const elements = node.elements.filter(element => !isModule(element)) as Array<ModelNode>;
+        reportDuplicates(elements, 'element', `module '${node.name}'`, accept);
+    } else if (isLocalEntity(node)) {
+        const members: Array<ModelNode> = [...node.attributes, ...node.enumentityatributes, ...node.relations];
+        reportDuplicates(members, 'attribute', `entity '${node.name}'`, accept);
+        reportDuplicates(node.functions, 'function', `entity '${node.name}'`, accept);
+    } else if (node.$type === 'EnumX') {
+        reportDuplicates(node.attributes, 'enum value', `enum '${node.name}'`, accept);
+    }
+}
+
+function checkAttributeBounds(node: ModelNode, accept: (diagnostic: Diagnostic) => void): void {
+    if (isAttribute(node) && node.min !== undefined && node.max !== undefined && node.min > node.max) {
+        accept({
+            severity: 'error',
+            code: 'min-greater-than-max',
+            message: `Attribute '${node.name}' has min ${node.min} greater than max ${node.max}`,
+            node,
+            property: 'min'
+        });
+    }
+}
+
+function checkSuperTypeCycle(node: ModelNode, accept: (diagnostic: Diagnostic) => void): void {
+    if (!isLocalEntity(node) && !isActor(node) && !isUseCase(node)) {
+        return;
+    }
+    const chain: Array<LocalEntity | Actor | UseCase> = [node];
+    let current = superTypeOf(node);
+    while (current) {
+        if (current === node) {
+            const path = [...chain, node].map(nameOf).join(' -> ');
+            accept({ severity: 'error', code: 'supertype-cycle', message: `Cyclic supertype chain: ${path}`, node, property: 'superType' });
+            return;
+        }
+        if (chain.includes(current)) {
+            return;
+        }
+        chain.push(current);
+        current = superTypeOf(current);
+    }
+}
+
+function superTypeOf(node: LocalEntity | Actor | UseCase): LocalEntity | Actor | UseCase | undefined {
+    const superType = node.superType ? getRef(node.superType as LocalEntity | Actor | UseCase) : undefined;
+    return isLocalEntity(superType) || isActor(superType) || isUseCase(superType) ? superType : undefined;
+}
+
+function checkReferences(node: ModelNode, accept: (diagnostic: Diagnostic) => void): void {
+    for (const property of referenceProperties[node.$type]) {
+        const value = getProperty(node, property);
+        const references: Array<unknown> = Array.isArray(value) ? value : [value];
+        const required = isRelation(node) && property === 'type';
+        for (const reference of references) {
+            if (reference === undefined && !required) {
+                continue;
+            }
+            const target = reference === undefined ? undefined : getRef(reference as Reference<ModelNode | undefined>);
+            if (!target) {
+                accept({
+                    severity: 'error',
+                    code: 'unresolved-reference',
+                    message: `Unresolved reference '${property}' in ${node.$type} '${nameOf(node)}'`,
+                    node,
+                    property
+                });
+            } else if (required && !isLocalEntity(target) && !isImportedEntity(target)) {
+                accept({
+                    severity: 'error',
+                    code: 'unresolved-reference',
+                    message: `Relation '${nameOf(node)}' must point at an entity but points at ${target.$type} '${nameOf(target)}'`,
+                    node,
+                    property
+                });
+            }
+        }
+    }
+}
+
+function checkEventDependencies(node: ModelNode, accept: (diagnostic: Diagnostic) => void): void {
+    if (!isEvent(node)) {
+        return;
+    }
+    const visited = new Set<Event>();
+    const path: Array<Event> = [];
+    const visit = (event: Event): boolean => {
+        for (const dependency of event.depends.map(getRef).filter(isEvent)) {
+            if (dependency === node) {
+                path.push(event);
+                return true;
+            }
+            if (!visited.has(dependency)) {
+                visited.add(dependency);
+                if (visit(dependency)) {
+                    path.push(event);
+                    return true;
+                }
+            }
+        }
+        return false;
+    };
+    if (visit(node)) {
+        const cycle = [node, ...path.reverse().slice(1), node].map(nameOf).join(' -> ');
+        accept({ severity: 'error', code: 'event-dependency-cycle', message: `Cyclic event dependency: ${cycle}`, node, property: 'depends' });
+    }
+}
@@ -0,0 +1,173 @@
+import { EnumEntityAtribute, getRef } from "../models/model.js";
+import { LocalEntity } from "../models/entity.js";
+import { Attribute, isAttribute } from "../models/atribute.js";
+import { getEffectiveAttributes, getEffectiveEnumAttributes } from "../inheritance/effective-members.js";
+import { JsonSchema, getAttributeSchema } from "../generators/json-schema.js";
+
+export type ValueErrorCode =
+    | 'required'
+    | 'type'
+    | 'format'
+    | 'check-digit'
+    | 'precision'
+    | 'min'
+    | 'max'
+    | 'enum';
+
+export interface ValueError {
+    code: ValueErrorCode;
+    message: string;
+    /** The `min` or `max` that was exceeded. */
+    limit?: number;
+}
+
+/** Errors of a record by member name; members without errors are left out. */
+export type RecordErrors = Record<string, Array<ValueError>>;
+
+const formats: Record<string, (value: string) => boolean> = {
+    date: isDate,
+    'date-time': value => {
+        const match = /^(\d{4}-\d{2}-\d{2})[Tt ](\d{2}):(\d{2}):(\d{2})(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.exec(value);
+        return match !== null && isDate(match[1]) && Number(match[2]) < 24 && Number(match[3]) < 60 && Number(match[4]) < 61;
+    },
+    email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+};
+
+function isDate(value: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        return false;
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+/** Modulo 11 check digit over `digits`, weighted from the left. */
+function checkDigit(digits: Array<number>, weights: Array<number>): number {
+    const rest = weights.reduce((sum, weight, position) => sum + weight * digits[position], 0) % 11;
+    return rest < 2 ? 0 : 11 - rest;
+}
+
+const checkDigitWeights: Record<'cpf' | 'cnpj', [Array<number>, Array<number>]> = {
+    cpf: [
+        [10, 9, 8, 7, 6, 5, 4, 3, 2],
+        [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]
+    ],
+    cnpj: [
+        [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2],
+        [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+    ]
+};
+
+/** Completes the first 9 digits of a CPF or the first 12 of a CNPJ with their two check digits. */
+export function appendCheckDigits(base: string, kind: 'cpf' | 'cnpj'): string {
+    const digits = [...base].map(Number);
+    for (const weights of checkDigitWeights[kind]) {
+        digits.push(checkDigit(digits, weights));
+    }
+    return digits.join('');
+}
+
+/** Numbers with all digits equal pass the modulo 11 check but are not valid documents. */
+function hasValidCheckDigits(value: string, kind: 'cpf' | 'cnpj'): boolean {
+    return !/^(\d)\1*$/.test(value) && appendCheckDigits(value.slice(0, -2), kind) === value;
+}
+
+/** True for 11 digits whose two check digits match. */
+export function isValidCpf(value: string): boolean {
+    return /^[0-9]{11}$/.test(value) && hasValidCheckDigits(value, 'cpf');
+}
+
+/** True for 14 digits whose two check digits match. */
+export function isValidCnpj(value: string): boolean {
+    return /^[0-9]{14}$/.test(value) && hasValidCheckDigits(value, 'cnpj');
+}
+
+function checkType(schema: JsonSchema, value: unknown): boolean {
+    switch (schema.type) {
+        case 'boolean': return typeof value === 'boolean';
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        default: return typeof value === 'string';
+    }
+}
+
+/** Checks a value as `getAttributeSchema` describes it, plus the CPF and CNPJ check digits. */
+function checkAttribute(attribute: Attribute, value: unknown): Array<ValueError> {
+    const schema = getAttributeSchema(attribute);
+    if ((attribute.type === 'date' || attribute.type === 'datetime') && value instanceof Date) {
+        return isNaN(value.getTime()) ? [{ code: 'format', message: 'Invalid date' }] : [];
+    }
+    if (!checkType(schema, value)) {
+        return [{ code: 'type', message: `Expected ${schema.type === 'integer' ? 'an integer' : `a ${schema.type}`}` }];
+    }
+    const errors: Array<ValueError> = [];
+    if (typeof value === 'string') {
+        const valid = (schema.pattern === undefined || new RegExp(schema.pattern).test(value))
+            && (schema.format === undefined || formats[schema.format]?.(value) !== false)
+            && (schema.contentEncoding !== 'base64' || /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(value));
+        if (!valid) {
+            return [{ code: 'format', message: `Invalid ${attribute.type} format` }];
+        }
+        if ((attribute.type === 'cpf' && !isValidCpf(value)) || (attribute.type === 'cnpj' && !isValidCnpj(value))) {
+            return [{ code: 'check-digit', message: `Invalid ${attribute.type.toUpperCase()} check digits` }];
+        }
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push({ code: 'min', message: `Must have at least ${schema.minLength} characters`, limit: schema.minLength });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push({ code: 'max', message: `Must have at most ${schema.maxLength} characters`, limit: schema.maxLength });
+        }
+    } else if (typeof value === 'number') {
+        if (schema.multipleOf !== undefined && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-8) {
+            errors.push({ code: 'precision', message: `Must be a multiple of ${schema.multipleOf}` });
+        }
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push({ code: 'min', message: `Must be at least ${schema.minimum}`, limit: schema.minimum });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push({ code: 'max', message: `Must be at most ${schema.maximum}`, limit: schema.maximum });
+        }
+    }
+    return errors;
+}
+
+/**
+ * Checks a value against an attribute: its data type (with the CPF and CNPJ
+ * check digits), `min` and `max`, and `blank`. Enum attributes accept the names
+ * of their enum's values and are always optional, as in the generated tables.
+ * Documents, CEPs and phone numbers are expected with digits only. Attributes
+ * of type `void` hold no value and accept anything.
+ */
+export function validateValue(attribute: Attribute | EnumEntityAtribute, value: unknown): Array<ValueError> {
+    if (isBlank(value)) {
+        return isAttribute(attribute) && !attribute.blank && attribute.type !== 'void'
+            ? [{ code: 'required', message: 'Value is required' }]
+            : [];
+    }
+    if (isAttribute(attribute)) {
+        return attribute.type === 'void' ? [] : checkAttribute(attribute, value);
+    }
+    const values = getRef(attribute.type)?.attributes.map(candidate => candidate.name) ?? [];
+    return typeof value === 'string' && values.includes(value)
+        ? []
+        : [{ code: 'enum', message: `Expected one of ${values.join(', ')}` }];
+}
+
+/** Validates every attribute and enum attribute of an entity, inherited ones included, against a record. */
+export function validateRecord(entity: LocalEntity, record: Record<string, unknown>): RecordErrors {
+    const errors: RecordErrors = {};
+    for (const member of [...getEffectiveAttributes(entity), ...getEffectiveEnumAttributes(entity)]) {
+        const found = validateValue(member, record[member.name]);
+        if (found.length > 0) {
+            errors[member.name] = found;
+        }
+    }
+    return errors;
+}
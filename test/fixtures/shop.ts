@@ -0,0 +1,48 @@
+import { model, type ConfigurationOptions, type EntityBuilder, type ModelBuilder, type ModuleBuilder } from '../../src/builders/model-builder';
+import type { Model } from '../../src/models/model';
+
+/** Elements a test file adds to the shared shop model. */
+export interface ShopExtensions {
+  /** Merged over the default `{ name: 'Shop' }` configuration. */
+  config?: ConfigurationOptions;
+  /** Extra members of `Sales.Base`, after `createdAt`. */
+  base?: (entity: EntityBuilder<ModelBuilder>) => void;
+  /** Extra members of `Sales.Customer`, after the shared ones. */
+  customer?: (entity: EntityBuilder<ModelBuilder>) => void;
+  /** Extra members of `Sales.Order`, after the shared ones. */
+  order?: (entity: EntityBuilder<ModelBuilder>) => void;
+  /** Extra entities, enums or submodules of `Sales`, after `Tag`. */
+  sales?: (module: ModuleBuilder<ModelBuilder>) => void;
+  /** Extra top-level elements, such as other modules or use cases. */
+  model?: (builder: ModelBuilder) => void;
+}
+
+/**
+ * The shop model shared by the unit tests:
+ *
+ * - the `Status` enum (OPEN, CLOSED) and the `Auth.User` import
+ * - the `Sales` module (comment "Vendas") with an abstract `Base` (createdAt),
+ *   `Customer extends Base` (unique cpf, orders), `Order` (status, customer)
+ *   and `Tag` (label)
+ */
+export function shop(extensions: ShopExtensions = {}): Model {
+  const builder = model()
+    .config({ name: 'Shop', ...extensions.config })
+    .enum('Status', ['OPEN', 'CLOSED'])
+    .moduleImport('Auth', 'auth-lib', 'com.example.auth', ['User']);
+  const sales = builder.module('Sales', 'Vendas');
+  const base = sales.entity('Base', { is_abstract: true }).attr('createdAt', 'datetime');
+  extensions.base?.(base);
+  const customer = sales.entity('Customer', { superType: 'Base', comment: 'Cliente' })
+    .attr('cpf', 'cpf', { unique: true })
+    .oneToMany('orders', 'Order');
+  extensions.customer?.(customer);
+  const order = sales.entity('Order')
+    .enumAttr('status', 'Status')
+    .manyToOne('customer', 'Customer');
+  extensions.order?.(order);
+  sales.entity('Tag').attr('label', 'string');
+  extensions.sales?.(sales);
+  extensions.model?.(builder);
+  return builder.build();
+}
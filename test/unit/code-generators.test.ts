@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { parseModel } from '../../src/dsl/parser';
+import { generateCode, languageGenerators } from '../../src/generators/code';
+import type { GeneratedFile } from '../../src/generators/files';
+import type { Model } from '../../src/models/model';
+import { shop, type ShopExtensions } from '../fixtures/shop';
+
+const clash = `Configuration {
+    name: "Shop"
+    language: java
+    package_path: "com.example.shop"
+}
+
+module Crm {
+    entity Customer {
+        name: string
+    }
+}
+
+module Sales {
+    entity Customer {
+        contact: ManyToOne Crm.Customer
+    }
+
+    entity Order {
+        customer: ManyToOne Sales.Customer
+        contact: ManyToOne Crm.Customer
+    }
+}
+`;
+
+function parse(text: string): Model {
+  const result = parseModel(text);
+  expect(result.errors).toEqual([]);
+  return result.model;
+}
+
+function generated(extensions: Pick<ShopExtensions, 'sales'> = {}): Model {
+  return shop({
+    config: { language: 'java', package_path: 'com.example.shop' as never, database_name: 'postgres' },
+    customer: entity => entity
+      .attr('name', 'string', { max: 120 })
+      .attr('phone', 'mobilePhoneNumber', { blank: true })
+      .enumAttr('status', 'Status')
+      .manyToOne('account', 'Auth.User'),
+    order: entity => entity.attr('total', 'currency').manyToMany('tags', 'Tag'),
+    ...extensions
+  });
+}
+
+function file(files: Array<GeneratedFile>, path: string): string {
+  const found = files.find(candidate => candidate.path === path);
+  expect(found).toBeDefined();
+  return found!.content;
+}
+
+describe('generateCode', () => {
+  it('should pick the language of the configuration', () => {
+    const files = generateCode(generated());
+
+    expect(files.map(candidate => candidate.path)).toEqual([
+      'src/main/java/com/example/shop/Status.java',
+      'src/main/java/com/example/shop/sales/Base.java',
+      'src/main/java/com/example/shop/sales/dto/BaseDto.java',
+      'src/main/java/com/example/shop/sales/Customer.java',
+      'src/main/java/com/example/shop/sales/dto/CustomerDto.java',
+      'src/main/java/com/example/shop/sales/repository/CustomerRepository.java',
+      'src/main/java/com/example/shop/sales/Order.java',
+      'src/main/java/com/example/shop/sales/dto/OrderDto.java',
+      'src/main/java/com/example/shop/sales/repository/OrderRepository.java',
+      'src/main/java/com/example/shop/sales/Tag.java',
+      'src/main/java/com/example/shop/sales/dto/TagDto.java',
+      'src/main/java/com/example/shop/sales/repository/TagRepository.java'
+    ]);
+  });
+
+  it('should throw when no language is configured', () => {
+    const built = model().config({ name: 'Shop' }).module('Sales').entity('Customer').end().end().build();
+
+    expect(() => generateCode(built)).toThrow(/No target language/);
+  });
+
+  it('should let options replace the emitters of a language', () => {
+    const files = generateCode(generated(), {
+      generators: {
+        java: {
+          ...languageGenerators.java,
+          dto: () => [],
+          repository: entity => [{ path: `${entity.name}.txt`, content: entity.name }]
+        }
+      }
+    });
+
+    expect(files.filter(candidate => candidate.path.includes('/dto/'))).toEqual([]);
+    expect(file(files, 'Tag.txt')).toBe('Tag');
+  });
+});
+
+describe('java generator', () => {
+  it('should map entities with JPA following the SQL layout', () => {
+    const files = generateCode(generated());
+    const customer = file(files, 'src/main/java/com/example/shop/sales/Customer.java');
+    const order = file(files, 'src/main/java/com/example/shop/sales/Order.java');
+
+    expect(file(files, 'src/main/java/com/example/shop/sales/Base.java')).toContain('@MappedSuperclass\npublic abstract class Base {');
+    expect(customer).toContain('/** Cliente */\n@Entity\n@Table(name = "customer")\npublic class Customer extends Base {');
+    expect(customer).toContain('@Column(name = "name", nullable = false, length = 120)');
+    expect(customer).toContain('@Column(name = "cpf", nullable = false, unique = true)');
+    expect(customer).toContain('@Enumerated(EnumType.STRING)');
+    expect(customer).toContain('@OneToMany(mappedBy = "customer")\n    private List<Order> orders = new ArrayList<>();');
+    expect(customer).toContain('import com.example.auth.User;');
+    expect(order).toContain('@JoinColumn(name = "customer_id")\n    private Customer customer;');
+    expect(order).toContain('@JoinTable(name = "order_tags", joinColumns = @JoinColumn(name = "order_id"), inverseJoinColumns = @JoinColumn(name = "tag_id"))');
+  });
+
+  it('should emit validated DTO records and Spring Data repositories', () => {
+    const files = generateCode(generated());
+
+    expect(file(files, 'src/main/java/com/example/shop/sales/dto/CustomerDto.java')).toContain([
+      'public record CustomerDto(',
+      '    Long id,',
+      '    @NotNull LocalDateTime createdAt,',
+      '    @NotNull @Pattern(regexp = "^[0-9]{11}$") String cpf,',
+      '    @NotNull @Size(max = 120) String name,',
+      '    @Pattern(regexp = "^(\\\\+55)?[1-9]{2}9[0-9]{8}$") String phone,',
+      '    Status status,',
+      '    List<Long> ordersIds,',
+      '    Long accountId',
+      ') {'
+    ].join('\n'));
+    expect(file(files, 'src/main/java/com/example/shop/sales/repository/OrderRepository.java')).toContain(
+      'public interface OrderRepository extends JpaRepository<Order, Long> {'
+    );
+  });
+
+  it('should draw the keys of TABLE_PER_CLASS hierarchies from a sequence', () => {
+    const files = generateCode(generated({
+      sales: sales => sales.entity('VipCustomer', { superType: 'Customer' }).attr('discount', 'decimal')
+    }));
+    const base = file(files, 'src/main/java/com/example/shop/sales/Base.java');
+
+    expect(base).toContain([
+      '    @Id',
+      '    @GeneratedValue(strategy = GenerationType.SEQUENCE, generator = "base_seq")',
+      '    @SequenceGenerator(name = "base_seq", sequenceName = "base_seq", allocationSize = 1)',
+      '    @Column(name = "id")'
+    ].join('\n'));
+    expect(file(files, 'src/main/java/com/example/shop/sales/Customer.java')).toContain(
+      '@Inheritance(strategy = InheritanceType.TABLE_PER_CLASS)\npublic class Customer extends Base {'
+    );
+    expect(file(files, 'src/main/java/com/example/shop/sales/VipCustomer.java')).not.toContain('@Inheritance');
+    expect(file(files, 'src/main/java/com/example/shop/sales/Order.java')).toContain('@GeneratedValue(strategy = GenerationType.IDENTITY)');
+  });
+
+  it('should name same-named entities apart and refer to them fully qualified', () => {
+    const files = generateCode(parse(clash));
+    const order = file(files, 'src/main/java/com/example/shop/sales/Order.java');
+
+    expect(file(files, 'src/main/java/com/example/shop/crm/Customer.java')).toContain('@Entity(name = "CrmCustomer")\n@Table(name = "crm_customer")');
+    expect(file(files, 'src/main/java/com/example/shop/sales/Customer.java')).toContain('@Entity(name = "SalesCustomer")\n@Table(name = "sales_customer")');
+    expect(file(files, 'src/main/java/com/example/shop/sales/Customer.java')).toContain('    private com.example.shop.crm.Customer contact;');
+    expect(order).toContain('@Entity\n@Table(name = "order")');
+    expect(order).not.toContain('import com.example.shop.crm.Customer;');
+    expect(order).toContain('    private Customer customer;');
+    expect(order).toContain('    public com.example.shop.crm.Customer getContact() {');
+  });
+});
+
+describe('python generator', () => {
+  it('should emit SQLAlchemy models, Pydantic schemas and package markers', () => {
+    const files = generateCode(generated(), { language: 'python' });
+    const order = file(files, 'com/example/shop/sales/models/order.py');
+
+    expect(files.some(candidate => candidate.path === 'com/example/shop/sales/models/base.py')).toBe(false);
+    expect(order).toContain('order_tags_table = Table(\n    "order_tags",');
+    expect(order).toContain('customer_id: Mapped[Optional[int]] = mapped_column(ForeignKey("customer.id"))');
+    expect(order).toContain('customer: Mapped[Optional[Customer]] = relationship(foreign_keys=[customer_id], back_populates="orders")');
+    expect(order).toContain('tags: Mapped[list[Tag]] = relationship(secondary=order_tags_table)');
+    expect(file(files, 'com/example/shop/sales/models/customer.py')).toContain('cpf: Mapped[str] = mapped_column(String(11), unique=True)');
+    expect(file(files, 'com/example/shop/sales/schemas/customer.py')).toContain([
+      'class CustomerSchema(BaseSchema):',
+      '    """Cliente"""',
+      '',
+      '    cpf: str = Field(pattern=r"^[0-9]{11}$")',
+      '    name: str = Field(max_length=120)'
+    ].join('\n'));
+    expect(file(files, 'com/example/shop/database.py')).toContain('class Base(DeclarativeBase):');
+    expect(file(files, 'com/example/shop/sales/repositories/__init__.py')).toBe('');
+  });
+
+  it('should resolve same-named models by module path', () => {
+    const order = file(generateCode(parse(clash), { language: 'python' }), 'com/example/shop/sales/models/order.py');
+
+    expect(order).toContain('    from com.example.shop.crm.models.customer import Customer as CrmCustomer\n');
+    expect(order).toContain('    from com.example.shop.sales.models.customer import Customer as SalesCustomer\n');
+    expect(order).toContain('customer_id: Mapped[Optional[int]] = mapped_column(ForeignKey("sales_customer.id"))');
+    expect(order).toContain('customer: Mapped[Optional[SalesCustomer]] = relationship("com.example.shop.sales.models.customer.Customer", foreign_keys=[customer_id])');
+    expect(order).toContain('contact: Mapped[Optional[CrmCustomer]] = relationship("com.example.shop.crm.models.customer.Customer", foreign_keys=[contact_id])');
+  });
+});
+
+describe('csharp generators', () => {
+  it('should emit EF Core records in a minimal API layout', () => {
+    const files = generateCode(generated(), { language: 'csharp-minimal-api' });
+    const customer = file(files, 'Models/Sales/Customer.cs');
+    const context = file(files, 'Data/AppDbContext.cs');
+
+    expect(customer).toContain('namespace Com.Example.Shop.Models.Sales;');
+    expect(customer).toContain('[Table("customer")]\n[Index(nameof(Cpf), IsUnique = true)]\npublic record Customer : Base');
+    expect(customer).toContain('    [Column("name")]\n    [MaxLength(120)]\n    public required string Name { get; set; }');
+    expect(customer).toContain('    public string? Phone { get; set; }');
+    expect(customer).toContain('    [InverseProperty(nameof(Order.Customer))]\n    public List<Order> Orders { get; set; } = [];');
+    expect(file(files, 'Models/Sales/Order.cs')).toContain('    [ForeignKey(nameof(CustomerId))]\n    public Customer? Customer { get; set; }');
+    expect(file(files, 'Dtos/Sales/OrderDto.cs')).toContain('public record OrderDto(\n    long Id,\n    decimal Total,\n    Status? Status,\n    long? CustomerId,\n    List<long> TagsIds);');
+    expect(file(files, 'Repositories/Sales/ICustomerRepository.cs')).toContain('Task<Customer?> FindAsync(long id);');
+    expect(context).toContain('public DbSet<Customer> Customers => Set<Customer>();');
+    expect(context).toContain('modelBuilder.Entity<Base>().UseTpcMappingStrategy();');
+    expect(context).toContain('modelBuilder.Entity<Customer>().Property(e => e.Status).HasConversion<string>();');
+    expect(context).toContain('"order_tags",\n                right => right.HasOne<Tag>().WithMany().HasForeignKey("tag_id"),');
+  });
+
+  it('should split the clean architecture layout into projects', () => {
+    const paths = generateCode(generated(), { language: 'csharp-clean-architecture' }).map(candidate => candidate.path);
+
+    expect(paths).toContain('src/Com.Example.Shop.Domain/Entities/Sales/Customer.cs');
+    expect(paths).toContain('src/Com.Example.Shop.Application/Dtos/Sales/CustomerDto.cs');
+    expect(paths).toContain('src/Com.Example.Shop.Application/Repositories/Sales/ICustomerRepository.cs');
+    expect(paths).toContain('src/Com.Example.Shop.Infrastructure/Repositories/Sales/CustomerRepository.cs');
+    expect(paths).toContain('src/Com.Example.Shop.Infrastructure/Persistence/AppDbContext.cs');
+  });
+});
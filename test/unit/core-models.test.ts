@@ -136,10 +136,11 @@ describe('Configuration', () => {
   });
 
   it('should support all language types', () => {
-    const languages: Array<'csharp-clean-architecture' | 'csharp-minimal-api' | 'java' | 'python'> = [
+    const languages: Array<'csharp-clean-architecture' | 'csharp-minimal-api' | 'java' | 'node-prisma' | 'python'> = [
       'csharp-clean-architecture',
       'csharp-minimal-api',
       'java',
+      'node-prisma',
       'python'
     ];
 
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { generateMermaidDiagram, generatePlantUmlDiagram } from '../../src/generators/diagrams';
+import type { Model, Module } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function diagrammed(): Model {
+  return shop({
+    customer: entity => entity.attr('phone', 'phoneNumber', { comment: 'Contato' }),
+    order: entity => entity
+      .attr('total', 'currency')
+      .enumAttr('priority', 'Sales.Priority')
+      .manyToMany('tags', 'Tag')
+      .manyToMany('categories', 'Catalog.Category')
+      .oneToOne('owner', 'Auth.User')
+      .function('close', 'boolean', { reason: 'string' }),
+    sales: sales => sales.enum('Priority', ['LOW', 'HIGH']),
+    model: builder => builder.module('Catalog').entity('Category').attr('label', 'string').manyToOne('parent', 'Category')
+  });
+}
+
+describe('generateMermaidDiagram', () => {
+  it('should render a model as an erDiagram with qualified ids', () => {
+    expect(generateMermaidDiagram(diagrammed())).toBe(`erDiagram
+    Sales_Base["Base (abstract)"] {
+        datetime createdAt
+    }
+    Sales_Customer["Customer"] {
+        cpf cpf UK
+        phoneNumber phone "Contato"
+    }
+    Sales_Order["Order"] {
+        currency total
+        Status status
+        Priority priority
+    }
+    Sales_Tag["Tag"] {
+        string label
+    }
+    Catalog_Category["Category"] {
+        string label
+    }
+    Status["Status (enum)"] {
+        enum OPEN
+        enum CLOSED
+    }
+    Sales_Priority["Priority (enum)"] {
+        enum LOW
+        enum HIGH
+    }
+    Auth_User["User (imported)"] {
+    }
+    Sales_Customer ||--o{ Sales_Order : "orders"
+    Sales_Order }o--|| Sales_Customer : "customer"
+    Sales_Order }o--o{ Sales_Tag : "tags"
+    Sales_Order }o--o{ Catalog_Category : "categories"
+    Sales_Order ||--|| Auth_User : "owner"
+    Catalog_Category }o--|| Catalog_Category : "parent"
+    Sales_Customer ||..|| Sales_Base : "extends"
+    Sales_Order }o--|| Status : "status"
+    Sales_Order }o--|| Sales_Priority : "priority"
+`);
+  });
+
+  it('should render a single module with only its referenced imports', () => {
+    const built = diagrammed();
+    const catalog = built.abstractElements[3] as Module;
+
+    expect(generateMermaidDiagram(catalog)).toBe(`erDiagram
+    Catalog_Category["Category"] {
+        string label
+    }
+    Catalog_Category }o--|| Catalog_Category : "parent"
+`);
+  });
+
+  it('should keep same-named entities of different modules apart', () => {
+    const built = model()
+      .module('Sales').entity('Order').manyToOne('customer', 'Customer').end().entity('Customer').end().end()
+      .module('Billing').entity('Order').attr('total', 'currency').end().end()
+      .build();
+    const diagram = generateMermaidDiagram(built);
+
+    expect(diagram).toContain('    Sales_Order["Order"] {\n    }');
+    expect(diagram).toContain('    Billing_Order["Order"] {\n        currency total\n    }');
+    expect(diagram).toContain('    Sales_Order }o--|| Sales_Customer : "customer"');
+  });
+
+  it('should use simple ids when asked', () => {
+    const diagram = generateMermaidDiagram(diagrammed(), { qualifiedNames: false });
+
+    expect(diagram).toContain('    Customer {');
+    expect(diagram).toContain('    Base["Base (abstract)"] {');
+    expect(diagram).toContain('    Customer ||--o{ Order : "orders"');
+    expect(diagram).toContain('    Order ||--|| Auth_User : "owner"');
+  });
+});
+
+describe('generatePlantUmlDiagram', () => {
+  it('should render packages, inheritance, relations and enums', () => {
+    expect(generatePlantUmlDiagram(diagrammed())).toBe(`@startuml
+enum "Status" as Status {
+    OPEN
+    CLOSED
+}
+package "Sales" {
+    abstract class "Base" as Sales_Base {
+        +createdAt : datetime
+    }
+    class "Customer" as Sales_Customer {
+        +cpf : cpf {unique}
+        +phone : phoneNumber
+    }
+    class "Order" as Sales_Order {
+        +total : currency
+        +status : Status
+        +priority : Priority
+        +close(reason : string) : boolean
+    }
+    class "Tag" as Sales_Tag {
+        +label : string
+    }
+    enum "Priority" as Sales_Priority {
+        LOW
+        HIGH
+    }
+}
+package "Catalog" {
+    class "Category" as Catalog_Category {
+        +label : string
+    }
+}
+class "User" as Auth_User <<imported>> #DDDDDD
+Sales_Base <|-- Sales_Customer
+Sales_Customer "1" --> "*" Sales_Order : orders
+Sales_Order "*" --> "1" Sales_Customer : customer
+Sales_Order "*" --> "*" Sales_Tag : tags
+Sales_Order "*" --> "*" Catalog_Category : categories
+Sales_Order "1" --> "1" Auth_User : owner
+Catalog_Category "*" --> "1" Catalog_Category : parent
+Sales_Order ..> Status : status
+Sales_Order ..> Sales_Priority : priority
+@enduml
+`);
+  });
+
+  it('should draw imported entities referenced from a module', () => {
+    const sales = diagrammed().abstractElements[2] as Module;
+    const diagram = generatePlantUmlDiagram(sales);
+
+    expect(diagram.startsWith('@startuml\npackage "Sales" {')).toBe(true);
+    expect(diagram).toContain('class "User" as Auth_User <<imported>> #DDDDDD');
+    expect(diagram).not.toContain('class "Category"');
+  });
+});
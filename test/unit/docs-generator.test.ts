@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { generateDocs, sortEvents } from '../../src/generators/docs';
+import { parseModel } from '../../src/dsl/parser';
+import type { Model, UseCasesModel } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function documented(): Model {
+  return shop({
+    config: { description: 'Loja virtual' },
+    customer: entity => entity.attr('name', 'string', { comment: 'Nome | razão social', fullName: 'Nome' }),
+    order: entity => entity
+      .attr('total', 'currency', { min: 0, max: 1000 })
+      .oneToOne('owner', 'Auth.User')
+      .function('close', 'boolean', { reason: 'string' }),
+    sales: sales => sales.module('Catalog').enum('Kind', ['A']).entity('Category').enumAttr('kind', 'Kind'),
+    model: builder => builder
+      .useCases('shop', 'Compras')
+        .actor('Client')
+        .useCase('buy', 'Comprar', { actors: ['Client'], description: 'Fluxo de compra' })
+          .event('ship', { depends: ['pay'], action: 'enviar' })
+          .event('pay', { description: 'Paga o pedido' })
+        .end()
+      .end()
+  });
+}
+
+function page(path: string): string {
+  const file = generateDocs(documented()).find(candidate => candidate.path === path);
+  if (!file) {
+    throw new Error(`No page ${path}`);
+  }
+  return file.content;
+}
+
+describe('generateDocs', () => {
+  it('should produce one page per module, entity and use case plus an index', () => {
+    expect(generateDocs(documented()).map(file => file.path)).toEqual([
+      'index.md',
+      'modules/Sales.md',
+      'modules/Sales.Catalog.md',
+      'entities/Sales.Base.md',
+      'entities/Sales.Customer.md',
+      'entities/Sales.Order.md',
+      'entities/Sales.Tag.md',
+      'entities/Sales.Catalog.Category.md',
+      'use-cases/shop.buy.md'
+    ]);
+  });
+
+  it('should build the index from the configuration', () => {
+    const index = page('index.md');
+
+    expect(index.startsWith('# Shop\n\nLoja virtual\n')).toBe(true);
+    expect(index).toContain('- [Sales](modules/Sales.md) — Vendas');
+    expect(index).toContain('- [Comprar](use-cases/shop.buy.md)');
+    expect(index).toContain('| Auth | auth-lib | com.example.auth | `User` |');
+    expect(index).toContain('### Status\n\n- `OPEN`\n- `CLOSED`');
+  });
+
+  it('should list module contents with cross links', () => {
+    const sales = page('modules/Sales.md');
+
+    expect(sales).toContain('Up: [Index](../index.md)');
+    expect(sales).toContain('- [Catalog](../modules/Sales.Catalog.md)');
+    expect(sales).toContain('| [Base](../entities/Sales.Base.md) *(abstract)* |  |');
+    expect(sales).toContain('| [Customer](../entities/Sales.Customer.md) | Cliente |');
+  });
+
+  it('should render attribute tables with constraints, full names and comments', () => {
+    expect(page('entities/Sales.Customer.md')).toContain('| `name` | Nome | `string` | required | Nome \\| razão social |');
+    expect(page('entities/Sales.Order.md')).toContain('| `total` |  | `currency` | required, min 0, max 1000 |  |');
+  });
+
+  it('should link supertypes, enums, relations and incoming relations', () => {
+    const order = page('entities/Sales.Order.md');
+
+    expect(page('entities/Sales.Customer.md')).toContain('Extends: [Base](../entities/Sales.Base.md)');
+    expect(order).toContain('| `status` | [Status](../index.md#status) |  |');
+    expect(order).toContain('| `owner` |  | 1:1 | `Auth.User` (imported) |  |');
+    expect(order).toContain('- [Customer](../entities/Sales.Customer.md).`orders` (1:N)');
+    expect(order).toContain('- `close(reason: string): boolean`');
+    expect(page('entities/Sales.Catalog.Category.md')).toContain('[Kind](../modules/Sales.Catalog.md#kind)');
+  });
+
+  it('should list actors and events in dependency order', () => {
+    expect(page('use-cases/shop.buy.md')).toBe(`# Comprar
+
+Id: \`shop.buy\`
+
+Fluxo de compra
+
+## Actors
+
+- Client
+
+## Events
+
+1. <a id="pay"></a>**pay**
+   - Paga o pedido
+2. <a id="ship"></a>**ship** — enviar
+   - Depends on: [pay](#pay)
+`);
+  });
+});
+
+describe('generateDocs with unresolved references', () => {
+  it('should leave out use cases, actors and events that do not resolve', () => {
+    const { model: parsed } = parseModel([
+      'usecases shop {',
+      '    actor Client',
+      '    usecase buy "Comprar" extends Missing {',
+      '        actors: Client, Nobody',
+      '        event pay {}',
+      '        event ship {',
+      '            depends: pay, nothing',
+      '        }',
+      '    }',
+      '}',
+      ''
+    ].join('\n'));
+    const page = generateDocs(parsed).find(file => file.path === 'use-cases/shop.buy.md')!;
+
+    expect(page.content).toBe(`# Comprar
+
+Id: \`shop.buy\`
+
+## Actors
+
+- Client
+
+## Events
+
+1. <a id="pay"></a>**pay**
+2. <a id="ship"></a>**ship**
+   - Depends on: [pay](#pay)
+`);
+  });
+});
+
+describe('sortEvents', () => {
+  it('should keep declaration order for independent events and survive cycles', () => {
+    const built = model()
+      .useCases('uc').useCase('u', 'U')
+        .event('a').event('b', { depends: ['c'] }).event('c', { depends: ['b'] })
+      .end().build();
+    const events = (built.abstractElements[0] as UseCasesModel).elements[0].events;
+
+    expect(sortEvents(events).map(event => event.id)).toEqual(['a', 'c', 'b']);
+  });
+});
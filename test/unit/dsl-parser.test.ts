@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { parseModel } from '../../src/dsl/parser';
+import { printModel } from '../../src/dsl/printer';
+import { serializeModel } from '../../src/serialization/serializer';
+import { getSourceLocation } from '../../src/models/source-location';
+import { validateModel } from '../../src/validation/validator';
+import { getRef, type EnumX, type Model, type Module, type ModuleImport, type UseCase, type UseCasesModel } from '../../src/models/model';
+import type { LocalEntity } from '../../src/models/entity';
+import type { Actor } from '../../src/models/actor';
+
+const source = `Configuration {
+    name: "Shop"
+    language: java
+    entity: Sales.Customer
+}
+
+import auth from "leds-auth" package "br.leds.auth" {
+    User
+}
+
+// Vendas
+module Sales {
+    enum Status {
+        OPEN fullName "Aberto"
+        CLOSED
+    }
+
+    abstract entity Base {
+        createdAt: datetime
+    }
+
+    // Cliente
+    // Pessoa física
+    entity Customer extends Base {
+        cpf: cpf unique min 11 max 11 fullName "CPF"
+        status: enum Status
+        orders: OneToMany Order
+        account: ManyToOne User
+        function close(/* Motivo */ reason: string, force: boolean): boolean
+    }
+
+    entity Order {
+        products: ManyToMany Order by Customer fullName "Produtos"
+    }
+}
+
+usecases shop {
+    actor Client
+    actor Admin extends Client fullName "Administrador"
+
+    usecase buy "Comprar" {
+        actors: Client, Admin
+        description: "Fluxo de compra"
+        event ship {
+            action: "enviar"
+            depends: pay
+        }
+        event pay {}
+    }
+}
+`;
+
+function parsed(text = source): Model {
+  const result = parseModel(text);
+  expect(result.errors).toEqual([]);
+  return result.model;
+}
+
+describe('parseModel', () => {
+  it('should build nodes with containers and default values', () => {
+    const built = parsed();
+    const sales = built.abstractElements[1] as Module;
+    const customer = sales.elements[2] as LocalEntity;
+
+    expect(built.configuration).toMatchObject({ name: 'Shop', language: 'java' });
+    expect(built.configuration!.$container).toBe(built);
+    expect(sales).toMatchObject({ name: 'Sales', comment: 'Vendas' });
+    expect(customer).toMatchObject({ name: 'Customer', comment: 'Cliente\nPessoa física', is_abstract: false });
+    expect(customer.$container).toBe(sales);
+    expect(customer.attributes[0]).toMatchObject({ name: 'cpf', type: 'cpf', unique: true, blank: false, min: 11, max: 11, fullName: 'CPF' });
+    expect(customer.attributes[0].$container).toBe(customer);
+    expect((sales.elements[0] as EnumX).attributes.map(value => [value.name, value.fullName])).toEqual([['OPEN', 'Aberto'], ['CLOSED', undefined]]);
+    expect((sales.elements[1] as LocalEntity).is_abstract).toBe(true);
+  });
+
+  it('should resolve references through the enclosing scopes and imports', () => {
+    const built = parsed();
+    const user = (built.abstractElements[0] as ModuleImport).entities[0];
+    const sales = built.abstractElements[1] as Module;
+    const [status, base, customer, order] = sales.elements as [EnumX, LocalEntity, LocalEntity, LocalEntity];
+    const useCases = built.abstractElements[2] as UseCasesModel;
+    const [client, admin, buy] = useCases.elements as unknown as [Actor, Actor, UseCase];
+
+    expect(getRef(built.configuration!.entity!)).toBe(customer);
+    expect(getRef(customer.superType!)).toBe(base);
+    expect(getRef(customer.enumentityatributes[0].type)).toBe(status);
+    expect(customer.relations.map(relation => getRef(relation.type))).toEqual([order, user]);
+    expect(order.relations[0]).toMatchObject({ $type: 'ManyToMany', fullName: 'Produtos', by: { ref: customer } });
+    expect(getRef(admin.superType!)).toBe(client);
+    expect(buy.actors.map(getRef)).toEqual([client, admin]);
+    expect(getRef(buy.events[0].depends[0])).toBe(buy.events[1]);
+  });
+
+  it('should read function parameters into a single Parameter', () => {
+    const customer = (parsed().abstractElements[1] as Module).elements[2] as LocalEntity;
+    const fn = customer.functions[0];
+
+    expect(fn).toMatchObject({ name: 'close', response: 'boolean' });
+    expect(fn.paramters).toHaveLength(1);
+    expect(fn.paramters[0].element).toMatchObject([
+      { name: 'reason', type: 'string', comment: 'Motivo' },
+      { name: 'force', type: 'boolean' }
+    ]);
+  });
+
+  it('should round-trip with printModel', () => {
+    const built = parsed();
+
+    expect(printModel(built)).toBe(source);
+  });
+
+  it('should produce the same model as the builder', () => {
+    const built = model()
+      .module('Sales')
+        .entity('Customer', { comment: 'Cliente' }).attr('name', 'string', { fullName: 'Nome' }).oneToMany('orders', 'Order').end()
+        .entity('Order').function('close', 'void', { reason: 'string' }).end()
+      .end()
+      .build();
+
+    expect(JSON.parse(serializeModel(parsed(printModel(built))))).toEqual(JSON.parse(serializeModel(built)));
+  });
+
+  it('should record source locations', () => {
+    const built = parseModel(source, { uri: 'file:///shop.spark' }).model;
+    const customer = (built.abstractElements[1] as Module).elements[2] as LocalEntity;
+
+    expect(getSourceLocation(customer)).toEqual({
+      uri: 'file:///shop.spark',
+      range: { start: { line: 23, character: 4 }, end: { line: 29, character: 5 } }
+    });
+    expect(getSourceLocation(customer.attributes[0])!.range.start).toEqual({ line: 24, character: 8 });
+  });
+
+  it('should report syntax errors with line and column and keep parsing', () => {
+    const result = parseModel([
+      'module Sales {',
+      '    entity Customer {',
+      '        name string',
+      '        cpf: cpf unique',
+      '        age: number',
+      '    }',
+      '    entity Order {}',
+      '}',
+      'modulo Billing {}'
+    ].join('\n'));
+
+    expect(result.errors.map(error => [error.line, error.column, error.message])).toEqual([
+      [3, 14, "Expected ':' but found 'string'"],
+      [5, 14, "Expected a data type, 'enum' or a relation type but found 'number'"],
+      [9, 1, "Expected 'Configuration', 'module', 'enum', 'import' or 'usecases' but found 'modulo'"]
+    ]);
+    const sales = result.model.abstractElements[0] as Module;
+    expect(sales.elements.map(element => (element as LocalEntity).name)).toEqual(['Customer', 'Order']);
+    expect((sales.elements[0] as LocalEntity).attributes.map(attribute => attribute.name)).toEqual(['cpf']);
+  });
+
+  it('should report lexical errors and unexpected end of input', () => {
+    const result = parseModel('module Sales {\n    entity Customer # {\n        name: "open\n');
+
+    expect(result.errors.map(error => [error.line, error.column, error.message])).toEqual([
+      [2, 21, "Unexpected character '#'"],
+      [3, 15, 'Unterminated string'],
+      [4, 1, 'Expected a type but found end of input']
+    ]);
+  });
+
+  it('should keep unresolved names for validation', () => {
+    const built = parsed('module Sales {\n    entity Order extends Missing {}\n}\n');
+    const order = (built.abstractElements[0] as Module).elements[0] as LocalEntity;
+
+    expect(order.superType).toEqual({ ref: undefined, $refText: 'Missing', error: "Unresolved name 'Missing'" });
+    expect(validateModel(built).map(diagnostic => diagnostic.code)).toEqual(['unresolved-reference']);
+    expect(printModel(built)).toBe('module Sales {\n    entity Order extends Missing {}\n}\n');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { printModel } from '../../src/dsl/printer';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function printed(): Model {
+  return shop({
+    config: { description: 'Loja virtual', language: 'java', database_name: 'postgres', entity: 'Sales.Customer' },
+    customer: entity => entity
+      .attr('notes', 'string', { blank: true, min: 0, max: 500, comment: 'Observações', fullName: 'Notas' })
+      .manyToOne('account', 'Auth.User', { fullName: 'Conta' }),
+    order: entity => entity
+      .manyToMany('products', 'Catalog.Product', { by: 'Item' })
+      .function('close', 'boolean', { reason: 'string', force: 'boolean' }, 'Fecha o pedido'),
+    sales: sales => sales
+      .entity('Item').end()
+      .module('Catalog', 'Catálogo\nProdutos').enum('Kind', ['A', 'B'], 'Tipo do produto').entity('Product'),
+    model: builder => builder
+      .module('Billing').entity('Order').end().end()
+      .useCases('shop', 'Compras')
+        .actor('Client')
+        .actor('Admin', 'Client', 'Administrador')
+        .useCase('buy', 'Comprar', { actors: ['Client', 'Admin'], description: 'Fluxo de compra' })
+          .event('ship', { depends: ['pay'], action: 'enviar' })
+          .event('pay', { name_fragment: 'Pagar' })
+        .end()
+      .end()
+  });
+}
+
+describe('printModel', () => {
+  it('should print a whole model as formatted DSL source', () => {
+    expect(printModel(printed())).toBe([
+      'Configuration {',
+      '    name: "Shop"',
+      '    description: "Loja virtual"',
+      '    language: java',
+      '    database_name: "postgres"',
+      '    entity: Sales.Customer',
+      '}',
+      '',
+      'enum Status {',
+      '    OPEN',
+      '    CLOSED',
+      '}',
+      '',
+      'import Auth from "auth-lib" package "com.example.auth" {',
+      '    User',
+      '}',
+      '',
+      '// Vendas',
+      'module Sales {',
+      '    abstract entity Base {',
+      '        createdAt: datetime',
+      '    }',
+      '',
+      '    // Cliente',
+      '    entity Customer extends Base {',
+      '        cpf: cpf unique',
+      '        // Observações',
+      '        notes: string blank min 0 max 500 fullName "Notas"',
+      '        orders: OneToMany Order',
+      '        account: ManyToOne User fullName "Conta"',
+      '    }',
+      '',
+      '    entity Order {',
+      '        status: enum Status',
+      '        customer: ManyToOne Customer',
+      '        products: ManyToMany Catalog.Product by Item',
+      '        // Fecha o pedido',
+      '        function close(reason: string, force: boolean): boolean',
+      '    }',
+      '',
+      '    entity Tag {',
+      '        label: string',
+      '    }',
+      '',
+      '    entity Item {}',
+      '',
+      '    // Catálogo',
+      '    // Produtos',
+      '    module Catalog {',
+      '        // Tipo do produto',
+      '        enum Kind {',
+      '            A',
+      '            B',
+      '        }',
+      '',
+      '        entity Product {}',
+      '    }',
+      '}',
+      '',
+      'module Billing {',
+      '    entity Order {}',
+      '}',
+      '',
+      '// Compras',
+      'usecases shop {',
+      '    actor Client',
+      '    actor Admin extends Client fullName "Administrador"',
+      '',
+      '    usecase buy "Comprar" {',
+      '        actors: Client, Admin',
+      '        description: "Fluxo de compra"',
+      '        event ship {',
+      '            action: "enviar"',
+      '            depends: pay',
+      '        }',
+      '        event pay {',
+      '            name: "Pagar"',
+      '        }',
+      '    }',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should qualify references that would otherwise resolve elsewhere', () => {
+    const built = model()
+      .module('Sales').entity('Order').end().end()
+      .module('Billing')
+        .entity('Order').end()
+        .entity('Invoice').oneToOne('sale', 'Sales.Order').oneToOne('local', 'Order').end()
+      .end()
+      .build();
+
+    const source = printModel(built);
+
+    expect(source).toContain('sale: OneToOne Sales.Order\n');
+    expect(source).toContain('local: OneToOne Order\n');
+  });
+
+  it('should keep the text of unresolved references', () => {
+    const built = model().module('Sales').entity('Order').end().end().build();
+    const order = (built.abstractElements[0] as any).elements[0];
+    order.superType = { ref: undefined, $refText: 'Missing.Base' };
+
+    expect(printModel(built)).toContain('entity Order extends Missing.Base {}');
+  });
+
+  it('should write parameter comments inline', () => {
+    const built = model().module('Sales').entity('Order').function('close', 'void', { reason: 'string' }).end().end().build();
+    const order = (built.abstractElements[0] as any).elements[0];
+    order.functions[0].paramters[0].element[0].comment = 'Motivo';
+
+    expect(printModel(built)).toContain('function close(/* Motivo */ reason: string): void');
+  });
+
+  it('should honour a custom indent and print an empty model as empty text', () => {
+    const built = model().module('Sales').entity('Order').attr('total', 'currency').end().end().build();
+
+    expect(printModel(built, { indent: '  ' })).toBe('module Sales {\n  entity Order {\n    total: currency\n  }\n}\n');
+    expect(printModel(model().build())).toBe('');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import {
+  getSuperTypes,
+  isSubTypeOf,
+  getInheritanceRoot,
+  getEffectiveAttributes,
+  getEffectiveAttributeMembers,
+  getEffectiveRelations,
+  getEffectiveEnumAttributes,
+  getEffectiveFunctions,
+  getEffectiveEvents,
+  getEffectiveEventMembers,
+  getEffectiveActors
+} from '../../src/inheritance/effective-members';
+import { parseModel } from '../../src/dsl/parser';
+import type { Model, Module, UseCasesModel, UseCase } from '../../src/models/model';
+import type { LocalEntity } from '../../src/models/entity';
+import type { Actor } from '../../src/models/actor';
+
+function hierarchy(): Model {
+  return model()
+    .enum('Status', ['ON', 'OFF'])
+    .module('Core')
+      .entity('Base', { is_abstract: true })
+        .attr('id', 'uuid')
+        .attr('label', 'string')
+        .function('touch', 'void')
+      .end()
+      .entity('Person', { superType: 'Base' })
+        .attr('name', 'string')
+        .attr('label', 'string', { blank: true })
+        .enumAttr('status', 'Status')
+        .manyToOne('parent', 'Person')
+      .end()
+      .entity('Employee', { superType: 'Person' })
+        .attr('salary', 'currency')
+        .oneToMany('reports', 'Employee')
+        .function('touch', 'boolean')
+      .end()
+    .end()
+    .build();
+}
+
+function entities(built: Model): Array<LocalEntity> {
+  return (built.abstractElements[1] as Module).elements as Array<LocalEntity>;
+}
+
+describe('getSuperTypes', () => {
+  it('should list supertypes nearest first', () => {
+    const [base, person, employee] = entities(hierarchy());
+
+    expect(getSuperTypes(employee)).toEqual([person, base]);
+    expect(getSuperTypes(base)).toEqual([]);
+    expect(getInheritanceRoot(employee)).toBe(base);
+    expect(getInheritanceRoot(base)).toBe(base);
+    expect(isSubTypeOf(employee, base)).toBe(true);
+    expect(isSubTypeOf(base, employee)).toBe(false);
+  });
+
+  it('should stop on cycles', () => {
+    const built = model().module('M').entity('A', { superType: 'B' }).end().entity('B', { superType: 'A' }).end().end().build();
+    const [a, b] = (built.abstractElements[0] as Module).elements as Array<LocalEntity>;
+
+    expect(getSuperTypes(a)).toEqual([b]);
+  });
+
+  it('should stop at imported entities', () => {
+    const built = model()
+      .moduleImport('auth', 'leds-auth', 'br.leds.auth', ['User'])
+      .module('M').entity('Admin', { superType: 'auth.User' }).attr('level', 'integer').end().end()
+      .build();
+    const admin = (built.abstractElements[1] as Module).elements[0] as LocalEntity;
+
+    expect(getSuperTypes(admin).map(entity => entity.$type)).toEqual(['ImportedEntity']);
+    expect(getEffectiveAttributes(admin).map(attribute => attribute.name)).toEqual(['level']);
+  });
+});
+
+describe('Effective entity members', () => {
+  it('should merge attributes from the abstract root down', () => {
+    const [, person, employee] = entities(hierarchy());
+
+    expect(getEffectiveAttributes(employee).map(attribute => attribute.name)).toEqual(['id', 'label', 'name', 'salary']);
+    expect(getEffectiveAttributes(employee)[1]).toBe(person.attributes[1]);
+  });
+
+  it('should report shadowed members and their owners', () => {
+    const [base, person, employee] = entities(hierarchy());
+
+    const { members, shadowed } = getEffectiveAttributeMembers(employee);
+
+    expect(members.map(effective => [effective.member.name, effective.owner.name, effective.inherited])).toEqual([
+      ['id', 'Base', true],
+      ['label', 'Person', true],
+      ['name', 'Person', true],
+      ['salary', 'Employee', false]
+    ]);
+    expect(shadowed).toEqual([{ member: base.attributes[1], owner: base, shadowedBy: person.attributes[1] }]);
+  });
+
+  it('should merge relations, enum attributes and functions', () => {
+    const [base, person, employee] = entities(hierarchy());
+
+    expect(getEffectiveRelations(employee).map(relation => relation.name)).toEqual(['parent', 'reports']);
+    expect(getEffectiveEnumAttributes(employee)).toEqual([person.enumentityatributes[0]]);
+    expect(getEffectiveFunctions(employee)).toEqual([employee.functions[0]]);
+    expect(getEffectiveFunctions(person)).toEqual([base.functions[0]]);
+  });
+});
+
+describe('Effective use case members', () => {
+  it('should merge events and actors along the use case chain', () => {
+    const built = model()
+      .useCases('uc')
+        .actor('User')
+        .actor('Admin', 'User')
+        .useCase('base', 'Base', { actors: ['User'] })
+          .event('open')
+          .event('close')
+        .useCase('special', 'Special', { actors: ['Admin', 'User'], superType: 'base' })
+          .event('close', { action: 'override' })
+          .event('audit')
+        .end()
+      .end()
+      .build();
+    const [user, admin, base, special] = (built.abstractElements[0] as UseCasesModel).elements as Array<any>;
+
+    expect(getEffectiveEvents(special).map(event => `${event.id}:${event.$container.id}`)).toEqual(['open:base', 'close:special', 'audit:special']);
+    expect(getEffectiveEventMembers(special).shadowed[0].member).toBe((base as UseCase).events[1]);
+    expect(getEffectiveActors(special)).toEqual([user, admin]);
+    expect(getSuperTypes(admin as Actor)).toEqual([user]);
+    expect(getSuperTypes(special as UseCase)).toEqual([base]);
+  });
+
+  it('should skip unresolved actors', () => {
+    const { model: parsed } = parseModel('usecases shop {\n    actor Client\n    usecase buy "Comprar" {\n        actors: Client, Missing\n    }\n}\n');
+    const [client, buy] = (parsed.abstractElements[0] as UseCasesModel).elements as unknown as [Actor, UseCase];
+
+    expect(buy.actors).toHaveLength(2);
+    expect(getEffectiveActors(buy)).toEqual([client]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { generateFixtures } from '../../src/generators/fixtures';
+import { isValidCnpj, isValidCpf, validateValue } from '../../src/validation/values';
+import type { TableFixtures } from '../../src/generators/fixtures';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function seeded(): Model {
+  return shop({
+    config: { database_name: 'postgres' },
+    customer: entity => entity
+      .attr('name', 'string', { min: 3, max: 12 })
+      .attr('email', 'email', { unique: true })
+      .attr('phone', 'mobilePhoneNumber', { blank: true })
+      .attr('landline', 'phoneNumber', { blank: true })
+      .attr('zipcode', 'zipcode')
+      .oneToOne('card', 'Card')
+      .manyToOne('referrer', 'Customer'),
+    order: entity => entity
+      .attr('id', 'uuid')
+      .attr('total', 'currency', { min: 10, max: 500 })
+      .attr('placedAt', 'datetime')
+      .manyToOne('account', 'Auth.User')
+      .manyToMany('tags', 'Tag')
+      .manyToMany('products', 'Product', { by: 'OrderItem' }),
+    sales: sales => sales
+      .entity('Card').attr('cnpj', 'cnpj').attr('photo', 'file', { blank: true }).end()
+      .entity('Product').attr('code', 'integer', { unique: true, min: 1, max: 50 }).attr('weight', 'decimal', { min: 0.5, max: 2 }).end()
+      .entity('OrderItem').attr('quantity', 'integer', { min: 1, max: 5 })
+  });
+}
+
+function rowsOf(fixtures: Array<TableFixtures>, table: string): TableFixtures['rows'] {
+  return fixtures.find(fixture => fixture.table.name === table)!.rows;
+}
+
+describe('generateFixtures', () => {
+  it('should be deterministic for a seed', () => {
+    expect(generateFixtures(seeded(), { count: 5, seed: 42 })).toEqual(generateFixtures(seeded(), { count: 5, seed: 42 }));
+    expect(rowsOf(generateFixtures(seeded(), { seed: 1 }), 'customer')).not.toEqual(rowsOf(generateFixtures(seeded(), { seed: 2 }), 'customer'));
+  });
+
+  it('should generate count rows per entity with valid values', () => {
+    const fixtures = generateFixtures(seeded(), { count: 20, seed: 7 });
+
+    for (const { table, rows } of fixtures.filter(fixture => fixture.table.entity)) {
+      expect(rows).toHaveLength(20);
+      for (const row of rows) {
+        for (const column of table.columns) {
+          if (column.member && column.member.$type !== 'ManyToOne' && column.member.$type !== 'OneToOne' && column.member.$type !== 'ManyToMany') {
+            expect(validateValue(column.member, row[column.name]), `${table.name}.${column.name} = ${row[column.name]}`).toEqual([]);
+          }
+        }
+      }
+    }
+    const customers = rowsOf(fixtures, 'customer');
+    expect(customers.every(customer => isValidCpf(customer.cpf as string))).toBe(true);
+    expect(rowsOf(fixtures, 'card').every(card => isValidCnpj(card.cnpj as string))).toBe(true);
+    expect(customers.map(customer => customer.id)).toEqual(Array.from({ length: 20 }, (_, position) => position + 1));
+  });
+
+  it('should keep unique columns distinct', () => {
+    const fixtures = generateFixtures(seeded(), { count: 40, seed: 3 });
+
+    for (const column of ['cpf', 'email', 'card_id']) {
+      const values = rowsOf(fixtures, 'customer').map(customer => customer[column]).filter(value => value !== null);
+      expect(new Set(values).size).toBe(values.length);
+    }
+    const orders = rowsOf(fixtures, 'order').map(order => order.id);
+    expect(new Set(orders).size).toBe(40);
+    expect(new Set(rowsOf(fixtures, 'product').map(product => product.code)).size).toBe(40);
+  });
+
+  it('should fail when a unique column has too few values', () => {
+    expect(() => generateFixtures(seeded(), { count: 60 })).toThrow("Cannot generate 60 unique values for column 'product.code'");
+  });
+
+  it('should fill tables in dependency order with existing keys', () => {
+    const fixtures = generateFixtures(seeded(), { count: 8, seed: 11 });
+    const names = fixtures.map(fixture => fixture.table.name);
+
+    expect(names.indexOf('card')).toBeLessThan(names.indexOf('customer'));
+    expect(names.indexOf('customer')).toBeLessThan(names.indexOf('order'));
+    expect(names.indexOf('order')).toBeLessThan(names.indexOf('order_item'));
+    expect(names.indexOf('product')).toBeLessThan(names.indexOf('order_item'));
+    expect(names.indexOf('order')).toBeLessThan(names.indexOf('order_tags'));
+
+    const keys = (table: string) => rowsOf(fixtures, table).map(row => row.id);
+    const orders = rowsOf(fixtures, 'order');
+    expect(orders.every(order => keys('customer').includes(order.customer_id))).toBe(true);
+    expect(orders.every(order => order.account_id === null)).toBe(true);
+    for (const item of rowsOf(fixtures, 'order_item')) {
+      expect(keys('order')).toContain(item.order_id);
+      expect(keys('product')).toContain(item.product_id);
+    }
+    const links = rowsOf(fixtures, 'order_tags');
+    expect(links.length).toBeGreaterThanOrEqual(8);
+    expect(new Set(links.map(link => `${link.order_id}/${link.tag_id}`)).size).toBe(links.length);
+    expect(links.every(link => keys('tag').includes(link.tag_id))).toBe(true);
+  });
+
+  it('should point self references at earlier rows', () => {
+    const customers = rowsOf(generateFixtures(seeded(), { count: 6, seed: 5 }), 'customer');
+
+    expect(customers[0].referrer_id).toBeNull();
+    customers.slice(1).forEach(customer => expect(customer.referrer_id as number).toBeLessThan(customer.id as number));
+  });
+
+  it('should reject an invalid count', () => {
+    expect(() => generateFixtures(seeded(), { count: -1 })).toThrow('Fixture count must be a non-negative integer, got -1');
+  });
+});
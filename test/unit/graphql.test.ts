@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { generateGraphQL } from '../../src/generators/graphql';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function queried(): Model {
+  return shop({
+    customer: entity => entity
+      .attr('phone', 'mobilePhoneNumber', { blank: true })
+      .manyToOne('account', 'Auth.User')
+      .function('close', 'void', { reason: 'string' })
+      .function('getBalance', 'currency', { at: 'date' }),
+    order: entity => entity.attr('id', 'uuid').manyToMany('tags', 'Tag'),
+    sales: sales => sales.entity('Coupon')
+  });
+}
+
+describe('generateGraphQL', () => {
+  it('should emit only the custom scalars in use', () => {
+    const schema = generateGraphQL(model().module('Sales').entity('Tag').attr('label', 'string').end().end().build());
+
+    expect(schema).toBe([
+      'type Tag {',
+      '  id: ID!',
+      '  label: String!',
+      '}',
+      '',
+      'input TagInput {',
+      '  label: String!',
+      '}',
+      '',
+      'type Query {',
+      '  tag(id: ID!): Tag',
+      '  tags: [Tag!]!',
+      '}',
+      '',
+      'type Mutation {',
+      '  createTag(input: TagInput!): Tag!',
+      '  updateTag(id: ID!, input: TagInput!): Tag',
+      '  deleteTag(id: ID!): Boolean!',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should map entities to object types with relations as fields', () => {
+    const schema = generateGraphQL(queried());
+
+    expect(schema).toContain('"CPF with 11 digits and no punctuation."\nscalar CPF');
+    expect(schema).toContain('scalar Currency');
+    expect(schema).toContain('scalar Date\n');
+    expect(schema).not.toContain('scalar UUID');
+    expect(schema).toContain('enum Status {\n  OPEN\n  CLOSED\n}');
+    expect(schema).toContain('interface Base {\n  id: ID!\n  createdAt: DateTime!\n}');
+    expect(schema).toContain([
+      '"Cliente"',
+      'type Customer implements Base {',
+      '  id: ID!',
+      '  createdAt: DateTime!',
+      '  cpf: CPF!',
+      '  phone: String',
+      '  orders: [Order!]!',
+      '  account: User',
+      '}'
+    ].join('\n'));
+    expect(schema).toContain('type Order {\n  id: ID!\n  status: Status\n  customer: Customer\n  tags: [Tag!]!\n}');
+  });
+
+  it('should reference imported entities as federation stubs', () => {
+    const schema = generateGraphQL(queried());
+
+    expect(schema.startsWith('extend schema @link(url: "https://specs.apollo.dev/federation/v2.3", import: ["@key"])\n')).toBe(true);
+    expect(schema).toContain('"`User` from `auth-lib` (com.example.auth)."\ntype User @key(fields: "id", resolvable: false) {\n  id: ID!\n}');
+  });
+
+  it('should set relations by key in input types', () => {
+    const schema = generateGraphQL(queried());
+
+    expect(schema).toContain('input CustomerInput {\n  createdAt: DateTime!\n  cpf: CPF!\n  phone: String\n  ordersIds: [ID!]\n  accountId: ID\n}');
+    expect(schema).toContain('input OrderInput {\n  status: Status\n  customerId: ID\n  tagsIds: [ID!]\n}');
+    expect(schema).not.toContain('input CouponInput');
+    expect(schema).not.toContain('input BaseInput');
+    expect(schema).toContain('  createCoupon: Coupon!\n  deleteCoupon(id: ID!): Boolean!');
+  });
+
+  it('should split functions into queries and mutations', () => {
+    const schema = generateGraphQL(queried());
+
+    expect(schema).toContain('  customerGetBalance(id: ID!, at: Date!): Currency\n');
+    expect(schema.indexOf('customerGetBalance')).toBeLessThan(schema.indexOf('type Mutation'));
+    expect(schema).toContain('  customerClose(id: ID!, reason: String!): Boolean\n');
+    expect(schema.indexOf('customerClose')).toBeGreaterThan(schema.indexOf('type Mutation'));
+  });
+
+  it('should qualify the names of same-named entities and enums', () => {
+    const schema = generateGraphQL(model()
+      .module('Crm')
+        .enum('Status', ['ACTIVE'])
+        .entity('Customer').attr('name', 'string').enumAttr('status', 'Crm.Status').end()
+      .end()
+      .module('Sales')
+        .enum('Status', ['OPEN'])
+        .entity('Customer').manyToOne('contact', 'Crm.Customer').end()
+        .entity('Order').enumAttr('status', 'Sales.Status').manyToOne('customer', 'Sales.Customer').end()
+      .end()
+      .build());
+
+    expect(schema).toContain('enum CrmStatus {\n  ACTIVE\n}');
+    expect(schema).toContain('type CrmCustomer {\n  id: ID!\n  name: String!\n  status: CrmStatus\n}');
+    expect(schema).toContain('type SalesCustomer {\n  id: ID!\n  contact: CrmCustomer\n}');
+    expect(schema).toContain('type Order {\n  id: ID!\n  status: SalesStatus\n  customer: SalesCustomer\n}');
+    expect(schema).toContain('input CrmCustomerInput {');
+    expect(schema).toContain('input SalesCustomerInput {');
+    expect(schema).toContain('  crmCustomer(id: ID!): CrmCustomer\n  crmCustomers: [CrmCustomer!]!\n  salesCustomer(id: ID!): SalesCustomer\n');
+    expect(schema).toContain('  createSalesCustomer(input: SalesCustomerInput!): SalesCustomer!\n');
+    expect(schema).not.toMatch(/\bCustomer\b/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { getAttributeSchema, toJsonSchema } from '../../src/generators/json-schema';
+import type { LocalEntity, Model, Module } from '../../src/models/model';
+import type { Attribute } from '../../src/models/atribute';
+import { shop } from '../fixtures/shop';
+
+function described(): Model {
+  return shop({
+    customer: entity => entity
+      .attr('name', 'string', { min: 2, max: 80, fullName: 'Nome' })
+      .attr('phone', 'mobilePhoneNumber', { blank: true }),
+    order: entity => entity.attr('total', 'currency', { min: 0 })
+  });
+}
+
+function entity(built: Model, name: string): LocalEntity {
+  return (built.abstractElements[2] as Module).elements.find(element => element.name === name) as LocalEntity;
+}
+
+describe('toJsonSchema', () => {
+  it('should define an entity with its supertype, relation targets and enums', () => {
+    const schema = toJsonSchema(entity(described(), 'Customer'));
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.$ref).toBe('#/$defs/Sales.Customer');
+    expect(Object.keys(schema.$defs!)).toEqual(['Sales.Customer', 'Sales.Order', 'Sales.Base', 'Status']);
+    expect(schema.$defs!['Sales.Customer']).toEqual({
+      title: 'Customer',
+      description: 'Cliente',
+      allOf: [
+        { $ref: '#/$defs/Sales.Base' },
+        {
+          type: 'object',
+          properties: {
+            cpf: { type: 'string', pattern: '^[0-9]{11}$' },
+            name: { title: 'Nome', type: 'string', minLength: 2, maxLength: 80 },
+            phone: { type: 'string', pattern: '^(\\+55)?[1-9]{2}9[0-9]{8}$' },
+            orders: { type: 'array', items: { $ref: '#/$defs/Sales.Order' } }
+          },
+          required: ['cpf', 'name']
+        }
+      ]
+    });
+    expect(schema.$defs!['Sales.Order'].properties).toEqual({
+      total: { type: 'number', multipleOf: 0.01, minimum: 0 },
+      status: { $ref: '#/$defs/Status' },
+      customer: { $ref: '#/$defs/Sales.Customer' }
+    });
+    expect(schema.$defs!['Status']).toEqual({ title: 'Status', type: 'string', enum: ['OPEN', 'CLOSED'] });
+  });
+
+  it('should define every entity of a module', () => {
+    const built = described();
+    const schema = toJsonSchema(built.abstractElements[2] as Module);
+
+    expect(schema.title).toBe('Sales');
+    expect(schema.description).toBe('Vendas');
+    expect(schema.$ref).toBeUndefined();
+    expect(Object.keys(schema.$defs!)).toEqual(['Sales.Base', 'Sales.Customer', 'Sales.Order', 'Sales.Tag', 'Status']);
+  });
+
+  it('should map data types to formats and bounds', () => {
+    const attribute = (type: Attribute['type'], options: Partial<Attribute> = {}) =>
+      getAttributeSchema({ $type: 'Attribute', name: 'value', type, blank: false, unique: false, ...options } as Attribute);
+
+    expect(attribute('email', { max: 120 })).toEqual({ type: 'string', format: 'email', maxLength: 120 });
+    expect(attribute('uuid')).toEqual({ type: 'string', format: 'uuid' });
+    expect(attribute('date', { min: 1 })).toEqual({ type: 'string', format: 'date' });
+    expect(attribute('integer', { min: 1, max: 10 })).toEqual({ type: 'integer', minimum: 1, maximum: 10 });
+    expect(attribute('cnpj')).toEqual({ type: 'string', pattern: '^[0-9]{14}$' });
+    expect(attribute('zipcode')).toEqual({ type: 'string', pattern: '^[0-9]{8}$' });
+    expect(() => attribute('void')).toThrow();
+  });
+});
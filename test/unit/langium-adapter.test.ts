@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { fromLangium, type LangiumAstNode } from '../../src/langium/adapter';
+import { getSourceLocation } from '../../src/models/source-location';
+import { validateModel } from '../../src/validation/validator';
+import { getRef, type Model, type Module } from '../../src/models/model';
+import type { LocalEntity } from '../../src/models/entity';
+
+function range(line: number) {
+  return { range: { start: { line, character: 4 }, end: { line, character: 20 } } };
+}
+
+/** Builds a tree shaped like Langium output: $cstNode, $document, $containerProperty and lazy references. */
+function langiumModel(): LangiumAstNode {
+  const root: any = { $type: 'Model', abstractElements: [], $cstNode: range(0), $document: { uri: { toString: () => 'file:///shop.spark' } } };
+  const sales: any = { $type: 'Module', name: 'Sales', elements: [], $container: root, $containerProperty: 'abstractElements', $containerIndex: 0, $cstNode: range(1) };
+  const customer: any = {
+    $type: 'LocalEntity', name: 'Customer', is_abstract: false, attributes: [], enumentityatributes: [], functions: [], relations: [],
+    $container: sales, $containerProperty: 'elements', $containerIndex: 0, $cstNode: range(2)
+  };
+  const order: any = {
+    $type: 'LocalEntity', name: 'Order', is_abstract: false, attributes: [], enumentityatributes: [], functions: [], relations: [],
+    $container: sales, $containerProperty: 'elements', $containerIndex: 1, $cstNode: range(5)
+  };
+  order.attributes.push({ $type: 'Attribute', name: 'total', type: 'currency', blank: false, unique: false, $container: order, $cstNode: range(6) });
+  let resolved = 0;
+  order.relations.push({
+    $type: 'ManyToOne', name: 'customer', $container: order, $cstNode: range(7),
+    type: { $refText: 'Customer', get ref() { resolved++; return customer; } }
+  });
+  order.relations.push({
+    $type: 'OneToMany', name: 'items', $container: order, $cstNode: range(8),
+    type: { $refText: 'Item', ref: undefined, error: { message: "Could not resolve reference to Entity named 'Item'." } }
+  });
+  order.superType = { $refText: 'Customer', get ref() { return customer; } };
+  sales.elements.push(customer, order);
+  root.abstractElements.push(sales);
+  root.resolvedCount = () => resolved;
+  return root;
+}
+
+describe('fromLangium', () => {
+  it('should drop Langium-only properties and rebuild containers', () => {
+    const result = fromLangium<Model>(langiumModel());
+    const sales = result.abstractElements[0] as Module;
+    const order = sales.elements[1] as LocalEntity;
+
+    expect(sales).not.toHaveProperty('$cstNode');
+    expect(sales).not.toHaveProperty('$containerProperty');
+    expect(result).not.toHaveProperty('$document');
+    expect(sales.$container).toBe(result);
+    expect(order.$container).toBe(sales);
+    expect(order.attributes[0]).toEqual({ $type: 'Attribute', name: 'total', type: 'currency', blank: false, unique: false, $container: order });
+  });
+
+  it('should turn resolved Langium references into library references', () => {
+    const source = langiumModel();
+    const result = fromLangium<Model>(source);
+    const [customer, order] = (result.abstractElements[0] as Module).elements as Array<LocalEntity>;
+
+    expect(getRef(order.relations[0].type)).toBe(customer);
+    expect(getRef(order.superType!)).toBe(customer);
+    expect((source as any).resolvedCount()).toBe(1);
+  });
+
+  it('should keep the text of unresolved references', () => {
+    const result = fromLangium<Model>(langiumModel());
+    const order = (result.abstractElements[0] as Module).elements[1] as LocalEntity;
+
+    expect(order.relations[1].type).toEqual({ ref: undefined, $refText: 'Item', error: "Could not resolve reference to Entity named 'Item'." });
+  });
+
+  it('should keep source positions for diagnostics', () => {
+    const result = fromLangium<Model>(langiumModel());
+    const order = (result.abstractElements[0] as Module).elements[1] as LocalEntity;
+
+    expect(getSourceLocation(order)).toEqual({ uri: 'file:///shop.spark', ...range(5) });
+    const [diagnostic] = validateModel(result);
+    expect(diagnostic.code).toBe('unresolved-reference');
+    expect(diagnostic.location).toEqual({ uri: 'file:///shop.spark', ...range(8) });
+  });
+
+  it('should convert a subtree and pull in referenced nodes outside it', () => {
+    const source = langiumModel();
+    const sourceOrder = (source as any).abstractElements[0].elements[1];
+
+    const order = fromLangium<LocalEntity>(sourceOrder);
+
+    expect(order.name).toBe('Order');
+    expect(order.$container).toBeDefined();
+    expect(getRef(order.relations[0].type).name).toBe('Customer');
+    expect(getRef(order.relations[0].type).$container).toBe(order.$container);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { createMigration, generateMigration } from '../../src/generators/migration';
+import { parseModel } from '../../src/dsl/parser';
+import type { Model } from '../../src/models/model';
+
+function parse(text: string): Model {
+  const { model, errors } = parseModel(text);
+  expect(errors).toEqual([]);
+  return model;
+}
+
+const base = `
+enum Status {
+    OPEN
+    CLOSED
+}
+
+module Sales {
+    entity Customer {
+        name: string max 80
+        cpf: cpf unique
+        notes: string blank
+        orders: OneToMany Order
+    }
+
+    entity Order {
+        total: currency
+        status: enum Status
+    }
+}
+`;
+
+function sql(next: string, dialect: 'postgresql' | 'mysql' | 'sqlserver' | 'sqlite' = 'postgresql'): Array<string> {
+  return createMigration(parse(base), parse(next), { dialect }).map(step => step.sql);
+}
+
+describe('createMigration', () => {
+  it('should produce no steps for identical models', () => {
+    expect(createMigration(parse(base), parse(base))).toEqual([]);
+    expect(generateMigration(parse(base), parse(base))).toBe('');
+  });
+
+  it('should rename tables and columns, including implicit foreign keys', () => {
+    const next = base.replace(/Customer/g, 'Client').replace('total: currency', 'amount: currency');
+
+    expect(sql(next)).toEqual([
+      'ALTER TABLE "customer" RENAME TO "client";',
+      'ALTER TABLE "order" RENAME COLUMN "total" TO "amount";',
+      'ALTER TABLE "order" RENAME COLUMN "customer_id" TO "client_id";'
+    ]);
+  });
+
+  it('should add and drop columns and flag the drops as destructive', () => {
+    const next = base
+      .replace('        notes: string blank\n', '')
+      .replace('total: currency', 'total: currency\n        code: uuid unique\n        paidAt: datetime blank');
+
+    const steps = createMigration(parse(base), parse(next), { dialect: 'postgresql' });
+
+    expect(steps.map(step => [step.sql, step.destructive])).toEqual([
+      ['ALTER TABLE "customer" DROP COLUMN "notes";', true],
+      ['ALTER TABLE "order" ADD COLUMN "code" UUID NOT NULL;\nCREATE UNIQUE INDEX "ux_order_code" ON "order" ("code");', false],
+      ['ALTER TABLE "order" ADD COLUMN "paid_at" TIMESTAMP;', false]
+    ]);
+    expect(steps[1].description).toBe('Add column "order"."code" (existing rows need a value)');
+  });
+
+  it('should create join tables and foreign keys for new relations', () => {
+    const next = base.replace('status: enum Status', 'status: enum Status\n        tags: ManyToMany Catalog.Tag') + `
+module Catalog {
+    entity Tag {
+        label: string
+    }
+}
+`;
+
+    expect(sql(next)).toEqual([
+      'CREATE TABLE "tag" (\n    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,\n    "label" VARCHAR(255) NOT NULL,\n    PRIMARY KEY ("id")\n);',
+      'CREATE TABLE "order_tags" (\n    "order_id" BIGINT NOT NULL,\n    "tag_id" BIGINT NOT NULL,\n    PRIMARY KEY ("order_id", "tag_id")\n);',
+      'ALTER TABLE "order_tags" ADD CONSTRAINT "fk_order_tags_order_id" FOREIGN KEY ("order_id") REFERENCES "order" ("id");',
+      'ALTER TABLE "order_tags" ADD CONSTRAINT "fk_order_tags_tag_id" FOREIGN KEY ("tag_id") REFERENCES "tag" ("id");'
+    ]);
+  });
+
+  it('should alter types, nullability and unique indexes', () => {
+    const next = base
+      .replace('name: string max 80', 'name: string blank max 120')
+      .replace('cpf: cpf unique', 'cpf: cpf')
+      .replace('total: currency', 'total: integer unique');
+
+    const steps = createMigration(parse(base), parse(next), { dialect: 'postgresql' });
+
+    expect(steps.map(step => [step.sql, step.destructive])).toEqual([
+      ['ALTER TABLE "customer" ALTER COLUMN "name" TYPE VARCHAR(120), ALTER COLUMN "name" DROP NOT NULL;', false],
+      ['ALTER TABLE "customer" DROP CONSTRAINT "customer_cpf_key";', false],
+      ['ALTER TABLE "order" ALTER COLUMN "total" TYPE INTEGER;', true],
+      ['CREATE UNIQUE INDEX "ux_order_total" ON "order" ("total");', false]
+    ]);
+  });
+
+  it('should update renamed enum values and flag removed ones', () => {
+    const renamed = createMigration(parse(base), parse(base.replace('CLOSED', 'DONE')), { dialect: 'postgresql' });
+
+    expect(renamed.map(step => step.sql)).toEqual([
+      'ALTER TABLE "order" DROP CONSTRAINT "order_status_check";',
+      'UPDATE "order" SET "status" = \'DONE\' WHERE "status" = \'CLOSED\';',
+      'ALTER TABLE "order" ALTER COLUMN "status" TYPE VARCHAR(4);',
+      'ALTER TABLE "order" ADD CONSTRAINT "order_status_check" CHECK ("status" IN (\'OPEN\', \'DONE\'));'
+    ]);
+    expect(renamed.some(step => step.destructive)).toBe(true);
+
+    const removed = createMigration(parse(base), parse(base.replace('    CLOSED\n', '')), { dialect: 'postgresql', detectRenames: false });
+
+    expect(removed.at(-1)).toMatchObject({
+      description: 'Add check constraint on "order"."status" (removes \'CLOSED\')',
+      destructive: true
+    });
+  });
+
+  it('should write renamed values before narrowing the column and after widening it', () => {
+    const enums = (values: string) => base.replace('    OPEN\n    CLOSED\n', values);
+    const before = parse(enums('    OPEN\n    CLOSED\n    ARCHIVED\n'));
+
+    expect(createMigration(before, parse(enums('    OPEN\n    CLOSED\n    OLD\n')), { dialect: 'postgresql' }).map(step => step.sql)).toEqual([
+      'ALTER TABLE "order" DROP CONSTRAINT "order_status_check";',
+      'UPDATE "order" SET "status" = \'OLD\' WHERE "status" = \'ARCHIVED\';',
+      'ALTER TABLE "order" ALTER COLUMN "status" TYPE VARCHAR(6);',
+      'ALTER TABLE "order" ADD CONSTRAINT "order_status_check" CHECK ("status" IN (\'OPEN\', \'CLOSED\', \'OLD\'));'
+    ]);
+    expect(createMigration(parse(base), parse(enums('    OPEN\n    CANCELLED\n')), { dialect: 'postgresql' }).map(step => step.sql)).toEqual([
+      'ALTER TABLE "order" DROP CONSTRAINT "order_status_check";',
+      'ALTER TABLE "order" ALTER COLUMN "status" TYPE VARCHAR(9);',
+      'UPDATE "order" SET "status" = \'CANCELLED\' WHERE "status" = \'CLOSED\';',
+      'ALTER TABLE "order" ADD CONSTRAINT "order_status_check" CHECK ("status" IN (\'OPEN\', \'CANCELLED\'));'
+    ]);
+  });
+
+  it('should drop check constraints by their name before a table rename', () => {
+    const next = base.replace(/\bOrder\b/g, 'Purchase').replace('CLOSED', 'DONE');
+
+    expect(sql(next)).toEqual([
+      'ALTER TABLE "order" RENAME TO "purchase";',
+      'ALTER TABLE "purchase" DROP CONSTRAINT "order_status_check";',
+      'UPDATE "purchase" SET "status" = \'DONE\' WHERE "status" = \'CLOSED\';',
+      'ALTER TABLE "purchase" ALTER COLUMN "status" TYPE VARCHAR(4);',
+      'ALTER TABLE "purchase" ADD CONSTRAINT "purchase_status_check" CHECK ("status" IN (\'OPEN\', \'DONE\'));'
+    ]);
+  });
+
+  it('should use each dialect\'s syntax', () => {
+    const next = base.replace(/Customer/g, 'Client').replace('cpf: cpf unique', 'cpf: cpf').replace('name: string max 80', 'name: string max 120');
+
+    expect(sql(next, 'mysql')).toEqual([
+      'RENAME TABLE `customer` TO `client`;',
+      'ALTER TABLE `order` RENAME COLUMN `customer_id` TO `client_id`;',
+      'ALTER TABLE `client` MODIFY COLUMN `name` VARCHAR(120) NOT NULL;',
+      'ALTER TABLE `client` DROP INDEX `cpf`;'
+    ]);
+    expect(sql(next, 'sqlserver')).toEqual([
+      "EXEC sp_rename 'customer', 'client';",
+      "EXEC sp_rename 'order.customer_id', 'client_id', 'COLUMN';",
+      'ALTER TABLE [client] ALTER COLUMN [name] NVARCHAR(120) NOT NULL;',
+      '-- Drop the UNIQUE constraint; its name is generated by the database.'
+    ]);
+  });
+
+  it('should mark steps SQLite cannot express as manual', () => {
+    const next = base.replace('cpf: cpf unique', 'cpf: cpf').replace('total: currency', 'total: currency\n        owner: ManyToOne Customer');
+
+    const steps = createMigration(parse(base), parse(next), { dialect: 'sqlite' });
+
+    expect(steps.map(step => [step.sql, step.manual])).toEqual([
+      ['-- SQLite cannot drop inline UNIQUE constraints; rebuild table "customer".', true],
+      ['-- SQLite cannot drop foreign keys; rebuild table "order".', true],
+      ['ALTER TABLE "order" ADD COLUMN "owner_id" INTEGER REFERENCES "customer" ("id");', false],
+      ['ALTER TABLE "order" DROP COLUMN "customer_id";', false]
+    ]);
+  });
+});
+
+describe('generateMigration', () => {
+  it('should write each step under a comment and mark destructive ones', () => {
+    const next = base.replace('        notes: string blank\n', '').replace('cpf: cpf unique', 'cpf: cpf');
+
+    expect(generateMigration(parse(base), parse(next), { dialect: 'postgresql' })).toBe([
+      '-- Drop unique constraint on "customer"."cpf"',
+      'ALTER TABLE "customer" DROP CONSTRAINT "customer_cpf_key";',
+      '',
+      '-- DESTRUCTIVE: Drop column "customer"."notes"',
+      'ALTER TABLE "customer" DROP COLUMN "notes";',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { getRef, isModule, isEnumX, isUseCasesModel, type Module, type UseCasesModel, type EnumX } from '../../src/models/model';
+import { isLocalEntity, type LocalEntity } from '../../src/models/entity';
+import type { Actor } from '../../src/models/actor';
+
+describe('Model builder', () => {
+  it('should wire $container links on every node', () => {
+    const result = model()
+      .module('Sales')
+        .entity('Order')
+          .attr('total', 'currency', { min: 0 })
+          .function('close', 'boolean', { reason: 'string' })
+        .end()
+      .end()
+      .build();
+
+    const module = result.abstractElements[0] as Module;
+    const order = module.elements[0] as LocalEntity;
+
+    expect(module.$container).toBe(result);
+    expect(order.$container).toBe(module);
+    expect(order.attributes[0].$container).toBe(order);
+    expect(order.attributes[0]).toMatchObject({ name: 'total', type: 'currency', min: 0, blank: false, unique: false });
+    expect(order.functions[0].$container).toBe(order);
+    expect(order.functions[0].paramters[0].$container).toBe(order.functions[0]);
+  });
+
+  it('should resolve relation targets by simple and qualified name', () => {
+    const result = model()
+      .module('Sales')
+        .entity('Customer').end()
+        .entity('Order')
+          .manyToOne('customer', 'Customer')
+          .oneToOne('invoice', 'Billing.Invoice')
+        .end()
+      .end()
+      .module('Billing')
+        .entity('Invoice').end()
+      .end()
+      .build();
+
+    const [sales, billing] = result.abstractElements as Array<Module>;
+    const order = sales.elements[1] as LocalEntity;
+
+    expect(order.relations[0].$container).toBe(order);
+    expect(getRef(order.relations[0].type)).toBe(sales.elements[0]);
+    expect(getRef(order.relations[1].type)).toBe(billing.elements[0]);
+  });
+
+  it('should prefer entities from the same module for simple names', () => {
+    const result = model()
+      .module('A').entity('Item').end().entity('Box').oneToMany('items', 'Item').end().end()
+      .module('B').entity('Item').end().end()
+      .build();
+
+    const a = result.abstractElements[0] as Module;
+    const box = a.elements[1] as LocalEntity;
+    expect(getRef(box.relations[0].type)).toBe(a.elements[0]);
+  });
+
+  it('should resolve nested modules, supertypes and join entities', () => {
+    const result = model()
+      .module('Sales')
+        .module('Orders')
+          .entity('Base', { is_abstract: true }).end()
+          .entity('Order', { superType: 'Base' })
+            .manyToMany('products', 'Product', { by: 'OrderItem' })
+          .end()
+          .entity('OrderItem').end()
+          .entity('Product').end()
+        .end()
+      .end()
+      .build();
+
+    const orders = (result.abstractElements[0] as Module).elements[0] as Module;
+    const [base, order, orderItem, product] = orders.elements as Array<LocalEntity>;
+
+    expect(orders.$container).toBe(result.abstractElements[0]);
+    expect(base.is_abstract).toBe(true);
+    expect(getRef(order.superType!)).toBe(base);
+    expect(getRef(order.relations[0].type)).toBe(product);
+    expect(getRef((order.relations[0] as any).by)).toBe(orderItem);
+  });
+
+  it('should build enums and enum attributes', () => {
+    const result = model()
+      .enum('Status', ['OPEN', 'CLOSED'])
+      .module('Sales')
+        .enum('Priority', ['LOW', 'HIGH'])
+        .entity('Order').enumAttr('status', 'Status').enumAttr('priority', 'Priority').end()
+      .end()
+      .build();
+
+    const status = result.abstractElements[0] as EnumX;
+    const sales = result.abstractElements[1] as Module;
+    const priority = sales.elements[0] as EnumX;
+    const order = sales.elements[1] as LocalEntity;
+
+    expect(isEnumX(status)).toBe(true);
+    expect(status.attributes.map(value => value.name)).toEqual(['OPEN', 'CLOSED']);
+    expect(status.attributes[0].$container).toBe(status);
+    expect(priority.$container).toBe(sales);
+    expect(getRef(order.enumentityatributes[0].type)).toBe(status);
+    expect(getRef(order.enumentityatributes[1].type)).toBe(priority);
+  });
+
+  it('should reference imported entities and configuration entity', () => {
+    const result = model()
+      .config({ name: 'Shop', language: 'java', entity: 'Order' })
+      .moduleImport('auth', 'leds-auth', 'br.leds.auth', ['User'])
+      .module('Sales').entity('Order').manyToOne('owner', 'auth.User').end().end()
+      .build();
+
+    const order = (result.abstractElements[1] as Module).elements[0] as LocalEntity;
+    const user = (result.abstractElements[0] as any).entities[0];
+
+    expect(result.configuration?.$container).toBe(result);
+    expect(result.configuration?.name).toBe('Shop');
+    expect(getRef(result.configuration!.entity!)).toBe(order);
+    expect(user.$container).toBe(result.abstractElements[0]);
+    expect(getRef(order.relations[0].type)).toBe(user);
+  });
+
+  it('should build use cases with actors and ordered events', () => {
+    const result = model()
+      .useCases('shop')
+        .actor('User')
+        .actor('Admin', 'User')
+        .useCase('checkout', 'Checkout', { actors: ['User'] })
+          .event('pay', { action: 'pay' })
+          .event('ship', { depends: ['pay'] })
+        .useCase('refund', 'Refund', { actors: ['Admin'], superType: 'checkout' })
+          .event('return', { depends: ['ship'] })
+        .end()
+      .end()
+      .build();
+
+    const useCases = result.abstractElements[0] as UseCasesModel;
+    const [user, admin, checkout, refund] = useCases.elements as Array<any>;
+
+    expect(isUseCasesModel(useCases)).toBe(true);
+    expect(getRef((admin as Actor).superType!)).toBe(user);
+    expect(checkout.$container).toBe(useCases);
+    expect(getRef(checkout.actors[0])).toBe(user);
+    expect(checkout.events[0].$container).toBe(checkout);
+    expect(getRef(checkout.events[1].depends[0])).toBe(checkout.events[0]);
+    expect(getRef(refund.superType)).toBe(checkout);
+    expect(getRef(refund.events[0].depends[0])).toBe(checkout.events[1]);
+  });
+
+  it('should throw on unresolved and ambiguous names', () => {
+    expect(() => model().module('A').entity('X').manyToOne('y', 'Missing').build()).toThrow("Unresolved entity 'Missing'");
+    expect(() => model()
+      .module('A').entity('Item').end().end()
+      .module('B').entity('Item').end().end()
+      .module('C').entity('Box').oneToOne('item', 'Item').build()
+    ).toThrow(/Ambiguous entity 'Item'/);
+  });
+
+  it('should add references only once they are resolved', () => {
+    const order = model().enum('Status', ['OPEN']).module('Sales').entity('Customer').entity('Order')
+      .manyToOne('customer', 'Customer').enumAttr('status', 'Status');
+    expect(order.node.relations).toEqual([]);
+    expect(order.node.enumentityatributes).toEqual([]);
+
+    order.build();
+    expect(order.node.relations.map(relation => getRef(relation.type).name)).toEqual(['Customer']);
+    expect(order.node.enumentityatributes.map(attribute => getRef(attribute.type).name)).toEqual(['Status']);
+  });
+
+  it('should accept node objects as targets', () => {
+    const builder = model();
+    const customer = builder.module('Sales').entity('Customer');
+    const result = customer.entity('Order').manyToOne('customer', customer.node).build();
+
+    const sales = result.abstractElements[0] as Module;
+    expect(isModule(sales)).toBe(true);
+    expect(isLocalEntity(sales.elements[1])).toBe(true);
+    expect(getRef((sales.elements[1] as LocalEntity).relations[0].type)).toBe(customer.node);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { diffModels, matchModels, type ModelChange } from '../../src/diff/model-diff';
+import { parseModel } from '../../src/dsl/parser';
+import type { Model, Module } from '../../src/models/model';
+
+function parse(text: string): Model {
+  const { model, errors } = parseModel(text);
+  expect(errors).toEqual([]);
+  return model;
+}
+
+function summary(changes: Array<ModelChange>): Array<string> {
+  return changes.map(change => {
+    switch (change.kind) {
+      case 'added':
+      case 'removed':
+        return `${change.kind} ${change.nodeType} ${change.path}`;
+      case 'renamed':
+        return `renamed ${change.nodeType} ${change.oldPath} -> ${change.path}`;
+      case 'changed':
+        return `changed ${change.path}.${change.property}: ${JSON.stringify(change.oldValue)} -> ${JSON.stringify(change.newValue)}`;
+    }
+  });
+}
+
+const base = `
+enum Status {
+    OPEN
+    CLOSED
+}
+
+module Sales {
+    entity Base {}
+
+    entity Customer {
+        name: string max 80
+        cpf: cpf unique
+        orders: OneToMany Order
+    }
+
+    entity Order {
+        total: currency
+        status: enum Status
+        customer: ManyToOne Customer
+    }
+}
+
+usecases shop {
+    actor Client
+
+    usecase buy "Comprar" {
+        actors: Client
+        event pay {}
+        event ship {
+            depends: pay
+        }
+    }
+}
+`;
+
+describe('diffModels', () => {
+  it('should report nothing for identical models', () => {
+    expect(diffModels(parse(base), parse(base))).toEqual([]);
+  });
+
+  it('should report added and removed nodes without listing their contents', () => {
+    const changed = base
+      .replace('    entity Base {}\n\n', '')
+      .replace('        total: currency\n', '        total: currency\n        paidAt: datetime\n')
+      .replace('    CLOSED\n', '    CLOSED\n    CANCELED\n')
+      .replace('usecases shop', 'module Billing {\n    entity Invoice {\n        number: integer\n    }\n}\n\nusecases shop');
+
+    expect(summary(diffModels(parse(base), parse(changed)))).toEqual([
+      'added AttributeEnum Status.CANCELED',
+      'added Attribute Sales.Order.paidAt',
+      'removed LocalEntity Sales.Base',
+      'added Module Billing'
+    ]);
+  });
+
+  it('should report attribute type and constraint changes', () => {
+    const changed = base
+      .replace('name: string max 80', 'name: string blank min 2 max 120')
+      .replace('cpf: cpf unique', 'cpf: string');
+
+    expect(summary(diffModels(parse(base), parse(changed)))).toEqual([
+      'changed Sales.Customer.name.blank: false -> true',
+      'changed Sales.Customer.name.min: undefined -> 2',
+      'changed Sales.Customer.name.max: 80 -> 120',
+      'changed Sales.Customer.cpf.type: "cpf" -> "string"',
+      'changed Sales.Customer.cpf.unique: true -> false'
+    ]);
+  });
+
+  it('should report relation cardinality, target and supertype changes', () => {
+    const changed = base
+      .replace('entity Order {', 'entity Order extends Base {')
+      .replace('customer: ManyToOne Customer', 'customer: OneToOne Base');
+
+    expect(summary(diffModels(parse(base), parse(changed)))).toEqual([
+      'changed Sales.Order.superType: undefined -> "Sales.Base"',
+      'changed Sales.Order.customer.cardinality: "ManyToOne" -> "OneToOne"',
+      'changed Sales.Order.customer.target: "Sales.Customer" -> "Sales.Base"'
+    ]);
+  });
+
+  it('should detect renames and keep references to renamed nodes unchanged', () => {
+    const changed = base
+      .replace(/Customer/g, 'Client')
+      .replace('CLOSED', 'DONE')
+      .replace('total: currency', 'amount: currency');
+
+    const changes = diffModels(parse(base), parse(changed));
+
+    expect(summary(changes)).toEqual([
+      'renamed AttributeEnum Status.CLOSED -> Status.DONE',
+      'renamed LocalEntity Sales.Customer -> Sales.Client',
+      'renamed Attribute Sales.Order.total -> Sales.Order.amount'
+    ]);
+    expect(changes[1]).toMatchObject({ oldNode: { name: 'Customer' }, newNode: { name: 'Client' } });
+  });
+
+  it('should report renames as removals and additions when disabled', () => {
+    const changed = base.replace('total: currency', 'amount: currency');
+
+    expect(summary(diffModels(parse(base), parse(changed), { detectRenames: false }))).toEqual([
+      'added Attribute Sales.Order.amount',
+      'removed Attribute Sales.Order.total'
+    ]);
+  });
+
+  it('should not pair unrelated nodes as renames', () => {
+    const changed = base.replace('total: currency', 'code: uuid unique');
+
+    expect(summary(diffModels(parse(base), parse(changed)))).toEqual([
+      'added Attribute Sales.Order.code',
+      'removed Attribute Sales.Order.total'
+    ]);
+  });
+
+  it('should report use case and event changes', () => {
+    const changed = base
+      .replace('usecase buy "Comprar" {', 'actor Admin\n\n    usecase buy "Comprar agora" {')
+      .replace('actors: Client', 'actors: Client, Admin\n        description: "Fluxo"')
+      .replace('event ship {\n            depends: pay\n        }', 'event ship {\n            action: "enviar"\n        }\n        event notify {}');
+
+    expect(summary(diffModels(parse(base), parse(changed)))).toEqual([
+      'added Actor shop.Admin',
+      'changed shop.buy.name_fragment: "Comprar" -> "Comprar agora"',
+      'changed shop.buy.description: undefined -> "Fluxo"',
+      'changed shop.buy.actors: ["shop.Client"] -> ["shop.Client","shop.Admin"]',
+      'changed shop.buy.ship.action: undefined -> "enviar"',
+      'changed shop.buy.ship.depends: ["shop.buy.pay"] -> []',
+      'added Event shop.buy.notify'
+    ]);
+  });
+
+  it('should expose the node matching, renames included', () => {
+    const oldModel = parse(base);
+    const newModel = parse(base.replace(/Customer/g, 'Client'));
+    const matches = matchModels(oldModel, newModel);
+    const oldSales = oldModel.abstractElements[1] as Module;
+    const newSales = newModel.abstractElements[1] as Module;
+
+    expect(matches.get(oldModel)).toBe(newModel);
+    expect(matches.get(oldSales.elements[1])).toBe(newSales.elements[1]);
+    expect(matches.has(oldSales.elements[0])).toBe(true);
+  });
+});
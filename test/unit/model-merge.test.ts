@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { mergeModels } from '../../src/diff/merge';
+import { parseModel } from '../../src/dsl/parser';
+import { printModel } from '../../src/dsl/printer';
+import type { LocalEntity, Model, Module } from '../../src/models/model';
+
+function parse(text: string): Model {
+  const { model, errors } = parseModel(text);
+  expect(errors).toEqual([]);
+  return model;
+}
+
+function edit(search: string, replace: string): Model {
+  expect(base).toContain(search);
+  return parse(base.replace(search, replace));
+}
+
+const base = `
+module Sales {
+    entity Customer {
+        name: string max 80
+        cpf: cpf unique
+    }
+
+    entity Order {
+        total: currency
+        customer: ManyToOne Customer
+    }
+}
+
+usecases shop {
+    actor Client
+
+    usecase buy "Comprar" {
+        actors: Client
+        event pay {}
+    }
+}
+`;
+
+describe('mergeModels', () => {
+  it('should combine independent changes from both sides', () => {
+    const ours = edit('        total: currency\n', '        total: currency\n        notes: string\n');
+    const theirs = parse(base
+      .replace('name: string max 80', 'name: string max 120')
+      .replace('        event pay {}\n', '        event pay {}\n        event ship {\n            depends: pay\n        }\n'));
+
+    const { model, conflicts } = mergeModels(parse(base), ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    const printed = printModel(model);
+    expect(printed).toContain('name: string max 120');
+    expect(printed).toContain('notes: string');
+    expect(printed).toContain('event ship {\n            depends: pay\n        }');
+  });
+
+  it('should keep references pointing at nodes renamed on the other side', () => {
+    const ours = parse(base.replace('entity Customer {', 'entity Client {').replace('ManyToOne Customer', 'ManyToOne Client'));
+    const theirs = edit('        customer: ManyToOne Customer\n', '        customer: ManyToOne Customer\n        buyer: ManyToOne Customer\n');
+
+    const { model, conflicts } = mergeModels(parse(base), ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    const order = (model.abstractElements[0] as Module).elements[1] as LocalEntity;
+    expect(order.relations.map(relation => relation.name)).toEqual(['customer', 'buyer']);
+    expect(order.relations.map(relation => (relation.type as { ref: LocalEntity }).ref.name)).toEqual(['Client', 'Client']);
+    expect(order.relations[1].$container).toBe(order);
+  });
+
+  it('should report properties changed differently on both sides', () => {
+    const ours = edit('max 80', 'max 100');
+    const theirs = edit('max 80', 'max 120');
+
+    const { model, conflicts } = mergeModels(parse(base), ours, theirs);
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      kind: 'both-modified',
+      path: 'Sales.Customer.name',
+      property: 'max',
+      ours: 100,
+      theirs: 120
+    })]);
+    expect(printModel(model)).toContain('max 100');
+  });
+
+  it('should accept the same change made on both sides', () => {
+    const ours = edit('max 80', 'max 120');
+    const theirs = edit('max 80', 'max 120');
+
+    expect(mergeModels(parse(base), ours, theirs).conflicts).toEqual([]);
+  });
+
+  it('should report nodes deleted on one side and modified on the other', () => {
+    const ours = edit('        cpf: cpf unique\n', '');
+    const theirs = edit('cpf: cpf unique', 'cpf: cpf');
+
+    const { model, conflicts } = mergeModels(parse(base), ours, theirs);
+
+    expect(conflicts).toEqual([expect.objectContaining({ kind: 'modified-and-deleted', path: 'Sales.Customer.cpf', deletedBy: 'ours' })]);
+    expect(printModel(model)).not.toContain('cpf');
+  });
+
+  it('should report nodes added differently and renamed differently on both sides', () => {
+    const ours = parse(base.replace('entity Order {', 'entity Purchase {').replace('        event pay {}\n', '        event pay {}\n        event ship {}\n'));
+    const theirs = parse(base.replace('entity Order {', 'entity Sale {').replace('        event pay {}\n', '        event pay {}\n        event ship {\n            depends: pay\n        }\n'));
+
+    const { conflicts } = mergeModels(parse(base), ours, theirs);
+
+    expect(conflicts.map(conflict => `${conflict.kind} ${conflict.path}`)).toEqual([
+      'both-renamed Sales.Order',
+      'both-added shop.buy.ship'
+    ]);
+  });
+
+  it('should report references to nodes the other side deleted', () => {
+    const ours = edit('        customer: ManyToOne Customer\n', '');
+    const theirs = parse(base.replace('        customer: ManyToOne Customer\n', '').replace('entity Customer {\n        name: string max 80\n        cpf: cpf unique\n    }\n', 'entity Customer {\n        name: string max 80\n        cpf: cpf unique\n    }\n\n    entity Invoice {\n        customer: ManyToOne Customer\n    }\n'));
+    const removed = parse(base.replace('        customer: ManyToOne Customer\n', '').replace(/    entity Customer \{[^}]*\}\n\n/, ''));
+
+    expect(mergeModels(parse(base), ours, theirs).conflicts).toEqual([]);
+
+    const { model, conflicts } = mergeModels(parse(base), removed, theirs);
+
+    expect(conflicts).toEqual([expect.objectContaining({ kind: 'dangling-reference', path: 'Sales.Invoice.customer' })]);
+    const invoice = (model.abstractElements[0] as Module).elements.find(element => element.name === 'Invoice') as LocalEntity;
+    expect(invoice.relations[0].type).toEqual({ ref: undefined, $refText: 'Sales.Customer' });
+  });
+});
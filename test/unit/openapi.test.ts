@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { createOpenApiDocument, generateOpenApi } from '../../src/generators/openapi';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function exposed(): Model {
+  return shop({
+    config: { description: 'Loja virtual' },
+    base: entity => entity.function('audit', 'void'),
+    customer: entity => entity
+      .attr('name', 'string')
+      .function('creditScore', 'integer', { since: 'date', detailed: 'boolean' }, 'Calcula o score'),
+    order: entity => entity.attr('id', 'uuid')
+  });
+}
+
+describe('createOpenApiDocument', () => {
+  it('should fill the info block and tag operations by module', () => {
+    const document = createOpenApiDocument(exposed(), { version: '2.0.0' });
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Shop', version: '2.0.0', description: 'Loja virtual' });
+    expect(document.tags).toEqual([{ name: 'Sales', description: 'Vendas' }]);
+    expect(Object.keys(document.paths)).toEqual([
+      '/sales/customer',
+      '/sales/customer/{id}',
+      '/sales/customer/{id}/audit',
+      '/sales/customer/{id}/credit-score',
+      '/sales/order',
+      '/sales/order/{id}',
+      '/sales/tag',
+      '/sales/tag/{id}'
+    ]);
+    expect(Object.keys(document.components.schemas)).toEqual(['Sales.Customer', 'Sales.Order', 'Sales.Tag', 'Sales.Base', 'Status']);
+  });
+
+  it('should generate CRUD operations for concrete entities', () => {
+    const document = createOpenApiDocument(exposed());
+    const ref = { $ref: '#/components/schemas/Sales.Order' };
+
+    expect(document.info.version).toBe('1.0.0');
+    expect(document.paths['/sales/order']).toEqual({
+      get: { operationId: 'salesListOrder', tags: ['Sales'], responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: ref } } } } } },
+      post: {
+        operationId: 'salesCreateOrder',
+        tags: ['Sales'],
+        requestBody: { required: true, content: { 'application/json': { schema: ref } } },
+        responses: { '201': { description: 'Created', content: { 'application/json': { schema: ref } } } }
+      }
+    });
+    const item = document.paths['/sales/order/{id}'];
+    expect(Object.keys(item)).toEqual(['get', 'put', 'delete']);
+    expect(item.delete!.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }]);
+    expect(document.paths['/sales/customer/{id}'].get!.parameters![0].schema).toEqual({ type: 'integer', format: 'int64' });
+  });
+
+  it('should turn entity functions into operations', () => {
+    const document = createOpenApiDocument(exposed());
+
+    expect(document.paths['/sales/customer/{id}/credit-score'].post).toEqual({
+      operationId: 'salesCustomerCreditScore',
+      description: 'Calcula o score',
+      tags: ['Sales'],
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } }],
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: {
+          type: 'object',
+          properties: { since: { type: 'string', format: 'date' }, detailed: { type: 'boolean' } },
+          required: ['since', 'detailed']
+        } } }
+      },
+      responses: {
+        '200': { description: 'OK', content: { 'application/json': { schema: { type: 'integer' } } } },
+        '404': { description: 'Not found' }
+      }
+    });
+    expect(document.paths['/sales/customer/{id}/audit'].post!.responses).toEqual({
+      '204': { description: 'No content' },
+      '404': { description: 'Not found' }
+    });
+  });
+
+  it('should keep operation ids unique across modules with same-named entities', () => {
+    const built = model()
+      .module('Sales').entity('Order').function('close', 'void').end().end()
+      .module('Billing').entity('Order').function('close', 'void').end().end()
+      .build();
+    const operations = Object.values(createOpenApiDocument(built).paths).flatMap(item => Object.values(item));
+    const ids = operations.map(operation => operation.operationId);
+
+    expect(ids).toEqual([
+      'salesListOrder', 'salesCreateOrder', 'salesGetOrder', 'salesUpdateOrder', 'salesDeleteOrder', 'salesOrderClose',
+      'billingListOrder', 'billingCreateOrder', 'billingGetOrder', 'billingUpdateOrder', 'billingDeleteOrder', 'billingOrderClose'
+    ]);
+  });
+
+  it('should serialize the document as JSON', () => {
+    const text = generateOpenApi(exposed());
+
+    expect(text.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(text)).toEqual(createOpenApiDocument(exposed()));
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { parseModel } from '../../src/dsl/parser';
+import { generatePrisma } from '../../src/generators/prisma';
+import { generateCode } from '../../src/generators/code';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function mapped(): Model {
+  return shop({
+    config: { database_name: 'postgres' },
+    customer: entity => entity
+      .attr('phone', 'mobilePhoneNumber', { blank: true })
+      .enumAttr('status', 'Status')
+      .manyToOne('account', 'Auth.User'),
+    order: entity => entity
+      .attr('id', 'uuid')
+      .manyToOne('seller', 'Customer')
+      .manyToMany('tags', 'Tag')
+      .manyToMany('products', 'Product', { by: 'OrderItem' }),
+    sales: sales => sales.entity('Product').end().entity('OrderItem').attr('quantity', 'integer')
+  });
+}
+
+describe('generatePrisma', () => {
+  it('should take the datasource provider from the configuration', () => {
+    const schema = generatePrisma(model().config({ database_name: 'MySQL' }).module('Sales').entity('Tag').end().end().build());
+
+    expect(schema).toBe([
+      'datasource db {',
+      '  provider = "mysql"',
+      '  url      = env("DATABASE_URL")',
+      '}',
+      '',
+      'generator client {',
+      '  provider = "prisma-client-js"',
+      '}',
+      '',
+      'model Tag {',
+      '  id BigInt @id @default(autoincrement())',
+      '',
+      '  @@map("tag")',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should map entities to models with unique and optional fields', () => {
+    const schema = generatePrisma(mapped());
+
+    expect(schema).not.toContain('enum Status');
+    expect(schema).not.toContain('model Base');
+    expect(schema).toContain([
+      '/// Cliente',
+      'model Customer {',
+      '  id             BigInt   @id @default(autoincrement())',
+      '  createdAt      DateTime @map("created_at") @db.Timestamp',
+      '  cpf            String   @unique @db.Char(11)',
+      '  phone          String?  @db.VarChar(20)',
+      '  /// OPEN | CLOSED',
+      '  status         String?  @db.VarChar(6)',
+      '  accountId      BigInt?  @map("account_id")',
+      '  orders         Order[]  @relation("OrderCustomer")',
+      '  ordersAsSeller Order[]  @relation("OrderSeller")',
+      '',
+      '  @@map("customer")',
+      '}'
+    ].join('\n'));
+    expect(schema).toContain('  id         String      @id @default(uuid()) @db.Uuid');
+  });
+
+  it('should declare relations on both sides', () => {
+    const schema = generatePrisma(mapped());
+
+    expect(schema).toContain('  customer   Customer?   @relation("OrderCustomer", fields: [customerId], references: [id])');
+    expect(schema).toContain('  seller     Customer?   @relation("OrderSeller", fields: [sellerId], references: [id])');
+    expect(schema).toContain('  tags       OrderTags[] @relation("OrderTagsOrder")');
+    expect(schema).toContain('  orders OrderTags[] @relation("OrderTagsTag")');
+  });
+
+  it('should map many-to-many relations to the join tables of generateSql', () => {
+    const schema = generatePrisma(mapped());
+
+    expect(schema).toContain([
+      'model OrderTags {',
+      '  orderId String @map("order_id") @db.Uuid',
+      '  tagId   BigInt @map("tag_id")',
+      '  order   Order  @relation("OrderTagsOrder", fields: [orderId], references: [id])',
+      '  tag     Tag    @relation("OrderTagsTag", fields: [tagId], references: [id])',
+      '',
+      '  @@id([orderId, tagId])',
+      '  @@map("order_tags")',
+      '}'
+    ].join('\n'));
+    expect(schema).not.toContain('model OrderProducts');
+  });
+
+  it('should qualify the names of same-named entities and map them to their tables', () => {
+    const schema = generatePrisma(model()
+      .module('Crm')
+        .enum('Status', ['ACTIVE'])
+        .entity('Customer').enumAttr('status', 'Crm.Status').end()
+      .end()
+      .module('Sales')
+        .enum('Status', ['OPEN'])
+        .entity('Customer').manyToOne('contact', 'Crm.Customer').end()
+        .entity('Order').enumAttr('status', 'Sales.Status').manyToOne('customer', 'Sales.Customer').end()
+      .end()
+      .build());
+
+    expect(schema).toContain([
+      'model CrmCustomer {',
+      '  id        BigInt          @id @default(autoincrement())',
+      '  /// ACTIVE',
+      '  status    String?         @db.VarChar(6)',
+      '  customers SalesCustomer[] @relation("SalesCustomerContact")',
+      '',
+      '  @@map("crm_customer")',
+      '}'
+    ].join('\n'));
+    expect(schema).toContain('  @@map("sales_customer")');
+    expect(schema).toContain('  contact   CrmCustomer? @relation("SalesCustomerContact", fields: [contactId], references: [id])');
+    expect(schema).toContain('  customer   SalesCustomer? @relation("OrderCustomer", fields: [customerId], references: [id])');
+    expect(schema).toContain('model Order {');
+  });
+
+  it('should use the by entity as an explicit join model', () => {
+    const schema = generatePrisma(mapped());
+
+    expect(schema).toContain('  products   OrderItem[] @relation("OrderItemOrder")');
+    expect(schema).toContain('  orders OrderItem[] @relation("OrderItemProduct")');
+    expect(schema).toContain([
+      'model OrderItem {',
+      '  id        BigInt  @id @default(autoincrement())',
+      '  quantity  Int',
+      '  orderId   String  @map("order_id") @db.Uuid',
+      '  productId BigInt  @map("product_id")',
+      '  order     Order   @relation("OrderItemOrder", fields: [orderId], references: [id])',
+      '  product   Product @relation("OrderItemProduct", fields: [productId], references: [id])',
+      '',
+      '  @@map("order_item")',
+      '}'
+    ].join('\n'));
+  });
+
+  it('should pair a declared inverse with the owning side', () => {
+    const { model: parsed } = parseModel([
+      'module Sales {',
+      '    entity Customer {',
+      '        profile: OneToOne Profile',
+      '    }',
+      '    entity Profile {',
+      '        owner: OneToOne Customer',
+      '    }',
+      '}'
+    ].join('\n'));
+    const schema = generatePrisma(parsed);
+
+    expect(schema).toContain('  profileId BigInt?  @unique @map("profile_id")\n  profile   Profile? @relation("CustomerProfile", fields: [profileId], references: [id])');
+    expect(schema).toContain('  owner Customer? @relation("CustomerProfile")');
+  });
+
+  it('should be the node-prisma target of generateCode', () => {
+    const files = generateCode(mapped(), { language: 'node-prisma' });
+
+    expect(files).toEqual([{ path: 'prisma/schema.prisma', content: generatePrisma(mapped()) }]);
+  });
+});
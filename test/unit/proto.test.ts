@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { EntityBuilder, ModelBuilder } from '../../src/builders/model-builder';
+import { generateProto } from '../../src/generators/proto';
+import type { GeneratedFile } from '../../src/generators/files';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function encoded(customer: (entity: EntityBuilder<ModelBuilder>) => void = entity => {
+  entity.attr('name', 'string').attr('phone', 'phoneNumber', { blank: true });
+}): Model {
+  return shop({
+    config: { package_path: 'com.example.shop' as never },
+    customer: entity => {
+      customer(entity);
+      entity
+        .enumAttr('priority', 'Sales.Priority')
+        .function('close', 'void', { reason: 'string' })
+        .function('getBalance', 'currency', {});
+    },
+    order: entity => entity.attr('id', 'uuid'),
+    sales: sales => sales.enum('Priority', ['LOW', 'HIGH'])
+  });
+}
+
+function file(files: Array<GeneratedFile>, path: string): string {
+  const found = files.find(candidate => candidate.path === path);
+  expect(found).toBeDefined();
+  return found!.content;
+}
+
+describe('generateProto', () => {
+  it('should emit one file per module in the configured package', () => {
+    const { files } = generateProto(encoded());
+
+    expect(files.map(candidate => candidate.path)).toEqual(['com/example/shop/enums.proto', 'com/example/shop/sales.proto']);
+    expect(file(files, 'com/example/shop/enums.proto')).toBe([
+      'syntax = "proto3";',
+      '',
+      'package com.example.shop;',
+      '',
+      'enum Status {',
+      '  STATUS_UNSPECIFIED = 0;',
+      '  STATUS_OPEN = 1;',
+      '  STATUS_CLOSED = 2;',
+      '}',
+      ''
+    ].join('\n'));
+    expect(file(files, 'com/example/shop/sales.proto')).toContain([
+      'package com.example.shop.sales;',
+      '',
+      'import "com/example/shop/enums.proto";',
+      'import "google/protobuf/empty.proto";',
+      'import "google/protobuf/timestamp.proto";'
+    ].join('\n'));
+  });
+
+  it('should flatten entities into messages carrying relation keys', () => {
+    const sales = file(generateProto(encoded()).files, 'com/example/shop/sales.proto');
+
+    expect(sales).not.toContain('message Base');
+    expect(sales).toContain([
+      '// Cliente',
+      'message Customer {',
+      '  int64 id = 1;',
+      '  google.protobuf.Timestamp created_at = 2;',
+      '  string cpf = 3;',
+      '  string name = 4;',
+      '  optional string phone = 5;',
+      '  Priority priority = 6;',
+      '  repeated string orders_ids = 7;',
+      '}'
+    ].join('\n'));
+    expect(sales).toContain('message Order {\n  string id = 1;\n  com.example.shop.Status status = 2;\n  optional int64 customer_id = 3;\n}');
+  });
+
+  it('should declare a service per module with an rpc per function', () => {
+    const sales = file(generateProto(encoded()).files, 'com/example/shop/sales.proto');
+
+    expect(sales).toContain('message CustomerCloseRequest {\n  int64 id = 1;\n  string reason = 2;\n}');
+    expect(sales).toContain('message CustomerGetBalanceResponse {\n  string result = 1;\n}');
+    expect(sales).toContain([
+      '// Vendas',
+      'service SalesService {',
+      '  rpc CustomerClose(CustomerCloseRequest) returns (google.protobuf.Empty);',
+      '  rpc CustomerGetBalance(CustomerGetBalanceRequest) returns (CustomerGetBalanceResponse);',
+      '}'
+    ].join('\n'));
+  });
+
+  it('should keep field numbers across regenerations and reserve removed ones', () => {
+    const first = generateProto(encoded());
+    const second = generateProto(encoded(entity => {
+      entity.attr('email', 'email').attr('phone', 'phoneNumber', { blank: true });
+    }), { allocations: first.allocations });
+
+    expect(file(second.files, 'com/example/shop/sales.proto')).toContain([
+      'message Customer {',
+      '  reserved 4;',
+      '  reserved "name";',
+      '  int64 id = 1;',
+      '  google.protobuf.Timestamp created_at = 2;',
+      '  string cpf = 3;',
+      '  string email = 8;',
+      '  optional string phone = 5;',
+      '  Priority priority = 6;'
+    ].join('\n'));
+    expect(first.allocations.messages['Sales.Customer'].fields.name).toEqual({ number: 4, type: 'string' });
+  });
+
+  it('should renumber fields whose wire type changed', () => {
+    const first = generateProto(encoded());
+    const second = generateProto(encoded(entity => {
+      entity.attr('name', 'integer').attr('phone', 'phoneNumber', { blank: true });
+    }), { allocations: first.allocations });
+
+    expect(second.allocations.messages['Sales.Customer']).toMatchObject({ reservedNumbers: [4], reservedNames: [] });
+    expect(file(second.files, 'com/example/shop/sales.proto')).toContain('  reserved 4;\n  int64 id = 1;\n  google.protobuf.Timestamp created_at = 2;\n  string cpf = 3;\n  int32 name = 8;');
+  });
+
+  it('should keep enum value numbers when values are reordered', () => {
+    const first = generateProto(encoded());
+    const reordered = encoded();
+    reordered.abstractElements.find(element => element.$type === 'EnumX')!.attributes.reverse();
+
+    expect(file(generateProto(reordered, { allocations: first.allocations }).files, 'com/example/shop/enums.proto'))
+      .toContain('  STATUS_UNSPECIFIED = 0;\n  STATUS_CLOSED = 2;\n  STATUS_OPEN = 1;');
+  });
+});
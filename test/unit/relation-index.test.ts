@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { RelationIndex, inverseRelationType } from '../../src/relations/relation-index';
+import { getRef, isRelation, type Model, type Module, type ModuleImport } from '../../src/models/model';
+import type { LocalEntity } from '../../src/models/entity';
+import { shop } from '../fixtures/shop';
+
+function indexed(): Model {
+  return shop({
+    order: entity => entity
+      .manyToOne('seller', 'Customer')
+      .manyToMany('products', 'Product', { by: 'OrderItem' })
+      .oneToOne('owner', 'Auth.User'),
+    sales: sales => sales.entity('Product').end().entity('OrderItem')
+  });
+}
+
+function entities(built: Model): Array<LocalEntity> {
+  return (built.abstractElements[2] as Module).elements as Array<LocalEntity>;
+}
+
+describe('isRelation', () => {
+  it('should identify every relation type', () => {
+    for (const type of ['OneToOne', 'OneToMany', 'ManyToOne', 'ManyToMany']) {
+      expect(isRelation({ $type: type })).toBe(true);
+    }
+    expect(isRelation({ $type: 'Attribute' })).toBe(false);
+  });
+});
+
+describe('RelationIndex', () => {
+  it('should answer who points at an entity', () => {
+    const built = indexed();
+    const [, customer, order, , product] = entities(built);
+    const user = (built.abstractElements[1] as ModuleImport).entities[0];
+    const index = new RelationIndex(built);
+
+    expect(index.getIncoming(customer).map(relation => relation.name)).toEqual(['customer', 'seller']);
+    expect(index.getIncoming(order)).toEqual([customer.relations[0]]);
+    expect(index.getIncoming(product)).toEqual([order.relations[2]]);
+    expect(index.getIncoming(user)).toEqual([order.relations[3]]);
+    expect(index.getOutgoing(order)).toHaveLength(4);
+  });
+
+  it('should pair explicit inverse relations', () => {
+    const built = indexed();
+    const [, customer, order] = entities(built);
+    const index = new RelationIndex(built);
+
+    expect(index.getInverse(customer.relations[0])).toBe(order.relations[0]);
+    expect(index.getInverse(order.relations[0])).toBe(customer.relations[0]);
+    expect(index.isImplicit(order.relations[0])).toBe(false);
+  });
+
+  it('should synthesize implicit inverses', () => {
+    const built = indexed();
+    const [, customer, order, , product, orderItem] = entities(built);
+    const index = new RelationIndex(built);
+
+    const seller = index.getInverse(order.relations[1])!;
+    const products = index.getInverse(order.relations[2])!;
+
+    expect(seller).toMatchObject({ $type: 'OneToMany', name: 'orders', $container: customer });
+    expect(getRef(seller.type)).toBe(order);
+    expect(index.isImplicit(seller)).toBe(true);
+    expect(products).toMatchObject({ $type: 'ManyToMany', name: 'orders', $container: product });
+    expect(getRef((products as any).by)).toBe(orderItem);
+    expect(index.getImplicitRelations(product)).toEqual([products]);
+    expect(index.getAllRelations(customer)).toEqual([customer.relations[0], seller]);
+    expect(customer.relations).toHaveLength(1);
+  });
+
+  it('should not synthesize inverses on imported entities', () => {
+    const built = indexed();
+    const order = entities(built)[2];
+    const index = new RelationIndex(built);
+
+    expect(index.getInverse(order.relations[3])).toBeUndefined();
+  });
+
+  it('should list one pair per declared relation', () => {
+    const index = new RelationIndex(indexed());
+
+    expect(index.getPairs().map(pair => [pair.relation.name, pair.inverse?.name, pair.implicit])).toEqual([
+      ['orders', 'customer', false],
+      ['customer', 'orders', false],
+      ['seller', 'orders', true],
+      ['products', 'orders', true],
+      ['owner', undefined, false]
+    ]);
+  });
+
+  it('should pair self relations with a distinct inverse', () => {
+    const built = model().module('HR').entity('Employee').oneToMany('reports', 'Employee').manyToOne('manager', 'Employee').end().end().build();
+    const employee = (built.abstractElements[0] as Module).elements[0] as LocalEntity;
+    const index = new RelationIndex(built);
+
+    expect(index.getInverse(employee.relations[0])).toBe(employee.relations[1]);
+    expect(inverseRelationType.OneToOne).toBe('OneToOne');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { ModelScope } from '../../src/references/scope';
+import { getQualifiedName } from '../../src/references/qualified-name';
+import { isEnumX, type Model, type Module, type ModuleImport, type UseCasesModel } from '../../src/models/model';
+import { isLocalEntity, type LocalEntity } from '../../src/models/entity';
+import { shop } from '../fixtures/shop';
+
+function scoped(): Model {
+  return shop({
+    customer: entity => entity.attr('name', 'string'),
+    sales: sales => sales
+      .module('Orders')
+        .entity('Order').function('close', 'boolean', { reason: 'string' }).end()
+        .enum('Customer', ['VIP']),
+    model: builder => builder
+      .moduleImport('legacy', 'leds-auth', 'br.leds.auth.*', ['Role'])
+      .module('Billing')
+        .entity('Invoice').end()
+        .entity('Order').end()
+      .end()
+      .useCases('shop').actor('Client').useCase('buy', 'Buy').event('pay')
+  });
+}
+
+function nodes(built: Model) {
+  const sales = built.abstractElements[2] as Module;
+  const orders = sales.elements[4] as Module;
+  const billing = built.abstractElements[4] as Module;
+  return {
+    user: (built.abstractElements[1] as ModuleImport).entities[0],
+    role: (built.abstractElements[3] as ModuleImport).entities[0],
+    sales,
+    customer: sales.elements[1] as LocalEntity,
+    orders,
+    order: orders.elements[0] as LocalEntity,
+    customerEnum: orders.elements[1],
+    invoice: billing.elements[0] as LocalEntity,
+    billingOrder: billing.elements[1] as LocalEntity
+  };
+}
+
+describe('getQualifiedName', () => {
+  it('should prefix names with every enclosing container', () => {
+    const built = scoped();
+    const { order, customer, orders, user } = nodes(built);
+    const useCases = built.abstractElements[5] as UseCasesModel;
+
+    expect(getQualifiedName(orders)).toBe('Sales.Orders');
+    expect(getQualifiedName(order)).toBe('Sales.Orders.Order');
+    expect(getQualifiedName(customer.attributes[1])).toBe('Sales.Customer.name');
+    expect(getQualifiedName((order.functions[0].paramters[0].element as any)[0])).toBe('Sales.Orders.Order.close.reason');
+    expect(getQualifiedName(user)).toBe('Auth.User');
+    expect(getQualifiedName(useCases.elements[1].events[0])).toBe('shop.buy.pay');
+    expect(getQualifiedName(built)).toBeUndefined();
+  });
+});
+
+describe('ModelScope', () => {
+  it('should resolve fully qualified names', () => {
+    const built = scoped();
+    const scope = new ModelScope(built);
+
+    const resolution = scope.resolve('Sales.Orders.Order');
+
+    expect(resolution).toEqual({ status: 'resolved', name: 'Sales.Orders.Order', node: nodes(built).order });
+  });
+
+  it('should search enclosing modules from the innermost outwards', () => {
+    const built = scoped();
+    const { order, customer, customerEnum, invoice } = nodes(built);
+    const scope = new ModelScope(built);
+
+    expect(scope.resolveOrThrow('Customer', { context: order })).toBe(customerEnum);
+    expect(scope.resolveOrThrow('Customer', { context: order, filter: isLocalEntity })).toBe(customer);
+    expect(scope.resolveOrThrow('Orders.Order', { context: customer })).toBe(order);
+    expect(scope.resolve('Invoice', { context: order }).status).toBe('unresolved');
+    expect(scope.resolveOrThrow('Billing.Invoice', { context: order })).toBe(invoice);
+  });
+
+  it('should search enclosing use case groups for actors and events', () => {
+    const built = scoped();
+    const useCases = built.abstractElements[5] as UseCasesModel;
+    const buy = useCases.elements[1];
+    const scope = new ModelScope(built);
+
+    expect(scope.resolveOrThrow('Client', { context: buy })).toBe(useCases.elements[0]);
+    expect(scope.resolveOrThrow('pay', { context: buy.events[0] })).toBe(buy.events[0]);
+    expect(scope.resolve('Client').status).toBe('unresolved');
+  });
+
+  it('should resolve names through explicit and wildcard imports', () => {
+    const built = scoped();
+    const { order, customer, invoice } = nodes(built);
+    const scope = new ModelScope(built);
+
+    expect(scope.resolveOrThrow('Invoice', { context: customer, imports: ['Billing.*'] })).toBe(invoice);
+    expect(scope.resolveOrThrow('Order', { imports: ['Sales.Orders.Order'] })).toBe(order);
+    expect(scope.resolveOrThrow('Orders.Order', { imports: ['Sales.Orders'] })).toBe(order);
+  });
+
+  it('should resolve imported entities through their ModuleImport', () => {
+    const built = scoped();
+    const { user, role, customer } = nodes(built);
+    const scope = new ModelScope(built);
+
+    expect(scope.resolveOrThrow('User', { context: customer })).toBe(user);
+    expect(scope.resolveOrThrow('Auth.User')).toBe(user);
+    expect(scope.resolveOrThrow('com.example.auth.User')).toBe(user);
+    expect(scope.resolveOrThrow('br.leds.auth.Role')).toBe(role);
+  });
+
+  it('should report ambiguous names', () => {
+    const built = scoped();
+    const { order, billingOrder } = nodes(built);
+    const scope = new ModelScope(built);
+
+    const resolution = scope.resolve('Order', { imports: ['Sales.Orders.*', 'Billing.*'] });
+
+    expect(resolution).toEqual({ status: 'ambiguous', name: 'Order', candidates: [order, billingOrder] });
+    expect(() => scope.resolveOrThrow('Order', { imports: ['Sales.Orders.*', 'Billing.*'] }))
+      .toThrow("Ambiguous name 'Order': Sales.Orders.Order, Billing.Order");
+  });
+
+  it('should report unresolved names', () => {
+    const scope = new ModelScope(scoped());
+
+    expect(scope.resolve('Missing')).toEqual({ status: 'unresolved', name: 'Missing' });
+    expect(scope.resolve('Sales.Orders.Customer', { filter: isLocalEntity }).status).toBe('unresolved');
+    expect(scope.resolve('Sales.Orders.Customer', { filter: isEnumX }).status).toBe('resolved');
+    expect(() => scope.resolveOrThrow('Missing')).toThrow("Unresolved name 'Missing'");
+  });
+
+  it('should list every qualified name', () => {
+    const names = new ModelScope(scoped()).getAllNames();
+
+    expect(names).toContain('Sales.Orders.Order.close');
+    expect(names).toContain('Billing.Invoice');
+    expect(names).toContain('com.example.auth.User');
+    expect(names).toContain('br.leds.auth.Role');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { serializeModel, deserializeModel } from '../../src/serialization/serializer';
+import { getRef, type Model, type Module, type UseCase, type UseCasesModel } from '../../src/models/model';
+import type { Actor } from '../../src/models/actor';
+import type { LocalEntity } from '../../src/models/entity';
+import { shop } from '../fixtures/shop';
+
+function serialized(): Model {
+  return shop({
+    config: { language: 'java', entity: 'Order' },
+    order: entity => entity.attr('total', 'currency', { min: 0 }).function('close', 'boolean', { reason: 'string' }),
+    model: builder => builder
+      .useCases('shop')
+        .actor('Client')
+        .useCase('buy', 'Buy', { actors: ['Client'] })
+          .event('pay')
+          .event('ship', { depends: ['pay'] })
+        .end()
+      .end()
+  });
+}
+
+describe('serializeModel', () => {
+  it('should produce JSON without $container back-pointers', () => {
+    const json = serializeModel(serialized());
+
+    expect(json).not.toContain('$container');
+    expect(() => JSON.parse(json)).not.toThrow();
+  });
+
+  it('should write references as qualified names', () => {
+    const parsed = JSON.parse(serializeModel(serialized()));
+    const [, customer, order] = parsed.abstractElements[2].elements;
+    const buy = parsed.abstractElements[3].elements[1];
+
+    expect(customer.superType).toEqual({ $ref: 'Sales.Base' });
+    expect(order.relations[0].type).toEqual({ $ref: 'Sales.Customer' });
+    expect(order.enumentityatributes[0].type).toEqual({ $ref: 'Status' });
+    expect(parsed.configuration.entity).toEqual({ $ref: 'Sales.Order' });
+    expect(buy.actors[0]).toEqual({ $ref: 'shop.Client' });
+    expect(buy.events[1].depends[0]).toEqual({ $ref: 'shop.buy.pay' });
+  });
+
+  it('should keep references valid when elements are reordered', () => {
+    const parsed = JSON.parse(serializeModel(serialized()));
+    parsed.abstractElements[2].elements.reverse();
+
+    const restored = deserializeModel(parsed);
+    const [, order, customer] = (restored.abstractElements[2] as Module).elements as Array<LocalEntity>;
+    expect(getRef(order.relations[0].type)).toBe(customer);
+  });
+
+  it('should reject names that do not resolve back to the target', () => {
+    const built = serialized();
+    const sales = built.abstractElements[2] as Module;
+    (sales.elements[0] as LocalEntity).name = 'Customer';
+
+    expect(() => serializeModel(built)).toThrow("Cannot serialize 'superType' of LocalEntity: 'Sales.Customer' does not name a single node");
+  });
+
+  it('should accept references given without the ref wrapper', () => {
+    const built = serialized();
+    const order = (built.abstractElements[2] as Module).elements[2] as LocalEntity;
+    order.relations[0].type = getRef(order.relations[0].type);
+
+    const parsed = JSON.parse(serializeModel(built));
+    expect(parsed.abstractElements[2].elements[2].relations[0].type).toEqual({ $ref: 'Sales.Customer' });
+  });
+
+  it('should reject references to nodes outside the model', () => {
+    const built = serialized();
+    const order = (built.abstractElements[2] as Module).elements[2] as LocalEntity;
+    order.superType = { ref: { ...order, name: 'Detached' } };
+
+    expect(() => serializeModel(built)).toThrow(/not part of the model/);
+  });
+});
+
+describe('deserializeModel', () => {
+  it('should restore containers and references', () => {
+    const restored = deserializeModel(serializeModel(serialized(), { space: 2 }));
+    const sales = restored.abstractElements[2] as Module;
+    const [base, customer, order] = sales.elements as Array<LocalEntity>;
+
+    expect(restored.configuration?.$container).toBe(restored);
+    expect(sales.$container).toBe(restored);
+    expect(order.$container).toBe(sales);
+    expect(order.attributes[0].$container).toBe(order);
+    expect(order.functions[0].paramters[0].$container).toBe(order.functions[0]);
+    expect(getRef(customer.superType!)).toBe(base);
+    expect(getRef(order.relations[0].type)).toBe(customer);
+    expect(getRef(order.enumentityatributes[0].type)).toBe(restored.abstractElements[0]);
+    expect(getRef(restored.configuration!.entity!)).toBe(order);
+  });
+
+  it('should restore use case references', () => {
+    const restored = deserializeModel(serializeModel(serialized()));
+    const useCases = restored.abstractElements[3] as UseCasesModel;
+    const [client, buy] = useCases.elements as [Actor, UseCase];
+
+    expect(getRef(buy.actors[0])).toBe(client);
+    expect(getRef(buy.events[1].depends[0])).toBe(buy.events[0]);
+  });
+
+  it('should round-trip to the same JSON', () => {
+    const json = serializeModel(serialized());
+    expect(serializeModel(deserializeModel(json))).toBe(json);
+  });
+
+  it('should report invalid input', () => {
+    expect(() => deserializeModel({ $type: 'Module' })).toThrow(/Expected a serialized Model/);
+    expect(() => deserializeModel({
+      $type: 'Model',
+      abstractElements: [{ $type: 'Module', name: 'A', elements: [
+        { $type: 'LocalEntity', name: 'X', attributes: [], relations: [], functions: [], enumentityatributes: [], is_abstract: false, superType: { $ref: 'A.Nowhere' } }
+      ] }]
+    })).toThrow("Cannot resolve 'superType' of LocalEntity: no single node named 'A.Nowhere'");
+  });
+});
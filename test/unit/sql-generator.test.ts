@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { generateSql, createSqlSchema, resolveSqlDialect, getColumnType } from '../../src/generators/sql';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function stored(databaseName?: string): Model {
+  return shop({
+    config: { database_name: databaseName },
+    customer: entity => entity.attr('name', 'string', { min: 2, max: 80 }),
+    order: entity => entity
+      .attr('total', 'currency', { min: 0 })
+      .attr('note', 'string', { blank: true })
+      .manyToMany('tags', 'Tag')
+      .manyToMany('products', 'Product', { by: 'OrderItem' })
+      .oneToOne('invoice', 'Invoice'),
+    sales: sales => sales
+      .entity('Product').attr('id', 'uuid').attr('name', 'string').end()
+      .entity('OrderItem').attr('quantity', 'integer', { min: 1 }).end()
+      .entity('Invoice').attr('number', 'string').oneToOne('order', 'Order')
+  });
+}
+
+describe('generateSql', () => {
+  it('should emit tables, join tables and foreign keys for PostgreSQL', () => {
+    expect(generateSql(stored(), { dialect: 'postgresql' })).toBe(`CREATE TABLE "customer" (
+    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "created_at" TIMESTAMP NOT NULL,
+    "cpf" CHAR(11) NOT NULL UNIQUE,
+    "name" VARCHAR(80) NOT NULL CHECK (LENGTH("name") >= 2),
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "order" (
+    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "total" NUMERIC(19,2) NOT NULL CHECK ("total" >= 0),
+    "note" VARCHAR(255),
+    "status" VARCHAR(6) CHECK ("status" IN ('OPEN', 'CLOSED')),
+    "customer_id" BIGINT,
+    "invoice_id" BIGINT UNIQUE,
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "tag" (
+    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "label" VARCHAR(255) NOT NULL,
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "product" (
+    "id" UUID NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "order_item" (
+    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "quantity" INTEGER NOT NULL CHECK ("quantity" >= 1),
+    "order_id" BIGINT NOT NULL,
+    "product_id" UUID NOT NULL,
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "invoice" (
+    "id" BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "number" VARCHAR(255) NOT NULL,
+    PRIMARY KEY ("id")
+);
+
+CREATE TABLE "order_tags" (
+    "order_id" BIGINT NOT NULL,
+    "tag_id" BIGINT NOT NULL,
+    PRIMARY KEY ("order_id", "tag_id")
+);
+
+ALTER TABLE "order" ADD CONSTRAINT "fk_order_customer_id" FOREIGN KEY ("customer_id") REFERENCES "customer" ("id");
+
+ALTER TABLE "order" ADD CONSTRAINT "fk_order_invoice_id" FOREIGN KEY ("invoice_id") REFERENCES "invoice" ("id");
+
+ALTER TABLE "order_item" ADD CONSTRAINT "fk_order_item_order_id" FOREIGN KEY ("order_id") REFERENCES "order" ("id");
+
+ALTER TABLE "order_item" ADD CONSTRAINT "fk_order_item_product_id" FOREIGN KEY ("product_id") REFERENCES "product" ("id");
+
+ALTER TABLE "order_tags" ADD CONSTRAINT "fk_order_tags_order_id" FOREIGN KEY ("order_id") REFERENCES "order" ("id");
+
+ALTER TABLE "order_tags" ADD CONSTRAINT "fk_order_tags_tag_id" FOREIGN KEY ("tag_id") REFERENCES "tag" ("id");
+`);
+  });
+
+  it('should be deterministic', () => {
+    expect(generateSql(stored(), { dialect: 'mysql' })).toBe(generateSql(stored(), { dialect: 'mysql' }));
+  });
+
+  it('should use MySQL identifiers and auto increment', () => {
+    const sql = generateSql(stored(), { dialect: 'mysql' });
+
+    expect(sql).toContain('CREATE TABLE `order` (');
+    expect(sql).toContain('`id` BIGINT AUTO_INCREMENT NOT NULL');
+    expect(sql).toContain('`product_id` CHAR(36) NOT NULL');
+  });
+
+  it('should use SQL Server types and identity columns', () => {
+    const sql = generateSql(stored(), { dialect: 'sqlserver' });
+
+    expect(sql).toContain('[id] BIGINT IDENTITY(1,1) NOT NULL');
+    expect(sql).toContain('[name] NVARCHAR(80) NOT NULL CHECK (LEN([name]) >= 2)');
+    expect(sql).toContain('[id] UNIQUEIDENTIFIER NOT NULL');
+  });
+
+  it('should declare foreign keys inline on SQLite', () => {
+    const sql = generateSql(stored(), { dialect: 'sqlite' });
+
+    expect(sql).toContain('"id" INTEGER PRIMARY KEY AUTOINCREMENT,');
+    expect(sql).toContain('CONSTRAINT "fk_order_customer_id" FOREIGN KEY ("customer_id") REFERENCES "customer" ("id")');
+    expect(sql).toContain('CHECK (LENGTH("name") >= 2 AND LENGTH("name") <= 80)');
+    expect(sql).not.toContain('ALTER TABLE');
+  });
+
+  it('should pick the dialect from Configuration.database_name', () => {
+    expect(resolveSqlDialect(stored('MySQL'))).toBe('mysql');
+    expect(resolveSqlDialect(stored('mssql'))).toBe('sqlserver');
+    expect(resolveSqlDialect(stored('sqlite'))).toBe('sqlite');
+    expect(resolveSqlDialect(stored())).toBe('postgresql');
+    expect(generateSql(stored('sqlite'))).toBe(generateSql(stored(), { dialect: 'sqlite' }));
+  });
+});
+
+describe('createSqlSchema', () => {
+  it('should skip abstract entities and let the first OneToOne side own the key', () => {
+    const tables = createSqlSchema(stored(), 'postgresql');
+
+    expect(tables.map(table => table.name)).toEqual(['customer', 'order', 'tag', 'product', 'order_item', 'invoice', 'order_tags']);
+    expect(tables[5].columns.map(column => column.name)).toEqual(['id', 'number']);
+  });
+
+  it('should add a key column for implicit inverses of OneToMany', () => {
+    const built = model().module('M').entity('Post').oneToMany('comments', 'Comment').end().entity('Comment').end().end().build();
+    const [, comment] = createSqlSchema(built, 'postgresql');
+
+    expect(comment.columns.map(column => column.name)).toEqual(['id', 'post_id']);
+    expect(comment.foreignKeys[0]).toEqual({ column: 'post_id', table: 'comment', referencedTable: 'post', referencedColumn: 'id' });
+  });
+
+  it('should prefix same-named tables with their module path', () => {
+    const built = model()
+      .module('Crm').entity('Customer').attr('name', 'string').end().end()
+      .module('Sales')
+        .entity('Customer').manyToOne('contact', 'Crm.Customer').manyToMany('referrals', 'Crm.Customer').end()
+        .entity('Order').manyToOne('customer', 'Sales.Customer').end()
+      .end()
+      .build();
+    const tables = createSqlSchema(built, 'postgresql');
+
+    expect(tables.map(table => table.name)).toEqual(['crm_customer', 'sales_customer', 'order', 'sales_customer_referrals']);
+    expect(tables.flatMap(table => table.foreignKeys).map(key => `${key.table}.${key.column} -> ${key.referencedTable}`)).toEqual([
+      'sales_customer.contact_id -> crm_customer',
+      'order.customer_id -> sales_customer',
+      'sales_customer_referrals.sales_customer_id -> sales_customer',
+      'sales_customer_referrals.crm_customer_id -> crm_customer'
+    ]);
+  });
+});
+
+describe('getColumnType', () => {
+  it('should map every datatype per dialect', () => {
+    expect(getColumnType('cnpj', 'postgresql')).toBe('CHAR(14)');
+    expect(getColumnType('zipcode', 'mysql')).toBe('CHAR(8)');
+    expect(getColumnType('boolean', 'sqlserver')).toBe('BIT');
+    expect(getColumnType('currency', 'sqlite')).toBe('NUMERIC');
+    expect(getColumnType('email', 'postgresql', 100)).toBe('VARCHAR(100)');
+    expect(() => getColumnType('void', 'postgresql')).toThrow();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { streamContents, streamAllContents, streamAst, getAllContentsOfType, getContainerOfType } from '../../src/traversal/ast-utils';
+import { visitModel, transformModel } from '../../src/traversal/visitor';
+import { isModule, isUseCase, type Model, type Module } from '../../src/models/model';
+import { isLocalEntity, type LocalEntity } from '../../src/models/entity';
+import { isAttribute } from '../../src/models/atribute';
+import { shop } from '../fixtures/shop';
+
+function traversed(): Model {
+  return shop({
+    order: entity => entity.attr('total', 'currency').attr('code', 'string'),
+    sales: sales => sales.module('People').entity('Person').attr('name', 'string'),
+    model: builder => builder.useCases('shop').useCase('buy', 'Buy').event('pay')
+  });
+}
+
+describe('AST streams', () => {
+  it('should stream direct children in containment order', () => {
+    const built = traversed();
+    const sales = built.abstractElements[2] as Module;
+
+    expect([...streamContents(sales)].map(node => node.$type)).toEqual(['LocalEntity', 'LocalEntity', 'LocalEntity', 'LocalEntity', 'Module']);
+  });
+
+  it('should stream all descendants depth-first', () => {
+    const types = [...streamAllContents(traversed())].map(node => node.$type);
+
+    expect(types).toEqual([
+      'Configuration',
+      'EnumX', 'AttributeEnum', 'AttributeEnum',
+      'ModuleImport', 'ImportedEntity',
+      'Module',
+      'LocalEntity', 'Attribute',
+      'LocalEntity', 'Attribute', 'OneToMany',
+      'LocalEntity', 'Attribute', 'Attribute', 'EnumEntityAtribute', 'ManyToOne',
+      'LocalEntity', 'Attribute',
+      'Module', 'LocalEntity', 'Attribute',
+      'UseCasesModel', 'UseCase', 'Event'
+    ]);
+  });
+
+  it('should include the root when streaming the AST', () => {
+    const built = traversed();
+    expect([...streamAst(built)][0]).toBe(built);
+  });
+
+  it('should collect descendants by type guard', () => {
+    const entities = getAllContentsOfType(traversed(), isLocalEntity);
+    expect(entities.map(entity => entity.name)).toEqual(['Base', 'Customer', 'Order', 'Tag', 'Person']);
+  });
+
+  it('should find the nearest container of a type', () => {
+    const built = traversed();
+    const person = getAllContentsOfType(built, isLocalEntity)[4];
+    const name = person.attributes[0];
+
+    expect(getContainerOfType(name, isLocalEntity)).toBe(person);
+    expect(getContainerOfType(name, isModule)?.name).toBe('People');
+    expect(getContainerOfType(person, isLocalEntity)).toBe(person);
+    expect(getContainerOfType(name, isUseCase)).toBeUndefined();
+  });
+});
+
+describe('visitModel', () => {
+  it('should call one typed callback per $type', () => {
+    const visited: Array<string> = [];
+
+    visitModel(traversed(), {
+      LocalEntity: entity => { visited.push(`entity:${entity.name}`); },
+      Attribute: attribute => { visited.push(`attr:${attribute.type}`); },
+      Event: event => { visited.push(`event:${event.id}`); }
+    });
+
+    expect(visited).toEqual([
+      'entity:Base', 'attr:datetime',
+      'entity:Customer', 'attr:cpf',
+      'entity:Order', 'attr:currency', 'attr:string',
+      'entity:Tag', 'attr:string',
+      'entity:Person', 'attr:string',
+      'event:pay'
+    ]);
+  });
+
+  it('should skip children when a callback returns false', () => {
+    const visited: Array<string> = [];
+
+    visitModel(traversed(), {
+      Module: module => module.name === 'Sales' ? false : undefined,
+      LocalEntity: entity => { visited.push(entity.name); }
+    });
+
+    expect(visited).toEqual([]);
+  });
+});
+
+describe('transformModel', () => {
+  it('should replace and remove nodes in place', () => {
+    const built = traversed();
+
+    transformModel(built, {
+      Attribute: attribute => attribute.name === 'code' ? null : { ...attribute, unique: true },
+      ManyToOne: () => null
+    });
+
+    const order = (built.abstractElements[2] as Module).elements[2] as LocalEntity;
+    expect(order.attributes.map(attribute => attribute.name)).toEqual(['total']);
+    expect(order.attributes[0].unique).toBe(true);
+    expect(order.attributes[0].$container).toBe(order);
+    expect(order.relations).toEqual([]);
+    expect(getAllContentsOfType(built, isAttribute)).toHaveLength(5);
+  });
+
+  it('should transform bottom-up so parents see transformed children', () => {
+    const built = traversed();
+    const counts: Array<number> = [];
+
+    transformModel(built, {
+      Attribute: () => null,
+      LocalEntity: entity => { counts.push(entity.attributes.length); }
+    });
+
+    expect(counts).toEqual([0, 0, 0, 0, 0]);
+  });
+});
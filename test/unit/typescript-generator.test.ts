@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { model } from '../../src/builders/model-builder';
+import { generateTypeScript } from '../../src/generators/typescript';
+import type { GeneratedFile } from '../../src/generators/files';
+import type { Model } from '../../src/models/model';
+import { shop } from '../fixtures/shop';
+
+function typed(): Model {
+  return shop({
+    customer: entity => entity
+      .attr('name', 'string', { fullName: 'Nome' })
+      .attr('phone', 'mobilePhoneNumber', { blank: true })
+      .manyToOne('account', 'Auth.User')
+      .function('creditScore', 'integer', { since: 'date' }),
+    order: entity => entity.attr('id', 'uuid').attr('total', 'currency'),
+    sales: sales => sales.module('Billing').entity('Invoice').manyToOne('customer', 'Sales.Customer')
+  });
+}
+
+/** Diagnostics of type-checking the generated files as one strict ES module project. */
+function typeCheck(files: Array<GeneratedFile>): Array<string> {
+  const options: ts.CompilerOptions = {
+    strict: true, noEmit: true, types: [], lib: ['lib.es5.d.ts'],
+    module: ts.ModuleKind.Node16, moduleResolution: ts.ModuleResolutionKind.Node16
+  };
+  const sources = new Map(files.map(generated => [`/out/${generated.path}`, generated.content]));
+  const host = ts.createCompilerHost(options);
+  const { fileExists, directoryExists, readFile, getSourceFile } = host;
+  host.fileExists = name => sources.has(name) || fileExists(name);
+  host.directoryExists = name => name.startsWith('/out') || directoryExists!(name);
+  host.readFile = name => sources.get(name) ?? readFile(name);
+  host.getSourceFile = (name, version, ...rest) => sources.has(name)
+    ? ts.createSourceFile(name, sources.get(name)!, version)
+    : getSourceFile(name, version, ...rest);
+  const program = ts.createProgram([...sources.keys()], options, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+function file(files: Array<GeneratedFile>, path: string): string {
+  const found = files.find(candidate => candidate.path === path);
+  expect(found).toBeDefined();
+  return found!.content;
+}
+
+describe('generateTypeScript', () => {
+  it('should emit one file per module with interfaces and barrels', () => {
+    const files = generateTypeScript(typed());
+
+    expect(files.map(candidate => candidate.path)).toEqual([
+      'enums.ts',
+      'sales.ts',
+      'sales/billing.ts',
+      'imports/auth.ts',
+      'index.ts',
+      'sales/index.ts',
+      'imports/index.ts'
+    ]);
+    expect(file(files, 'enums.ts')).toBe(`export type Status = 'OPEN' | 'CLOSED';\n`);
+    expect(file(files, 'sales.ts')).toBe(`import type { Status } from './enums.js';
+
+export interface Base {
+    createdAt: string;
+}
+
+/** Cliente */
+export interface Customer extends Base {
+    cpf: string;
+    /** Nome */
+    name: string;
+    phone?: string;
+    orders?: Array<string>;
+    account?: number;
+    creditScore(since: string): number;
+}
+
+export interface Order {
+    id: string;
+    total: number;
+    status?: Status;
+    customer?: number;
+}
+
+export interface Tag {
+    label: string;
+}
+`);
+    expect(file(files, 'index.ts')).toBe(`export * from './enums.js';
+export * as Sales from './sales/index.js';
+export * from './imports/index.js';
+`);
+    expect(file(files, 'sales/index.ts')).toBe(`export * from '../sales.js';
+export * as Billing from './billing.js';
+`);
+    expect(file(files, 'imports/index.ts')).toBe(`export * as Auth from './auth.js';\n`);
+    expect(file(files, 'imports/auth.ts')).toContain('export type User = Record<string, unknown>;');
+  });
+
+  it('should nest related interfaces and emit enums when configured', () => {
+    const files = generateTypeScript(typed(), { relations: 'object', enums: 'enum' });
+
+    expect(file(files, 'enums.ts')).toBe(`export enum Status {
+    OPEN = 'OPEN',
+    CLOSED = 'CLOSED'
+}
+`);
+    expect(file(files, 'sales.ts')).toContain(`import type { User } from './imports/auth.js';`);
+    expect(file(files, 'sales.ts')).toContain('    orders?: Array<Order>;\n    account?: User;\n');
+    expect(file(files, 'sales/billing.ts')).toBe(`import type { Customer } from '../sales.js';
+
+export interface Invoice {
+    customer?: Customer;
+}
+`);
+  });
+
+  it('should keep same-named entities of different modules apart', () => {
+    const files = generateTypeScript(model()
+      .module('Crm')
+        .entity('Customer').attr('name', 'string').end()
+      .end()
+      .module('Sales')
+        .entity('Customer', { superType: 'Crm.Customer' }).attr('credit', 'currency').end()
+        .entity('Order').manyToOne('buyer', 'Sales.Customer').manyToOne('contact', 'Crm.Customer').end()
+      .end()
+      .build(), { relations: 'object' });
+
+    expect(file(files, 'index.ts')).toBe(`export * as Crm from './crm.js';
+export * as Sales from './sales.js';
+`);
+    expect(file(files, 'sales.ts')).toBe(`import type { Customer as CrmCustomer } from './crm.js';
+
+export interface Customer extends CrmCustomer {
+    credit: number;
+}
+
+export interface Order {
+    buyer?: Customer;
+    contact?: CrmCustomer;
+}
+`);
+    expect(typeCheck(files)).toEqual([]);
+  });
+
+  it('should generate code that type-checks', () => {
+    expect(typeCheck(generateTypeScript(typed()))).toEqual([]);
+    expect(typeCheck(generateTypeScript(typed(), { relations: 'object', enums: 'enum' }))).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { validateModel } from '../../src/validation/validator';
+import type { Module, UseCasesModel } from '../../src/models/model';
+import type { LocalEntity } from '../../src/models/entity';
+
+describe('validateModel', () => {
+  it('should return no diagnostics for a valid model', () => {
+    const valid = model()
+      .module('Sales')
+        .entity('Customer').attr('name', 'string', { min: 1, max: 80 }).end()
+        .entity('Order', { superType: 'Customer' }).manyToOne('customer', 'Customer').end()
+      .end()
+      .useCases('shop')
+        .useCase('buy', 'Buy').event('pay').event('ship', { depends: ['pay'] }).end()
+      .end()
+      .build();
+
+    expect(validateModel(valid)).toEqual([]);
+  });
+
+  it('should report duplicate names inside a module and an entity', () => {
+    const invalid = model()
+      .module('Sales')
+        .enum('Order', ['A', 'A'])
+        .entity('Order').attr('total', 'decimal').attr('total', 'integer').end()
+      .end()
+      .build();
+    const sales = invalid.abstractElements[0] as Module;
+
+    const diagnostics = validateModel(invalid);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Duplicate element 'Order' in module 'Sales'",
+      "Duplicate enum value 'A' in enum 'Order'",
+      "Duplicate attribute 'total' in entity 'Order'"
+    ]);
+    expect(diagnostics.every(diagnostic => diagnostic.code === 'duplicate-name')).toBe(true);
+    expect(diagnostics[0].node).toBe(sales.elements[1]);
+  });
+
+  it('should report min greater than max', () => {
+    const invalid = model().module('M').entity('E').attr('age', 'integer', { min: 10, max: 1 }).build();
+    const entity = (invalid.abstractElements[0] as Module).elements[0] as LocalEntity;
+
+    const [diagnostic] = validateModel(invalid);
+
+    expect(diagnostic).toMatchObject({ severity: 'error', code: 'min-greater-than-max', property: 'min' });
+    expect(diagnostic.node).toBe(entity.attributes[0]);
+  });
+
+  it('should report supertype cycles on entities, actors and use cases', () => {
+    const invalid = model()
+      .module('M')
+        .entity('A', { superType: 'B' }).end()
+        .entity('B', { superType: 'A' }).end()
+        .entity('C', { superType: 'A' }).end()
+      .end()
+      .useCases('uc')
+        .actor('X', 'Y')
+        .actor('Y', 'X')
+        .useCase('u1', 'U1', { superType: 'u1' })
+      .end()
+      .build();
+
+    const diagnostics = validateModel(invalid).filter(diagnostic => diagnostic.code === 'supertype-cycle');
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      'Cyclic supertype chain: A -> B -> A',
+      'Cyclic supertype chain: B -> A -> B',
+      'Cyclic supertype chain: X -> Y -> X',
+      'Cyclic supertype chain: Y -> X -> Y',
+      'Cyclic supertype chain: u1 -> u1'
+    ]);
+  });
+
+  it('should report relation types that resolve to nothing', () => {
+    const invalid = model().module('M').entity('Other').end().entity('E').oneToMany('items', 'Other').manyToOne('owner', 'Other').end().end().enum('Kind', ['A']).build();
+    const entity = (invalid.abstractElements[0] as Module).elements[1] as LocalEntity;
+    entity.relations[0].type = { ref: undefined as any };
+    entity.relations[1].type = { ref: invalid.abstractElements[1] as any };
+
+    const diagnostics = validateModel(invalid);
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toMatchObject({ code: 'unresolved-reference', property: 'type', message: "Unresolved reference 'type' in OneToMany 'items'" });
+    expect(diagnostics[1].message).toBe("Relation 'owner' must point at an entity but points at EnumX 'Kind'");
+  });
+
+  it('should report event dependency loops', () => {
+    const invalid = model()
+      .useCases('uc')
+        .useCase('u', 'U')
+          .event('a', { depends: ['c'] })
+          .event('b', { depends: ['a'] })
+          .event('c', { depends: ['b'] })
+          .event('d', { depends: ['a'] })
+      .end()
+      .build();
+    const events = ((invalid.abstractElements[0] as UseCasesModel).elements[0]).events;
+
+    const diagnostics = validateModel(invalid);
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      'Cyclic event dependency: a -> c -> b -> a',
+      'Cyclic event dependency: b -> a -> c -> b',
+      'Cyclic event dependency: c -> b -> a -> c'
+    ]);
+    expect(diagnostics[0].node).toBe(events[0]);
+  });
+});
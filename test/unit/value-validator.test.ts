@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { model } from '../../src/builders/model-builder';
+import { isValidCnpj, isValidCpf, validateRecord, validateValue } from '../../src/validation/values';
+import type { Attribute } from '../../src/models/atribute';
+import type { LocalEntity } from '../../src/models/entity';
+import type { EnumEntityAtribute, Module } from '../../src/models/model';
+
+function customer(): LocalEntity {
+  const built = model()
+    .module('Sales')
+      .enum('Status', ['OPEN', 'CLOSED'])
+      .entity('Person', { is_abstract: true }).attr('cpf', 'cpf').end()
+      .entity('Customer', { superType: 'Person' })
+        .attr('name', 'string', { min: 3, max: 10 })
+        .attr('phone', 'mobilePhoneNumber', { blank: true })
+        .attr('cnpj', 'cnpj', { blank: true })
+        .attr('zipcode', 'zipcode', { blank: true })
+        .attr('email', 'email', { blank: true })
+        .attr('id', 'uuid', { blank: true })
+        .attr('birthday', 'date', { blank: true })
+        .attr('createdAt', 'datetime', { blank: true })
+        .attr('limit', 'currency', { blank: true, min: 0, max: 1000 })
+        .attr('visits', 'integer', { blank: true })
+        .attr('active', 'boolean', { blank: true })
+        .enumAttr('status', 'Status')
+      .end()
+    .end()
+    .build();
+  return (built.abstractElements[0] as Module).elements[2] as LocalEntity;
+}
+
+function attribute(name: string): Attribute {
+  const entity = customer();
+  return [...entity.attributes, ...(entity.superType!.ref as LocalEntity).attributes].find(candidate => candidate.name === name)!;
+}
+
+function codes(name: string, value: unknown): Array<string> {
+  return validateValue(attribute(name), value).map(error => error.code);
+}
+
+describe('isValidCpf and isValidCnpj', () => {
+  it('should check both check digits', () => {
+    expect(isValidCpf('52998224725')).toBe(true);
+    expect(isValidCpf('52998224724')).toBe(false);
+    expect(isValidCpf('11111111111')).toBe(false);
+    expect(isValidCpf('529.982.247-25')).toBe(false);
+    expect(isValidCnpj('11222333000181')).toBe(true);
+    expect(isValidCnpj('11222333000180')).toBe(false);
+    expect(isValidCnpj('00000000000000')).toBe(false);
+  });
+});
+
+describe('validateValue', () => {
+  it('should require values unless the attribute is blank', () => {
+    expect(codes('name', undefined)).toEqual(['required']);
+    expect(codes('name', '')).toEqual(['required']);
+    expect(codes('phone', null)).toEqual([]);
+  });
+
+  it('should check the data type', () => {
+    expect(codes('visits', 1.5)).toEqual(['type']);
+    expect(codes('visits', '3')).toEqual(['type']);
+    expect(codes('active', 'true')).toEqual(['type']);
+    expect(codes('limit', Number.NaN)).toEqual(['type']);
+    expect(codes('name', 42)).toEqual(['type']);
+  });
+
+  it('should check Brazilian documents, phones and CEPs', () => {
+    expect(codes('cpf', '52998224725')).toEqual([]);
+    expect(codes('cpf', '529.982.247-25')).toEqual(['format']);
+    expect(codes('cpf', '52998224726')).toEqual(['check-digit']);
+    expect(codes('cnpj', '11222333000181')).toEqual([]);
+    expect(codes('cnpj', '11222333000182')).toEqual(['check-digit']);
+    expect(codes('phone', '+5527999887766')).toEqual([]);
+    expect(codes('phone', '2733221100')).toEqual(['format']);
+    expect(codes('zipcode', '29075910')).toEqual([]);
+    expect(codes('zipcode', '29075-910')).toEqual(['format']);
+  });
+
+  it('should check emails, UUIDs and dates', () => {
+    expect(codes('email', 'ana@example.com')).toEqual([]);
+    expect(codes('email', 'ana@example')).toEqual(['format']);
+    expect(codes('id', '3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toEqual([]);
+    expect(codes('id', '3f2504e0')).toEqual(['format']);
+    expect(codes('birthday', '2024-02-29')).toEqual([]);
+    expect(codes('birthday', '2023-02-29')).toEqual(['format']);
+    expect(codes('birthday', new Date('2024-02-29'))).toEqual([]);
+    expect(codes('createdAt', '2024-05-01T10:30:00Z')).toEqual([]);
+    expect(codes('createdAt', '2024-05-01 25:30:00Z')).toEqual(['format']);
+  });
+
+  it('should enforce min and max as length or bounds', () => {
+    expect(validateValue(attribute('name'), 'Al')).toEqual([{ code: 'min', message: 'Must have at least 3 characters', limit: 3 }]);
+    expect(codes('name', 'Alexandrina Maria')).toEqual(['max']);
+    expect(codes('limit', -1)).toEqual(['min']);
+    expect(codes('limit', 1000.01)).toEqual(['max']);
+    expect(codes('limit', 10.5)).toEqual([]);
+    expect(codes('limit', 10.505)).toEqual(['precision']);
+  });
+
+  it('should check enum membership', () => {
+    const status = customer().enumentityatributes[0] as EnumEntityAtribute;
+
+    expect(validateValue(status, 'OPEN')).toEqual([]);
+    expect(validateValue(status, undefined)).toEqual([]);
+    expect(validateValue(status, 'DONE')).toEqual([{ code: 'enum', message: 'Expected one of OPEN, CLOSED' }]);
+  });
+});
+
+describe('validateRecord', () => {
+  it('should return errors by member, inherited members included', () => {
+    const errors = validateRecord(customer(), { cpf: '52998224726', name: 'Ana', limit: 2000, status: 'DONE' });
+
+    expect(Object.keys(errors)).toEqual(['cpf', 'limit', 'status']);
+    expect(errors.cpf).toEqual([{ code: 'check-digit', message: 'Invalid CPF check digits' }]);
+    expect(errors.limit[0].code).toBe('max');
+    expect(errors.status[0].code).toBe('enum');
+  });
+
+  it('should return no errors for a valid record', () => {
+    expect(validateRecord(customer(), { cpf: '52998224725', name: 'Ana', status: 'OPEN' })).toEqual({});
+  });
+});